@@ -0,0 +1,67 @@
+import { parseExpression } from '../../parser/parser';
+import { printExpression } from '../../parser/printer';
+import { BinaryExpression, Expression, Identifier, LogicalExpression, NumberLiteral } from '../ast';
+import { ExpressionTransformer } from '../visitor';
+
+/** Renames one field everywhere */
+class Rename extends ExpressionTransformer {
+  constructor(private from: string, private to: string) {
+    super();
+  }
+
+  visitIdentifier(node: Identifier): Expression {
+    return node.value === this.from
+      ? this.rebuilt(node, new Identifier({ ...node.token, literal: this.to }, this.to))
+      : node;
+  }
+}
+
+/** Doubles every number literal */
+class Double extends ExpressionTransformer {
+  visitNumberLiteral(node: NumberLiteral): Expression {
+    const value = node.value * 2;
+    return this.rebuilt(node, new NumberLiteral({ ...node.token, literal: String(value) }, value));
+  }
+}
+
+describe('ExpressionTransformer', () => {
+  it('returns the same tree when nothing changes', () => {
+    const ast = parseExpression("age > 18 AND ANY items (price > 5) OR SUM(items.qty WHERE qty > 1) > 3");
+    expect(new ExpressionTransformer().transform(ast)).toBe(ast);
+    expect(new Rename('missing', 'other').transform(ast)).toBe(ast);
+  });
+
+  it('rebuilds only the path to a changed node and shares the rest', () => {
+    const ast = parseExpression("status = 'active' AND age > 18") as LogicalExpression;
+    const result = new Rename('age', 'years').transform(ast) as LogicalExpression;
+
+    expect(printExpression(result)).toBe("status = 'active' AND years > 18");
+    expect(result).not.toBe(ast);
+    expect(result.left).toBe(ast.left);
+    expect(result.right).not.toBe(ast.right);
+    expect((result.right as BinaryExpression).right).toBe((ast.right as BinaryExpression).right);
+    expect(printExpression(ast)).toBe("status = 'active' AND age > 18");
+  });
+
+  it('copies spans onto rebuilt nodes', () => {
+    const source = 'x = 1 OR (age > 18 AND y = 2)';
+    const ast: Expression = parseExpression(source);
+    const result: Expression = new Rename('age', 'years').transform(ast);
+    const group: Expression = (result as LogicalExpression).right;
+    const field: Expression = ((group as LogicalExpression).left as BinaryExpression).left;
+
+    expect(result.span).toEqual(ast.span);
+    expect(source.slice(group.span!.start, group.span!.end)).toBe('(age > 18 AND y = 2)');
+    expect(source.slice(field.span!.start, field.span!.end)).toBe('age');
+  });
+
+  it('reaches every kind of child', () => {
+    const source =
+      'age BETWEEN 1 AND 2 AND x IN [3, 4] AND len(tags) > 5 AND NOT y = 6 ' +
+      'AND ANY items (price > 7) AND SUM(items.qty WHERE qty > 8) > 9 AND z + 10 > 0';
+    expect(printExpression(new Double().transform(parseExpression(source)))).toBe(
+      'age BETWEEN 2 AND 4 AND x IN [6, 8] AND len(tags) > 10 AND NOT y = 12 ' +
+        'AND ANY items (price > 14) AND SUM(items.qty WHERE qty > 16) > 18 AND z + 20 > 0'
+    );
+  });
+});
@@ -22,6 +22,25 @@
  */
 
 import { Token } from './token';
+import { ExpressionVisitor } from './visitor';
+
+/**
+ * SPAN
+ * Character offsets of the source text a node was parsed from
+ * 
+ * Example: in "age >= 18 AND (country = 'US')"
+ * - "age >= 18" → { start: 0, end: 9 }
+ * - the group → { start: 14, end: 30 } (parentheses included)
+ * 
+ * expression.slice(span.start, span.end) is exactly the node's text.
+ */
+export interface Span {
+  /** Offset of the node's first character */
+  start: number;
+
+  /** Offset just past the node's last character */
+  end: number;
+}
 
 /**
  * AST NODE BASE INTERFACE
@@ -31,6 +50,12 @@ import { Token } from './token';
 export interface ASTNode {
   /** Returns the literal value of the node's token */
   tokenLiteral(): string;
+
+  /**
+   * Where the node appears in the expression (set by the parser)
+   * A parenthesized node's span covers its parentheses.
+   */
+  span?: Span;
 }
 
 /**
@@ -41,6 +66,12 @@ export interface ASTNode {
 export interface Expression extends ASTNode {
   /** Marker method to identify expression nodes (vs statement nodes) */
   expressionNode(): void;
+
+  /**
+   * Calls the visitor method for this node's type (see domain/visitor.ts)
+   * Example: BinaryExpression.accept(v) → v.visitBinaryExpression(this)
+   */
+  accept<R>(visitor: ExpressionVisitor<R>): R;
 }
 
 /**
@@ -77,6 +108,105 @@ export class BinaryExpression implements Expression {
   tokenLiteral(): string {
     return this.operator.literal;
   }
+
+  /** Dispatches to visitor.visitBinaryExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitBinaryExpression(this);
+  }
+}
+
+/**
+ * ARITHMETIC EXPRESSION
+ * Represents a value-producing calculation: price * quantity, income - expenses
+ * 
+ * Structure:
+ * - left: Value expression (Identifier, NumberLiteral or another Arithmetic)
+ * - operator: Arithmetic token (+, -, *, /, %)
+ * - right: Value expression
+ * 
+ * Example: price * quantity > 1000
+ * - BinaryExpression(
+ *     ArithmeticExpression(Identifier("price"), "*", Identifier("quantity")),
+ *     ">",
+ *     NumberLiteral(1000)
+ *   )
+ * 
+ * Arithmetic binds tighter than comparisons, and * / % bind tighter than + -
+ */
+export class ArithmeticExpression implements Expression {
+  /**
+   * Constructor
+   * @param left - Left operand
+   * @param operator - Arithmetic operator token
+   * @param right - Right operand
+   */
+  constructor(
+    public left: Expression,
+    public operator: Token,
+    public right: Expression
+  ) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the operator symbol (e.g., "*", "-") */
+  tokenLiteral(): string {
+    return this.operator.literal;
+  }
+
+  /** Dispatches to visitor.visitArithmeticExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitArithmeticExpression(this);
+  }
+}
+
+/**
+ * BETWEEN EXPRESSION
+ * Represents an inclusive range check: age BETWEEN 18 AND 65
+ * 
+ * Structure:
+ * - value: Expression being checked (usually Identifier)
+ * - low: Lower bound (inclusive)
+ * - high: Upper bound (inclusive)
+ * - negated: true for NOT BETWEEN
+ * 
+ * Example: age BETWEEN 18 AND 65
+ * - value: Identifier("age")
+ * - low: NumberLiteral(18)
+ * - high: NumberLiteral(65)
+ * 
+ * Equivalent to "age >= 18 AND age <= 65" but evaluated (and reported in
+ * evaluation details) as a single clause
+ */
+export class BetweenExpression implements Expression {
+  /**
+   * Constructor
+   * @param token - BETWEEN keyword token
+   * @param value - Expression being range-checked
+   * @param low - Inclusive lower bound
+   * @param high - Inclusive upper bound
+   * @param negated - true for NOT BETWEEN
+   */
+  constructor(
+    public token: Token,
+    public value: Expression,
+    public low: Expression,
+    public high: Expression,
+    public negated: boolean = false
+  ) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the operator ("BETWEEN" or "NOT BETWEEN") */
+  tokenLiteral(): string {
+    return this.negated ? 'NOT BETWEEN' : 'BETWEEN';
+  }
+
+  /** Dispatches to visitor.visitBetweenExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitBetweenExpression(this);
+  }
 }
 
 /**
@@ -116,25 +246,82 @@ export class LogicalExpression implements Expression {
   tokenLiteral(): string {
     return this.operator.literal;
   }
+
+  /** Dispatches to visitor.visitLogicalExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitLogicalExpression(this);
+  }
 }
 
+/**
+ * UNARY EXPRESSION
+ * Represents a prefix operator applied to a single operand: NOT
+ * 
+ * Structure:
+ * - operator: Prefix token (NOT)
+ * - operand: Expression being negated (can be Binary, Logical or another Unary)
+ * 
+ * Example: NOT (status = 'banned' OR age < 18)
+ * - operator: Token(NOT, "NOT")
+ * - operand: LogicalExpression(status = 'banned' OR age < 18)
+ * 
+ * NOT binds looser than comparisons but tighter than AND/OR:
+ * NOT age > 18 AND verified = 'yes' → (NOT (age > 18)) AND verified = 'yes'
+ */
+export class UnaryExpression implements Expression {
+  /**
+   * Constructor
+   * @param operator - Prefix operator token
+   * @param operand - Expression the operator applies to
+   */
+  constructor(public operator: Token, public operand: Expression) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the operator (e.g., "NOT") */
+  tokenLiteral(): string {
+    return this.operator.literal;
+  }
+
+  /** Dispatches to visitor.visitUnaryExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitUnaryExpression(this);
+  }
+}
+
+/**
+ * PATH SEGMENT
+ * One step of a field path: an object key (string) or an array index (number)
+ * 
+ * Example: orders[0].total → ["orders", 0, "total"]
+ */
+export type PathSegment = string | number;
+
 /**
  * IDENTIFIER
  * Represents a variable/field name in the expression
  * 
- * Examples: age, country, user_id, status
+ * Examples: age, country, user_id, status, user.address.country, orders[0].total
  * 
  * During evaluation, the identifier's value is looked up in the data object:
  * - Identifier("age") → data["age"] → 25
  * - Identifier("country") → data["country"] → "US"
+ * - Identifier("user.address.country") → data["user"]["address"]["country"] → "US"
+ * - Identifier("orders[0].total") → data["orders"][0]["total"] → 99.5
  */
 export class Identifier implements Expression {
   /**
    * Constructor
    * @param token - The identifier token
-   * @param value - The identifier string (e.g., "age", "country")
+   * @param value - The full identifier string (e.g., "age", "orders[0].total")
+   * @param path - Segments to walk through the data (defaults to the flat name)
    */
-  constructor(public token: Token, public value: string) {}
+  constructor(
+    public token: Token,
+    public value: string,
+    public path: PathSegment[] = [value]
+  ) {}
 
   /** Marker method for expression nodes */
   expressionNode(): void {}
@@ -143,6 +330,11 @@ export class Identifier implements Expression {
   tokenLiteral(): string {
     return this.token.literal;
   }
+
+  /** Dispatches to visitor.visitIdentifier */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitIdentifier(this);
+  }
 }
 
 /**
@@ -169,6 +361,11 @@ export class NumberLiteral implements Expression {
   tokenLiteral(): string {
     return this.token.literal;
   }
+
+  /** Dispatches to visitor.visitNumberLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitNumberLiteral(this);
+  }
 }
 
 /**
@@ -198,4 +395,323 @@ export class StringLiteral implements Expression {
   tokenLiteral(): string {
     return this.token.literal;
   }
+
+  /** Dispatches to visitor.visitStringLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitStringLiteral(this);
+  }
+}
+
+/**
+ * DATE LITERAL
+ * A string literal that holds a valid ISO-8601 date or date-time
+ * 
+ * Examples: '2024-01-01', '2024-01-01T09:30:00Z'
+ * 
+ * Extends StringLiteral so it still behaves as text everywhere (equality,
+ * STARTS_WITH, IN lists); the parsed date is kept for chronological use.
+ * Used in time-based rules: signupDate < '2024-01-01'
+ */
+export class DateLiteral extends StringLiteral {
+  /**
+   * Constructor
+   * @param token - The string token
+   * @param value - The date string WITHOUT quotes
+   * @param date - The parsed date (times without offset are UTC)
+   */
+  constructor(token: Token, value: string, public date: Date) {
+    super(token, value);
+  }
+
+  /** Dispatches to visitor.visitDateLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitDateLiteral(this);
+  }
+}
+
+/**
+ * DURATION LITERAL
+ * Represents a length of time: 30d, 12h, 15m, 45s, 500ms, 2w
+ * 
+ * The value is stored in milliseconds so it can shift dates:
+ * lastLogin > now() - 30d
+ */
+export class DurationLiteral implements Expression {
+  /**
+   * Constructor
+   * @param token - The duration token (e.g., "30d")
+   * @param value - Duration in milliseconds
+   */
+  constructor(public token: Token, public value: number) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the duration as written (e.g., "30d") */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitDurationLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitDurationLiteral(this);
+  }
+}
+
+/**
+ * BOOLEAN LITERAL
+ * Represents a boolean constant in the expression
+ * 
+ * Examples: true, false
+ * 
+ * Used in flag comparisons: isVerified = true, isBanned != true
+ * Booleans only equal booleans - no coercion from 'true' or 1
+ */
+export class BooleanLiteral implements Expression {
+  /**
+   * Constructor
+   * @param token - The TRUE/FALSE token
+   * @param value - The boolean value
+   */
+  constructor(public token: Token, public value: boolean) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the boolean as string (e.g., "true") */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitBooleanLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitBooleanLiteral(this);
+  }
+}
+
+/**
+ * NULL LITERAL
+ * Represents the null constant in the expression
+ * 
+ * Example: manager = null, deletedAt != null
+ * 
+ * Matches fields that are present in the data with an explicit null value.
+ * Missing fields are still treated as missing (clause evaluates to false).
+ */
+export class NullLiteral implements Expression {
+  /** The value represented by this node (always null) */
+  readonly value = null;
+
+  /**
+   * Constructor
+   * @param token - The NULL token
+   */
+  constructor(public token: Token) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns "null" */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitNullLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitNullLiteral(this);
+  }
+}
+
+/**
+ * LIST LITERAL
+ * Represents a bracketed list of literal values
+ * Used as the right side of IN / NOT IN
+ * 
+ * Examples: ['US', 'CA', 'MX'], [1, 2, 3], []
+ * 
+ * Structure:
+ * - token: The opening bracket token
+ * - elements: Literal nodes in source order
+ * 
+ * Example: country IN ['US', 'CA']
+ * - elements: [StringLiteral("US"), StringLiteral("CA")]
+ */
+export class ListLiteral implements Expression {
+  /**
+   * Constructor
+   * @param token - The LEFT_BRACKET token
+   * @param elements - List element nodes
+   */
+  constructor(public token: Token, public elements: Expression[]) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns "[" */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitListLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitListLiteral(this);
+  }
+}
+
+/**
+ * REGEX LITERAL
+ * Represents the pattern on the right side of MATCHES
+ * 
+ * Example: phone MATCHES '^\+1[0-9]{10}$'
+ * 
+ * The parser turns the pattern's StringLiteral into this node and compiles
+ * the RegExp once, so invalid patterns are rejected when the rule is saved
+ * and evaluations reuse the compiled expression.
+ */
+export class RegexLiteral implements Expression {
+  /**
+   * Constructor
+   * @param token - The STRING token holding the pattern
+   * @param value - The pattern source WITHOUT quotes
+   * @param regex - Compiled regular expression (cached for evaluation)
+   */
+  constructor(public token: Token, public value: string, public regex: RegExp) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the pattern source */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitRegexLiteral */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitRegexLiteral(this);
+  }
+}
+
+/**
+ * CALL EXPRESSION
+ * Represents a call to a built-in function: lower(email), len(tags), round(x, 2)
+ * 
+ * Structure:
+ * - token: The function name token
+ * - name: Function name (looked up in the built-in function table)
+ * - args: Argument expressions (fields, literals, arithmetic or other calls)
+ * 
+ * Example: lower(email) ENDS_WITH '@acme.com'
+ * - left: CallExpression("lower", [Identifier("email")])
+ * 
+ * Calls are value expressions - they can appear wherever a field can.
+ */
+export class CallExpression implements Expression {
+  /**
+   * Constructor
+   * @param token - The function name token
+   * @param name - Function name
+   * @param args - Argument expressions in call order
+   */
+  constructor(public token: Token, public name: string, public args: Expression[]) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the function name */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitCallExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitCallExpression(this);
+  }
+}
+
+/**
+ * QUANTIFIER EXPRESSION
+ * Represents a condition checked against each element of an array field:
+ * ANY items (price > 100 AND qty >= 2), ALL items (category != 'restricted')
+ * 
+ * Structure:
+ * - token: Quantifier token (ANY or ALL)
+ * - collection: Identifier of the array field
+ * - predicate: Condition evaluated once per element
+ * 
+ * Identifiers inside the predicate are resolved against the current element,
+ * not the root data object:
+ * ANY items (price > 100) with data {items: [{price: 50}, {price: 150}]}
+ * → price is 50 for element 0 and 150 for element 1 → true
+ */
+export class QuantifierExpression implements Expression {
+  /**
+   * Constructor
+   * @param token - Quantifier token (ANY or ALL)
+   * @param collection - Array field the quantifier ranges over
+   * @param predicate - Condition checked for each element
+   */
+  constructor(
+    public token: Token,
+    public collection: Identifier,
+    public predicate: Expression
+  ) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the quantifier ("ANY" or "ALL") */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitQuantifierExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitQuantifierExpression(this);
+  }
+}
+
+/**
+ * AGGREGATE EXPRESSION
+ * Reduces an array field to a number: SUM(items.price), COUNT(items WHERE qty > 1)
+ * 
+ * Structure:
+ * - token: The aggregate name token (SUM, COUNT, MIN, MAX, AVG)
+ * - name: Aggregate name
+ * - field: Path to the array, optionally continuing into each element
+ *   (items.price = the price of every element of items)
+ * - filter: Optional condition (after WHERE) that elements must satisfy;
+ *   identifiers inside it refer to the current element
+ * 
+ * Example: SUM(items.price WHERE category = 'gift') > 500
+ * - left: AggregateExpression("SUM", Identifier("items.price"), BinaryExpression(...))
+ * 
+ * Aggregates are value expressions - they can appear wherever a field can.
+ */
+export class AggregateExpression implements Expression {
+  /**
+   * Constructor
+   * @param token - The aggregate name token
+   * @param name - Aggregate name (SUM, COUNT, MIN, MAX, AVG)
+   * @param field - Array field, optionally followed by a sub-field path
+   * @param filter - Optional element filter (null when there is no WHERE)
+   */
+  constructor(
+    public token: Token,
+    public name: string,
+    public field: Identifier,
+    public filter: Expression | null = null
+  ) {}
+
+  /** Marker method for expression nodes */
+  expressionNode(): void {}
+  
+  /** Returns the aggregate name */
+  tokenLiteral(): string {
+    return this.token.literal;
+  }
+
+  /** Dispatches to visitor.visitAggregateExpression */
+  accept<R>(visitor: ExpressionVisitor<R>): R {
+    return visitor.visitAggregateExpression(this);
+  }
 }
@@ -0,0 +1,147 @@
+/**
+ * DIAGNOSTICS
+ * 
+ * Structured problems found while parsing an expression. Unlike a single
+ * error message with a character offset, diagnostics carry everything an
+ * editor or API client needs to point at the problem in a multi-line rule:
+ * 
+ * {
+ *   severity: "error",
+ *   message: "Unexpected token 'ANDD' at position 10. Expected end of expression. Did you mean 'AND'?",
+ *   start: { line: 1, column: 11 },
+ *   end: { line: 1, column: 15 },
+ *   expected: ["AND", "OR", "=", ..., "end of expression"],
+ *   suggestions: ["AND"]
+ * }
+ */
+
+/**
+ * DIAGNOSTIC SEVERITY
+ * - error: the expression is rejected
+ * - warning: the expression is accepted but may not mean what was intended
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * SOURCE LOCATION
+ * A point in the expression text (both 1-based, like editors show them)
+ */
+export interface SourceLocation {
+  /** Line number, starting at 1 */
+  line: number;
+
+  /** Column number within the line, starting at 1 */
+  column: number;
+}
+
+/**
+ * DIAGNOSTIC
+ * One problem found in an expression
+ */
+export interface Diagnostic {
+  /** Whether the problem rejects the expression */
+  severity: DiagnosticSeverity;
+
+  /** Human-readable description (e.g., "Unknown function 'lowr' at position 0") */
+  message: string;
+
+  /** Where the offending text starts */
+  start: SourceLocation;
+
+  /** Where the offending text ends (exclusive) */
+  end: SourceLocation;
+
+  /** Tokens that would have been valid at this point (e.g., [")"]) */
+  expected?: string[];
+
+  /** "Did you mean" replacements for a misspelled word (e.g., ["AND"]) */
+  suggestions?: string[];
+}
+
+/**
+ * DIAGNOSTIC ERROR
+ * Error carrying every diagnostic found while parsing an expression
+ * 
+ * The message is the first error's message, so callers that only look at
+ * error.message keep working; callers that know about diagnostics can report
+ * all of them.
+ */
+export class DiagnosticError extends Error {
+  /**
+   * Constructor
+   * @param message - Summary message (usually the first error's message)
+   * @param diagnostics - All errors and warnings, in source order of discovery
+   */
+  constructor(message: string, public readonly diagnostics: Diagnostic[]) {
+    super(message);
+    this.name = 'DiagnosticError';
+  }
+}
+
+/**
+ * LOCATE
+ * Converts a character offset into a line/column location
+ * 
+ * Example: locate("a = 1\nAND b", 8) → { line: 2, column: 3 }
+ * 
+ * @param source - Full expression text
+ * @param offset - Character offset (0-based)
+ * @returns 1-based line and column
+ */
+export function locate(source: string, offset: number): SourceLocation {
+  const before = source.slice(0, Math.max(0, offset));
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: before.length - lineStart + 1,
+  };
+}
+
+/**
+ * SUGGEST
+ * Finds the candidates closest to a (probably misspelled) word
+ * 
+ * Uses case-insensitive edit distance; a candidate qualifies if it is within
+ * one edit per three characters of the word (at least one edit).
+ * 
+ * Examples:
+ * - suggest("ANDD", ["AND", "OR"]) → ["AND"]
+ * - suggest("lowr", ["lower", "len"]) → ["lower"]
+ * - suggest("xyz", ["AND", "OR"]) → []
+ * 
+ * @param word - Word as written
+ * @param candidates - Valid words
+ * @returns Closest candidates (best first), empty if none is close enough
+ */
+export function suggest(word: string, candidates: string[]): string[] {
+  const maxDistance = Math.max(1, Math.floor(word.length / 3));
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      distance: editDistance(word.toUpperCase(), candidate.toUpperCase()),
+    }))
+    .filter(({ distance }) => distance > 0 && distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * EDIT DISTANCE
+ * Levenshtein distance (insertions, deletions, substitutions)
+ * 
+ * @param a - First word
+ * @param b - Second word
+ * @returns Minimum number of single-character edits turning a into b
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,127 @@
+/**
+ * BUILT-IN FUNCTION SIGNATURES
+ * 
+ * Declares the functions that rule expressions may call, e.g.
+ * "lower(email) ENDS_WITH '@acme.com'" or "len(tags) > 3".
+ * 
+ * Only the contract lives here (name, arity, argument and return types) so
+ * that the parser can reject bad calls when a rule is created. The actual
+ * implementations live in the evaluator layer (evaluator/builtins.ts).
+ */
+
+/**
+ * VALUE TYPE
+ * Static type of a value as far as it is known before evaluation
+ * 
+ * 'any' is used where the type depends on the data (e.g., a field lookup)
+ */
+export type ValueType = 'number' | 'string' | 'boolean' | 'null' | 'array' | 'date' | 'any';
+
+/**
+ * FUNCTION SIGNATURE
+ * Describes how a built-in function may be called
+ * 
+ * Example: round(price, 2)
+ * {
+ *   name: "round",
+ *   minArgs: 1,
+ *   maxArgs: 2,
+ *   params: [["number"], ["number"]],
+ *   returns: "number"
+ * }
+ */
+export interface FunctionSignature {
+  /** Function name as written in expressions (e.g., "lower") */
+  name: string;
+
+  /** Minimum number of arguments */
+  minArgs: number;
+
+  /** Maximum number of arguments (Infinity for variadic functions) */
+  maxArgs: number;
+
+  /**
+   * Accepted types per argument position
+   * Variadic functions repeat the last entry for any extra arguments
+   */
+  params: ValueType[][];
+
+  /** Type of the value the function returns */
+  returns: ValueType;
+}
+
+/**
+ * FUNCTION SIGNATURES
+ * All built-in functions, keyed by lower-case name
+ * 
+ * - len(string | array) → number
+ * - lower(string) → string
+ * - upper(string) → string
+ * - trim(string) → string
+ * - abs(number) → number
+ * - round(number, digits?) → number
+ * - coalesce(value, ...values) → first value that is neither missing nor null
+ * - now() → current date-time (from the evaluator's clock)
+ */
+export const FUNCTION_SIGNATURES: Record<string, FunctionSignature> = {
+  len: { name: 'len', minArgs: 1, maxArgs: 1, params: [['string', 'array']], returns: 'number' },
+  lower: { name: 'lower', minArgs: 1, maxArgs: 1, params: [['string']], returns: 'string' },
+  upper: { name: 'upper', minArgs: 1, maxArgs: 1, params: [['string']], returns: 'string' },
+  trim: { name: 'trim', minArgs: 1, maxArgs: 1, params: [['string']], returns: 'string' },
+  abs: { name: 'abs', minArgs: 1, maxArgs: 1, params: [['number']], returns: 'number' },
+  round: {
+    name: 'round',
+    minArgs: 1,
+    maxArgs: 2,
+    params: [['number'], ['number']],
+    returns: 'number',
+  },
+  coalesce: {
+    name: 'coalesce',
+    minArgs: 1,
+    maxArgs: Infinity,
+    params: [['any']],
+    returns: 'any',
+  },
+  now: { name: 'now', minArgs: 0, maxArgs: 0, params: [], returns: 'date' },
+};
+
+/**
+ * AGGREGATE FUNCTIONS
+ * Functions that reduce an array field to a single number
+ * (written in upper case by convention; matched case-insensitively like keywords)
+ * 
+ * - SUM(items.price) → total of the values (0 for no values)
+ * - COUNT(items) → number of elements (0 for no elements)
+ * - MIN(items.price) / MAX(items.price) → smallest / largest value (missing for no values)
+ * - AVG(items.price) → mean of the values (missing for no values)
+ * 
+ * Each accepts an optional filter: COUNT(items WHERE category = 'gift')
+ */
+export const AGGREGATE_FUNCTIONS = ['SUM', 'COUNT', 'MIN', 'MAX', 'AVG'];
+
+/**
+ * IS AGGREGATE
+ * Checks whether a name refers to an aggregate function
+ * 
+ * @param name - Function name as written in the expression
+ * @returns true for SUM, COUNT, MIN, MAX and AVG (in any case)
+ */
+export function isAggregate(name: string): boolean {
+  return AGGREGATE_FUNCTIONS.includes(name.toUpperCase());
+}
+
+/**
+ * LOOKUP FUNCTION
+ * Finds a built-in function signature by name, case-insensitively like
+ * keywords and aggregates (LOWER(email) is lower(email))
+ * 
+ * @param name - Function name as written in the expression
+ * @returns Signature if the function exists, undefined otherwise
+ */
+export function lookupFunction(name: string): FunctionSignature | undefined {
+  const key = name.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(FUNCTION_SIGNATURES, key)
+    ? FUNCTION_SIGNATURES[key]
+    : undefined;
+}
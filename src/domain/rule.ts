@@ -8,6 +8,8 @@
  * Following Domain-Driven Design (DDD) principles.
  */
 
+import { Span } from './ast';
+
 /**
  * RULE ENTITY
  * Represents a rule in the system with its expression and metadata
@@ -39,6 +41,12 @@ export interface Rule {
   
   /** Timestamp when the rule was last modified (for audit trail) */
   updatedAt: Date;
+
+  /**
+   * Non-fatal issues found when parsing or optimizing the expression
+   * (e.g., numeric precision loss, redundant or contradictory clauses)
+   */
+  warnings?: string[];
 }
 
 /**
@@ -130,13 +138,48 @@ export interface EvaluationResult {
  * helpful for debugging why a rule didn't match.
  * 
  * Example:
- * {clause: "age >= 18", result: false}
+ * {clause: "age >= 18", result: false, leftValue: 16, rightValue: 18}
  * Tells us the user didn't meet the age requirement
+ * 
+ * For comparisons, both sides are reported as resolved against the data,
+ * which matters when comparing two fields:
+ * {clause: "spent > budget", result: true, leftValue: 1200, rightValue: 1000}
+ * A side that refers to a missing field is omitted.
+ * 
+ * BETWEEN reports both bounds as the right side:
+ * {clause: "age BETWEEN 18 AND 65", result: true, leftValue: 30, rightValue: [18, 65]}
+ * 
+ * ANY / ALL report the indexes of the array elements that matched:
+ * {clause: "ANY items (price > 100)", result: true, matches: [1, 2]}
+ * 
+ * Aggregates over empty arrays add a note explaining the value used:
+ * {clause: "AVG(items.price) > 50", result: false, notes: ["AVG(items.price) has no values, so it is missing"]}
+ * 
+ * AND / OR groups are reported too, after their operands:
+ * {clause: "age >= 18 AND country = 'US'", result: false, span: {start: 0, end: 28}}
+ * 
+ * span locates the clause in the rule's expression, for highlighting:
+ * expression "age >= 18 AND country = 'US'" → {clause: "country = 'US'", span: {start: 14, end: 28}, ...}
  */
 export interface ClauseDetails {
-  /** The clause expression (e.g., "age >= 18") */
+  /** The clause expression (e.g., "age >= 18", or "a = 1 OR b = 2" for a group) */
   clause: string;
   
   /** Whether this clause evaluated to true or false */
   result: boolean;
+
+  /** Character offsets of the clause in the rule's expression */
+  span?: Span;
+
+  /** Resolved value of the comparison's left side (omitted if missing) */
+  leftValue?: unknown;
+
+  /** Resolved value of the comparison's right side (omitted if missing) */
+  rightValue?: unknown;
+
+  /** Indexes of the array elements that matched (ANY / ALL clauses only) */
+  matches?: number[];
+
+  /** Explanations of special cases met while evaluating the clause (e.g., empty aggregates) */
+  notes?: string[];
 }
@@ -0,0 +1,167 @@
+/**
+ * DATA SCHEMA
+ * 
+ * Describes the data that rules are evaluated against, so rules can be
+ * type-checked when they are created (see parser/type-checker.ts). Without
+ * one, a misspelled field such as "agee > 18" resolves to missing and the
+ * rule silently evaluates to false.
+ * 
+ * The format is a JSON-Schema-like subset:
+ * {
+ *   "type": "object",
+ *   "properties": {
+ *     "age": { "type": "number" },
+ *     "tier": { "type": "string", "enum": ["free", "pro"] },
+ *     "signupDate": { "type": "date" },
+ *     "address": { "type": "object", "properties": { "country": { "type": "string" } } },
+ *     "items": {
+ *       "type": "array",
+ *       "items": { "type": "object", "properties": { "price": { "type": "number" } } }
+ *     }
+ *   }
+ * }
+ * 
+ * An object without "properties" or an array without "items" is open:
+ * anything below it is accepted without checking.
+ */
+
+/**
+ * SCHEMA TYPE
+ * Type of a field's value in the data
+ * 
+ * "date" fields hold ISO-8601 strings ("2024-01-01", "2024-01-01T09:30:00Z")
+ */
+export type SchemaType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+
+/**
+ * SCHEMA TYPES
+ * All valid values of "type"
+ */
+export const SCHEMA_TYPES: SchemaType[] = ['string', 'number', 'boolean', 'date', 'array', 'object'];
+
+/**
+ * ENUM VALUE
+ * A value an enum field may be restricted to
+ */
+export type EnumValue = string | number | boolean;
+
+/**
+ * FIELD SCHEMA
+ * Describes one field (or array element) of the data
+ * 
+ * Example: { "type": "string", "enum": ["free", "pro"] }
+ */
+export interface FieldSchema {
+  /** Type of the field's value */
+  type: SchemaType;
+
+  /** Allowed values (string, number, date and boolean fields only) */
+  enum?: EnumValue[];
+
+  /** Fields of an object, keyed by name (object fields only) */
+  properties?: Record<string, FieldSchema>;
+
+  /** Schema of each element (array fields only) */
+  items?: FieldSchema;
+
+  /** Free-text documentation (not used for checking) */
+  description?: string;
+}
+
+/**
+ * DATA SCHEMA
+ * Schema of the whole data object passed to evaluation
+ */
+export interface DataSchema extends FieldSchema {
+  type: 'object';
+}
+
+/**
+ * PARSE SCHEMA
+ * Validates a schema document (e.g., from a request body)
+ * 
+ * Keys outside the supported subset (such as "$schema" or "required") are
+ * dropped, so the result only holds what the type checker uses.
+ * 
+ * Example:
+ * parseSchema({ type: "object", properties: { age: { type: "integer" } } })
+ * → Error: Invalid schema at $.properties.age.type: expected one of string, number, ...
+ * 
+ * @param json - Schema document
+ * @returns The validated schema
+ * @throws Error naming the location of the first invalid part (e.g., "$.properties.age")
+ */
+export function parseSchema(json: unknown): DataSchema {
+  const schema = parseField(json, '$');
+  if (schema.type !== 'object') {
+    throw new Error('Invalid schema at $.type: the data schema must be an object');
+  }
+  return schema as DataSchema;
+}
+
+/**
+ * PARSE FIELD
+ * Recursive worker for parseSchema()
+ * 
+ * @param json - Field schema document
+ * @param at - Location of json within the document (e.g., "$.properties.age")
+ * @returns The validated field schema
+ * @throws Error naming the location of the first invalid part
+ */
+function parseField(json: unknown, at: string): FieldSchema {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error(`Invalid schema at ${at}: expected an object`);
+  }
+  const node = json as Record<string, unknown>;
+
+  const type = SCHEMA_TYPES.find((candidate) => candidate === node.type);
+  if (type === undefined) {
+    throw new Error(`Invalid schema at ${at}.type: expected one of ${SCHEMA_TYPES.join(', ')}`);
+  }
+  const field: FieldSchema = { type };
+
+  if (typeof node.description === 'string') {
+    field.description = node.description;
+  }
+
+  if (node.enum !== undefined) {
+    if (type === 'array' || type === 'object') {
+      throw new Error(`Invalid schema at ${at}.enum: ${type} fields cannot have an enum`);
+    }
+    if (!Array.isArray(node.enum) || node.enum.length === 0) {
+      throw new Error(`Invalid schema at ${at}.enum: expected a non-empty array`);
+    }
+    const valueType = type === 'date' ? 'string' : type;
+    node.enum.forEach((value, index) => {
+      if (typeof value !== valueType) {
+        throw new Error(`Invalid schema at ${at}.enum[${index}]: expected a ${valueType}`);
+      }
+    });
+    field.enum = [...node.enum];
+  }
+
+  if (node.properties !== undefined) {
+    if (type !== 'object') {
+      throw new Error(`Invalid schema at ${at}.properties: only object fields have properties`);
+    }
+    if (typeof node.properties !== 'object' || node.properties === null || Array.isArray(node.properties)) {
+      throw new Error(`Invalid schema at ${at}.properties: expected an object`);
+    }
+    // fromEntries keeps keys like "__proto__" as plain own properties
+    field.properties = Object.fromEntries(
+      Object.entries(node.properties).map(([name, property]) => [
+        name,
+        parseField(property, `${at}.properties.${name}`),
+      ])
+    );
+  }
+
+  if (node.items !== undefined) {
+    if (type !== 'array') {
+      throw new Error(`Invalid schema at ${at}.items: only array fields have items`);
+    }
+    field.items = parseField(node.items, `${at}.items`);
+  }
+
+  return field;
+}
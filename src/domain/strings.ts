@@ -0,0 +1,105 @@
+/**
+ * STRING LITERAL AND QUOTED IDENTIFIER CONVENTIONS
+ * 
+ * Shared by the lexer (to decode string literals), the evaluator and the
+ * printer (to quote strings and field names again when rendering expressions).
+ * 
+ * Strings are enclosed in single or double quotes: 'US', "O'Brien"
+ * 
+ * Escape sequences:
+ * - \'  → '          - \"  → "
+ * - \\  → \          - \n  → newline
+ * - \t  → tab        - \r  → carriage return
+ * - \uXXXX → Unicode character with hex code XXXX (e.g., \u00e9 → é)
+ * 
+ * Any other backslash sequence is kept as written, so regular expression and
+ * LIKE patterns such as '^\+1[0-9]{10}$' or '100\%' keep working unchanged.
+ * 
+ * Field names that are not plain words (or are reserved words) are written as
+ * quoted identifiers in backticks: `order-id`, `Customer Name`, `OR`
+ */
+
+import { PathSegment } from './ast';
+import { KEYWORDS } from './token';
+
+/**
+ * ESCAPES
+ * Character after the backslash → decoded character (\uXXXX is handled separately)
+ */
+export const ESCAPES: Record<string, string> = {
+  "'": "'",
+  '"': '"',
+  '\\': '\\',
+  n: '\n',
+  t: '\t',
+  r: '\r',
+};
+
+/**
+ * QUOTE STRING
+ * Renders a string value as a single-quoted literal that lexes back to the same value
+ * 
+ * Backslashes are only doubled where they would otherwise start an escape
+ * sequence, so patterns stay readable.
+ * 
+ * Examples:
+ * - quoteString("US") → 'US'
+ * - quoteString("O'Brien") → 'O\'Brien'
+ * - quoteString("^\+1[0-9]{10}$") → '^\+1[0-9]{10}$'
+ * 
+ * @param value - Decoded string value
+ * @returns Quoted, escaped literal
+ */
+export function quoteString(value: string): string {
+  const escaped = value
+    .replace(/\\(?=[\\'"ntru\n\t\r]|$)/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+  return `'${escaped}'`;
+}
+
+/**
+ * QUOTE IDENTIFIER
+ * Renders one field path segment, adding backticks only when needed
+ * 
+ * Examples:
+ * - quoteIdentifier("age") → age
+ * - quoteIdentifier("order-id") → `order-id`
+ * - quoteIdentifier("OR") → `OR` (reserved word)
+ * - quoteIdentifier("or") → `or` (keywords are case-insensitive)
+ * 
+ * @param name - Raw object key
+ * @returns Bare name, or backtick-quoted name with \ and ` escaped
+ */
+export function quoteIdentifier(name: string): string {
+  const keyword = Object.prototype.hasOwnProperty.call(KEYWORDS, name.toUpperCase());
+  if (/^[A-Za-z][A-Za-z0-9_]*$/.test(name) && !keyword) {
+    return name;
+  }
+  return `\`${name.replace(/[\\`]/g, '\\$&')}\``;
+}
+
+/**
+ * QUOTE PATH
+ * Renders field path segments the way they would be written in an expression
+ * 
+ * Examples:
+ * - ["user", "address", "country"] → user.address.country
+ * - ["orders", 0, "total"] → orders[0].total
+ * - ["order-id"] → `order-id`
+ * - ["customer", "Customer Name"] → customer.`Customer Name`
+ * 
+ * @param path - Identifier path segments
+ * @returns Path text with keys quoted where needed
+ */
+export function quotePath(path: PathSegment[]): string {
+  return path
+    .map((segment, index) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      const name = quoteIdentifier(segment);
+      return index === 0 ? name : `.${name}`;
+    })
+    .join('');
+}
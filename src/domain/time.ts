@@ -0,0 +1,82 @@
+/**
+ * DATE AND DURATION CONVENTIONS
+ * 
+ * Shared by the lexer/parser (to recognise date and duration literals) and
+ * the evaluator (to compare and shift dates).
+ * 
+ * Dates are written as ISO-8601 strings:
+ * - '2024-01-01'                  (date only, midnight UTC)
+ * - '2024-01-01T09:30:00Z'        (date and time, UTC)
+ * - '2024-01-01T09:30:00+05:30'   (date and time with offset)
+ * Times without an offset are interpreted as UTC so results never depend on
+ * the server's time zone.
+ * 
+ * Durations are a number followed by a unit: 500ms, 45s, 15m, 12h, 30d, 2w
+ * and evaluate to a number of milliseconds.
+ */
+
+/**
+ * ISO DATE PATTERN
+ * Matches ISO-8601 dates with optional time and offset
+ * Capture groups: 1=year, 2=month, 3=day, 4=hour, 5=minute, 6=second, 7=offset
+ */
+export const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * DURATION UNITS
+ * Milliseconds per duration unit
+ */
+export const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * PARSE ISO DATE
+ * Converts an ISO-8601 string into a Date, rejecting impossible calendar dates
+ * 
+ * Examples:
+ * - parseIsoDate('2024-01-01') → Date(2024-01-01T00:00:00.000Z)
+ * - parseIsoDate('2024-01-01T09:30') → Date(2024-01-01T09:30:00.000Z)
+ * - parseIsoDate('2024-02-30') → null (no such day)
+ * - parseIsoDate('yesterday') → null (not ISO-8601)
+ * 
+ * @param text - Candidate date string
+ * @returns Date if text is a valid ISO-8601 date, null otherwise
+ */
+export function parseIsoDate(text: string): Date | null {
+  const match = ISO_DATE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', offset] = match;
+  if (Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) {
+    return null;
+  }
+
+  // Check the calendar date itself (Date would roll 2024-02-30 over to March)
+  const calendar = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (
+    calendar.getUTCFullYear() !== Number(year) ||
+    calendar.getUTCMonth() !== Number(month) - 1 ||
+    calendar.getUTCDate() !== Number(day)
+  ) {
+    return null;
+  }
+
+  // Interpret missing offsets as UTC and normalize +0530 to +05:30
+  let normalized = text;
+  if (match[4] !== undefined && offset === undefined) {
+    normalized = `${text}Z`;
+  } else if (offset !== undefined && /^[+-]\d{4}$/.test(offset)) {
+    normalized = `${text.slice(0, -offset.length)}${offset.slice(0, 3)}:${offset.slice(3)}`;
+  }
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -14,9 +14,13 @@
  * 
  * Categories:
  * 1. Special: EOF (end of file), ILLEGAL (invalid character)
- * 2. Literals: Numbers (18, 99.99), Strings ('US'), Identifiers (age, country)
- * 3. Operators: Comparison (=, !=, >, <, >=, <=) and Logical (AND, OR)
- * 4. Delimiters: Parentheses for grouping expressions
+ * 2. Literals: Numbers (18, 99.99), Strings ('US'), Durations (30d), Booleans (true, false),
+ *    null, Identifiers (age, country)
+ * 3. Operators: Comparison (=, !=, >, <, >=, <=, IN, NOT IN, BETWEEN), string matching
+ *    (CONTAINS, STARTS_WITH, ENDS_WITH, LIKE and I-prefixed case-insensitive variants, MATCHES)
+ *    Arithmetic (+, -, *, /, %), Logical (AND, OR, NOT), Quantifiers (ANY, ALL)
+ *    and aggregate filters (WHERE)
+ * 4. Delimiters: Parentheses for grouping expressions, brackets and commas for lists
  */
 export enum TokenType {
   // ===== SPECIAL TOKENS =====
@@ -35,9 +39,21 @@ export enum TokenType {
   /** Numeric value (e.g., 18, 99.99, 0.5) */
   NUMBER = 'NUMBER',
   
-  /** String value enclosed in quotes (e.g., 'US', 'active') */
+  /** String value enclosed in single or double quotes, escapes decoded (e.g., 'US', "O'Brien", '2024-01-01') */
   STRING = 'STRING',
 
+  /** Number with a time unit (e.g., 30d, 12h, 15m, 45s, 500ms, 2w) */
+  DURATION = 'DURATION',
+
+  /** Boolean literal true (e.g., isVerified = true) */
+  TRUE = 'TRUE',
+
+  /** Boolean literal false (e.g., isBanned = false) */
+  FALSE = 'FALSE',
+
+  /** Null literal (e.g., manager = null) */
+  NULL = 'NULL',
+
   // ===== COMPARISON OPERATORS =====
   
   /** Equality operator: age = 18 */
@@ -58,6 +74,61 @@ export enum TokenType {
   /** Less than or equal operator: score <= 100 */
   LESS_EQUAL = '<=',
 
+  /** List membership operator: country IN ['US', 'CA'] */
+  IN = 'IN',
+
+  /** Negated list membership: country NOT IN ['US', 'CA'] (built by the parser from NOT + IN) */
+  NOT_IN = 'NOT IN',
+
+  /** Inclusive range check: age BETWEEN 18 AND 65 (also NOT BETWEEN) */
+  BETWEEN = 'BETWEEN',
+
+  // ===== STRING MATCHING OPERATORS =====
+
+  /** Substring (or array element) check: name CONTAINS 'smith' */
+  CONTAINS = 'CONTAINS',
+
+  /** Case-insensitive CONTAINS: name ICONTAINS 'SMITH' */
+  ICONTAINS = 'ICONTAINS',
+
+  /** Prefix check: sku STARTS_WITH 'AB-' */
+  STARTS_WITH = 'STARTS_WITH',
+
+  /** Case-insensitive STARTS_WITH */
+  ISTARTS_WITH = 'ISTARTS_WITH',
+
+  /** Suffix check: email ENDS_WITH '@acme.com' */
+  ENDS_WITH = 'ENDS_WITH',
+
+  /** Case-insensitive ENDS_WITH */
+  IENDS_WITH = 'IENDS_WITH',
+
+  /** SQL-style pattern match (% = any run, _ = one char): sku LIKE 'AB-%' */
+  LIKE = 'LIKE',
+
+  /** Case-insensitive LIKE */
+  ILIKE = 'ILIKE',
+
+  /** Regular expression match: phone MATCHES '^\+1[0-9]{10}$' */
+  MATCHES = 'MATCHES',
+
+  // ===== ARITHMETIC OPERATORS =====
+
+  /** Addition: price + shipping */
+  PLUS = '+',
+
+  /** Subtraction: income - expenses */
+  MINUS = '-',
+
+  /** Multiplication: price * quantity */
+  ASTERISK = '*',
+
+  /** Division: spent / budget */
+  SLASH = '/',
+
+  /** Remainder: orderNumber % 2 */
+  PERCENT = '%',
+
   // ===== LOGICAL OPERATORS =====
   
   /** Logical AND: both conditions must be true */
@@ -66,6 +137,20 @@ export enum TokenType {
   /** Logical OR: at least one condition must be true */
   OR = 'OR',
 
+  /** Logical NOT: negates the expression that follows (NOT status = 'banned') */
+  NOT = 'NOT',
+
+  // ===== QUANTIFIERS =====
+
+  /** At least one array element matches: ANY items (price > 100) */
+  ANY = 'ANY',
+
+  /** Every array element matches: ALL items (category != 'restricted') */
+  ALL = 'ALL',
+
+  /** Filter inside an aggregate: COUNT(items WHERE category = 'gift') */
+  WHERE = 'WHERE',
+
   // ===== DELIMITERS =====
   
   /** Opening parenthesis for grouping: (age > 18 AND ...) */
@@ -73,6 +158,15 @@ export enum TokenType {
   
   /** Closing parenthesis */
   RIGHT_PAREN = ')',
+
+  /** Opening bracket for list literals: ['US', 'CA'] */
+  LEFT_BRACKET = '[',
+
+  /** Closing bracket for list literals */
+  RIGHT_BRACKET = ']',
+
+  /** Separator between list elements */
+  COMMA = ',',
 }
 
 /**
@@ -99,4 +193,40 @@ export interface Token {
   
   /** Character position in original input (for error reporting) */
   position: number;
+
+  /** Character position just past the token (set by the lexer, for diagnostics) */
+  end?: number;
+
+  /** Why an ILLEGAL token is invalid (e.g., "Unterminated string"); unset otherwise */
+  message?: string;
 }
+
+/**
+ * KEYWORDS
+ * Reserved words and the token types they lex to
+ * 
+ * Keys are upper case; keywords match case-insensitively (and, And, AND).
+ * A field whose name is a keyword must be written as a quoted identifier: `or`
+ */
+export const KEYWORDS: Record<string, TokenType> = {
+  AND: TokenType.AND,
+  OR: TokenType.OR,
+  NOT: TokenType.NOT,
+  IN: TokenType.IN,
+  BETWEEN: TokenType.BETWEEN,
+  CONTAINS: TokenType.CONTAINS,
+  ICONTAINS: TokenType.ICONTAINS,
+  STARTS_WITH: TokenType.STARTS_WITH,
+  ISTARTS_WITH: TokenType.ISTARTS_WITH,
+  ENDS_WITH: TokenType.ENDS_WITH,
+  IENDS_WITH: TokenType.IENDS_WITH,
+  LIKE: TokenType.LIKE,
+  ILIKE: TokenType.ILIKE,
+  MATCHES: TokenType.MATCHES,
+  ANY: TokenType.ANY,
+  ALL: TokenType.ALL,
+  WHERE: TokenType.WHERE,
+  TRUE: TokenType.TRUE,
+  FALSE: TokenType.FALSE,
+  NULL: TokenType.NULL,
+};
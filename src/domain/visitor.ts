@@ -0,0 +1,220 @@
+/**
+ * AST VISITOR AND TRANSFORMER
+ * 
+ * Tools that walk the AST (evaluator, printer, serializer, ...) implement
+ * ExpressionVisitor instead of testing node types with instanceof chains.
+ * Every node's accept() calls the visitor method for its own type:
+ * 
+ *   node.accept(visitor)
+ *   BinaryExpression  → visitor.visitBinaryExpression(node)
+ *   Identifier        → visitor.visitIdentifier(node)
+ *   ...
+ * 
+ * The visitor interface has one required method per node type, so adding a
+ * node class to domain/ast.ts is a compile error in every visitor until it
+ * handles the new type.
+ * 
+ * ExpressionTransformer builds on this to rewrite trees: override the
+ * methods for the nodes to change, and everything else is rebuilt around them.
+ */
+
+import {
+  Expression,
+  BinaryExpression,
+  ArithmeticExpression,
+  BetweenExpression,
+  LogicalExpression,
+  UnaryExpression,
+  Identifier,
+  NumberLiteral,
+  StringLiteral,
+  DateLiteral,
+  DurationLiteral,
+  BooleanLiteral,
+  NullLiteral,
+  ListLiteral,
+  RegexLiteral,
+  CallExpression,
+  QuantifierExpression,
+  AggregateExpression,
+} from './ast';
+
+/**
+ * EXPRESSION VISITOR
+ * One method per AST node type, each returning R
+ * 
+ * Example - counting field references:
+ * const fields: ExpressionVisitor<number> = {
+ *   visitIdentifier: () => 1,
+ *   visitBinaryExpression: (node) => node.left.accept(fields) + node.right.accept(fields),
+ *   ...
+ * };
+ */
+export interface ExpressionVisitor<R> {
+  visitBinaryExpression(node: BinaryExpression): R;
+  visitArithmeticExpression(node: ArithmeticExpression): R;
+  visitBetweenExpression(node: BetweenExpression): R;
+  visitLogicalExpression(node: LogicalExpression): R;
+  visitUnaryExpression(node: UnaryExpression): R;
+  visitIdentifier(node: Identifier): R;
+  visitNumberLiteral(node: NumberLiteral): R;
+  visitStringLiteral(node: StringLiteral): R;
+  visitDateLiteral(node: DateLiteral): R;
+  visitDurationLiteral(node: DurationLiteral): R;
+  visitBooleanLiteral(node: BooleanLiteral): R;
+  visitNullLiteral(node: NullLiteral): R;
+  visitListLiteral(node: ListLiteral): R;
+  visitRegexLiteral(node: RegexLiteral): R;
+  visitCallExpression(node: CallExpression): R;
+  visitQuantifierExpression(node: QuantifierExpression): R;
+  visitAggregateExpression(node: AggregateExpression): R;
+}
+
+/**
+ * EXPRESSION TRANSFORMER
+ * Rewrites an AST bottom-up, rebuilding only what changed
+ * 
+ * Each default method transforms the node's children and returns:
+ * - the same node if no child changed (unchanged subtrees are shared)
+ * - a new node of the same type around the new children otherwise
+ *   (keeping the original operator token and span)
+ * Leaves (fields and literals) are returned as they are.
+ * 
+ * Quantifier collections and aggregate fields are array references rather
+ * than values, so they are left alone; their conditions are transformed.
+ * 
+ * Example - renaming a field:
+ * class Rename extends ExpressionTransformer {
+ *   visitIdentifier(node: Identifier): Expression {
+ *     return node.value === 'age' ? new Identifier(node.token, 'years', ['years']) : node;
+ *   }
+ * }
+ * new Rename().transform(parseExpression("age > 18")) → years > 18
+ */
+export class ExpressionTransformer implements ExpressionVisitor<Expression> {
+  /**
+   * TRANSFORM
+   * Entry point - rewrites a whole tree
+   *
+   * @param expr - Root node
+   * @returns Rewritten root (the same node if nothing changed)
+   */
+  transform(expr: Expression): Expression {
+    return expr.accept(this);
+  }
+
+  visitBinaryExpression(node: BinaryExpression): Expression {
+    const left = this.transform(node.left);
+    const right = this.transform(node.right);
+    return left === node.left && right === node.right
+      ? node
+      : this.rebuilt(node, new BinaryExpression(left, node.operator, right));
+  }
+
+  visitArithmeticExpression(node: ArithmeticExpression): Expression {
+    const left = this.transform(node.left);
+    const right = this.transform(node.right);
+    return left === node.left && right === node.right
+      ? node
+      : this.rebuilt(node, new ArithmeticExpression(left, node.operator, right));
+  }
+
+  visitBetweenExpression(node: BetweenExpression): Expression {
+    const value = this.transform(node.value);
+    const low = this.transform(node.low);
+    const high = this.transform(node.high);
+    return value === node.value && low === node.low && high === node.high
+      ? node
+      : this.rebuilt(node, new BetweenExpression(node.token, value, low, high, node.negated));
+  }
+
+  visitLogicalExpression(node: LogicalExpression): Expression {
+    const left = this.transform(node.left);
+    const right = this.transform(node.right);
+    return left === node.left && right === node.right
+      ? node
+      : this.rebuilt(node, new LogicalExpression(left, node.operator, right));
+  }
+
+  visitUnaryExpression(node: UnaryExpression): Expression {
+    const operand = this.transform(node.operand);
+    return operand === node.operand
+      ? node
+      : this.rebuilt(node, new UnaryExpression(node.operator, operand));
+  }
+
+  visitIdentifier(node: Identifier): Expression {
+    return node;
+  }
+
+  visitNumberLiteral(node: NumberLiteral): Expression {
+    return node;
+  }
+
+  visitStringLiteral(node: StringLiteral): Expression {
+    return node;
+  }
+
+  visitDateLiteral(node: DateLiteral): Expression {
+    return node;
+  }
+
+  visitDurationLiteral(node: DurationLiteral): Expression {
+    return node;
+  }
+
+  visitBooleanLiteral(node: BooleanLiteral): Expression {
+    return node;
+  }
+
+  visitNullLiteral(node: NullLiteral): Expression {
+    return node;
+  }
+
+  visitListLiteral(node: ListLiteral): Expression {
+    const elements = node.elements.map((element) => this.transform(element));
+    return elements.every((element, index) => element === node.elements[index])
+      ? node
+      : this.rebuilt(node, new ListLiteral(node.token, elements));
+  }
+
+  visitRegexLiteral(node: RegexLiteral): Expression {
+    return node;
+  }
+
+  visitCallExpression(node: CallExpression): Expression {
+    const args = node.args.map((arg) => this.transform(arg));
+    return args.every((arg, index) => arg === node.args[index])
+      ? node
+      : this.rebuilt(node, new CallExpression(node.token, node.name, args));
+  }
+
+  visitQuantifierExpression(node: QuantifierExpression): Expression {
+    const predicate = this.transform(node.predicate);
+    return predicate === node.predicate
+      ? node
+      : this.rebuilt(node, new QuantifierExpression(node.token, node.collection, predicate));
+  }
+
+  visitAggregateExpression(node: AggregateExpression): Expression {
+    const filter = node.filter ? this.transform(node.filter) : null;
+    return filter === node.filter
+      ? node
+      : this.rebuilt(node, new AggregateExpression(node.token, node.name, node.field, filter));
+  }
+
+  /**
+   * REBUILT
+   * Carries the original node's span over to its replacement
+   *
+   * @param original - Node being replaced
+   * @param replacement - Rebuilt node
+   * @returns The replacement
+   */
+  protected rebuilt(original: Expression, replacement: Expression): Expression {
+    if (original.span) {
+      replacement.span = { ...original.span };
+    }
+    return replacement;
+  }
+}
@@ -0,0 +1,706 @@
+import { parseExpression } from '../../parser/parser';
+import { printExpression } from '../../parser/printer';
+import { deserializeExpression } from '../../parser/serializer';
+import { Evaluator } from '../evaluator';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+function evaluate(source: string, data: Record<string, unknown>): boolean {
+  return new Evaluator(data, () => NOW).evaluate(parseExpression(source)).result;
+}
+
+function clauses(source: string, data: Record<string, unknown>): [string, boolean][] {
+  return new Evaluator(data, () => NOW)
+    .evaluate(parseExpression(source))
+    .details.map((detail) => [detail.clause, detail.result]);
+}
+
+const USER = { age: 25, score: 85.5, status: 'active' };
+
+describe('Evaluator', () => {
+  describe('comparisons', () => {
+    it.each([
+      ['age > 18', true],
+      ['age >= 25 AND age <= 25', true],
+      ['age = 25.0', true],
+      ['age != 25', false],
+      ["status = 'active'", true],
+      ["status = 'ACTIVE'", false],
+      ['score < 85', false],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, USER)).toBe(expected);
+    });
+
+    it('treats a missing field as false', () => {
+      expect(evaluate('age > 18', {})).toBe(false);
+      expect(evaluate('age <= 18', {})).toBe(false);
+    });
+  });
+
+  describe('NOT', () => {
+    it.each([
+      ["NOT status = 'banned'", true],
+      ["NOT (status = 'banned' OR age < 18)", true],
+      ["NOT (status = 'active' AND age > 18)", false],
+      ["NOT age > 18 AND status = 'active'", false],
+      ['NOT NOT age > 18', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, USER)).toBe(expected);
+    });
+
+    it('makes NOT of a missing comparison true', () => {
+      expect(evaluate('NOT age > 18', {})).toBe(true);
+    });
+
+    it('negates a boolean field through a comparison', () => {
+      expect(evaluate('NOT isVerified = true', { isVerified: false })).toBe(true);
+      expect(() => evaluate('NOT isVerified', { isVerified: false })).toThrow(
+        'NOT requires a condition, not a value, at position 0'
+      );
+    });
+
+    it('fails on a value operand that bypassed the parser', () => {
+      const ast = deserializeExpression({
+        type: 'Unary',
+        operator: 'NOT',
+        operand: { type: 'Identifier', name: 'isVerified', path: ['isVerified'] },
+      });
+      expect(() => new Evaluator({ isVerified: false }).evaluate(ast)).toThrow('Unexpected expression type: Identifier');
+    });
+
+    it('reports the negated clause after its operands', () => {
+      expect(clauses("NOT (status = 'banned' OR age < 18)", USER)).toEqual([
+        ["status = 'banned'", false],
+        ['age < 18', false],
+        ["status = 'banned' OR age < 18", false],
+        ["NOT (status = 'banned' OR age < 18)", true],
+      ]);
+    });
+  });
+
+  describe('booleans and null', () => {
+    const ACCOUNT = { isVerified: true, isAdmin: false, manager: null, count: 1 };
+
+    it.each([
+      ['isVerified = true', true],
+      ['isVerified = FALSE', false],
+      ['isAdmin != true', true],
+      ['manager = null', true],
+      ['manager != NULL', false],
+      ['count = true', false],
+      ['isAdmin = null', false],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, ACCOUNT)).toBe(expected);
+    });
+
+    it('treats a missing field as false, not as null', () => {
+      expect(evaluate('manager = null', {})).toBe(false);
+    });
+
+    it('rejects ordering comparisons', () => {
+      expect(() => evaluate('isVerified > false', ACCOUNT)).toThrow(
+        'Cannot compare boolean or null values with > operator'
+      );
+      expect(() => evaluate('count < null', ACCOUNT)).toThrow(
+        'Cannot compare boolean or null values with < operator'
+      );
+    });
+
+    it('shows the literals in clause details', () => {
+      expect(clauses('isVerified = true AND manager = null', ACCOUNT)).toEqual([
+        ['isVerified = true', true],
+        ['manager = null', true],
+        ['isVerified = true AND manager = null', true],
+      ]);
+    });
+  });
+
+  describe('IN / NOT IN', () => {
+    it.each([
+      ["status IN ['active', 'pending']", true],
+      ["status IN ['banned']", false],
+      ["status NOT IN ['active', 'pending']", false],
+      ['age IN [18, 25.0]', true],
+      ['age IN []', false],
+      ['age NOT IN []', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, USER)).toBe(expected);
+    });
+
+    it('matches null and booleans without coercion', () => {
+      expect(evaluate('manager IN [null]', { manager: null })).toBe(true);
+      expect(evaluate('flag IN [1, 0]', { flag: true })).toBe(false);
+    });
+
+    it('is false for a missing field, with or without NOT', () => {
+      expect(evaluate("country IN ['US']", {})).toBe(false);
+      expect(evaluate("country NOT IN ['US']", {})).toBe(false);
+    });
+
+    it('shows the list in clause details', () => {
+      expect(clauses("status IN ['active', 'pending']", USER)).toEqual([["status IN ['active', 'pending']", true]]);
+    });
+  });
+
+  describe('nested paths', () => {
+    const ORDER = {
+      user: { address: { country: 'US' } },
+      orders: [{ total: 99.5 }, { total: 5 }],
+      matrix: [[1, 2], [3, 4]],
+    };
+
+    it.each([
+      ["user.address.country = 'US'", true],
+      ['orders[0].total = 99.5', true],
+      ['orders[1].total > 10', false],
+      ['matrix[1][0] = 3', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, ORDER)).toBe(expected);
+    });
+
+    it.each([
+      "user.phone.number = '1'",
+      'orders[5].total = 1',
+      'user[0] = 1',
+      'orders.total = 1',
+      'user.address.country.length = 2',
+      'user.constructor = 1',
+    ])('treats %s as a missing field', (source) => {
+      expect(evaluate(source, ORDER)).toBe(false);
+      expect(evaluate(`NOT ${source}`, ORDER)).toBe(true);
+    });
+
+    it('shows the path as written in clause details', () => {
+      expect(clauses('orders[0].total > 50', ORDER)).toEqual([['orders[0].total > 50', true]]);
+    });
+  });
+
+  describe('string operators', () => {
+    const CUSTOMER = { name: 'Ann Smith', email: 'Ann@Acme.com', sku: 'AB-12', tags: ['vip', 'Beta', 3] };
+
+    it.each([
+      ["name CONTAINS 'Smith'", true],
+      ["name CONTAINS 'smith'", false],
+      ["name ICONTAINS 'SMITH'", true],
+      ["tags CONTAINS 'vip'", true],
+      ["tags CONTAINS 'beta'", false],
+      ["tags ICONTAINS 'beta'", true],
+      ['tags CONTAINS 3', true],
+      ["sku STARTS_WITH 'AB-'", true],
+      ["sku ISTARTS_WITH 'ab-'", true],
+      ["email ENDS_WITH '@acme.com'", false],
+      ["email IENDS_WITH '@acme.com'", true],
+      ["sku LIKE 'AB-%'", true],
+      ["sku LIKE 'AB-_'", false],
+      ["sku LIKE 'AB-__'", true],
+      ["sku LIKE '%-1%'", true],
+      ["sku ILIKE 'ab%'", true],
+      ["sku LIKE 'A.-%'", false],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, CUSTOMER)).toBe(expected);
+    });
+
+    it('rejects non-string operands', () => {
+      expect(() => evaluate("age STARTS_WITH '2'", USER)).toThrow(
+        'Cannot apply STARTS_WITH operator to non-string values'
+      );
+      expect(() => evaluate('name CONTAINS 1', { name: 'a1' })).toThrow(
+        'Cannot apply CONTAINS operator to non-string values'
+      );
+    });
+
+    it('treats a missing field as false', () => {
+      expect(evaluate("name LIKE '%'", {})).toBe(false);
+    });
+  });
+
+  describe('MATCHES', () => {
+    it.each([
+      ["phone MATCHES '^[+]1[0-9]{10}$'", true],
+      ["phone MATCHES '^[0-9]+$'", false],
+      ["phone MATCHES '555'", true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, { phone: '+15551234567' })).toBe(expected);
+    });
+
+    it('rejects non-string and oversized values', () => {
+      expect(() => evaluate("phone MATCHES '1'", { phone: 1 })).toThrow(
+        'Cannot apply MATCHES operator to non-string values'
+      );
+      expect(() => evaluate("text MATCHES 'a'", { text: 'a'.repeat(10001) })).toThrow(
+        'Cannot apply MATCHES operator to strings longer than 10000 characters'
+      );
+    });
+
+    it('shows the pattern in clause details', () => {
+      expect(clauses("code MATCHES '^A'", { code: 'AB' })).toEqual([["code MATCHES '^A'", true]]);
+    });
+  });
+
+  describe('arithmetic', () => {
+    const LINE = { price: 12.5, qty: 4, discount: 5 };
+
+    it.each([
+      ['price * qty = 50', true],
+      ['price * qty - discount > 45', false],
+      ['price * (qty - 1) = 37.5', true],
+      ['qty + 2 * 3 = 10', true],
+      ['qty / 8 = 0.5', true],
+      ['qty % 3 = 1', true],
+      ['10 - 4 - 3 = qty - 1', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, LINE)).toBe(expected);
+    });
+
+    it('treats arithmetic on a missing field as missing', () => {
+      expect(evaluate('price + 1 > 0', {})).toBe(false);
+      expect(evaluate('NOT price + 1 > 0', {})).toBe(true);
+    });
+
+    it('fails on division by zero and non-numeric values', () => {
+      expect(() => evaluate('price / 0 > 1', LINE)).toThrow('Division by zero in "price / 0"');
+      expect(() => evaluate('qty % (discount - 5) > 1', LINE)).toThrow('Division by zero');
+      expect(() => evaluate("name + 1 > 1", { name: 'x' })).toThrow('Cannot apply + operator to non-numeric values');
+    });
+
+    it('shows the arithmetic with its grouping in clause details', () => {
+      expect(clauses('price * (qty - 1) >= 37.5', LINE)).toEqual([['price * (qty - 1) >= 37.5', true]]);
+      expect(clauses('qty - (discount - 2) = 1', LINE)).toEqual([['qty - (discount - 2) = 1', true]]);
+    });
+  });
+
+  describe('field-to-field comparisons', () => {
+    const ORDER = { spent: 1200, budget: 1000, shippingCountry: 'US', billingCountry: 'CA', limits: { max: 1200 } };
+
+    it.each([
+      ['spent > budget', true],
+      ['shippingCountry != billingCountry', true],
+      ['spent = limits.max', true],
+      ['budget * 1.2 = spent', true],
+      ['100 < budget', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, ORDER)).toBe(expected);
+    });
+
+    it('is false when either field is missing', () => {
+      expect(evaluate('spent > budget', { spent: 10 })).toBe(false);
+      expect(evaluate('spent > budget', { budget: 10 })).toBe(false);
+    });
+
+    it('reports both resolved values in clause details', () => {
+      const { details } = new Evaluator(ORDER).evaluate(parseExpression('spent > budget'));
+      expect(details).toMatchObject([{ clause: 'spent > budget', result: true, leftValue: 1200, rightValue: 1000 }]);
+    });
+
+    it('omits the value of a missing side', () => {
+      const { details } = new Evaluator({ spent: 10 }).evaluate(parseExpression('spent > budget'));
+      expect(details).toMatchObject([{ clause: 'spent > budget', result: false, leftValue: 10 }]);
+    });
+
+    it('reports a MATCHES pattern as its source text', () => {
+      const { details } = new Evaluator({ code: 'AB' }).evaluate(parseExpression("code MATCHES '^A'"));
+      expect(details[0]).toMatchObject({ leftValue: 'AB', rightValue: '^A' });
+    });
+  });
+
+  describe('functions', () => {
+    const CONTACT = { name: '  Ann ', email: 'Ann@Acme.COM', tags: ['a', 'b'], balance: -12.375, nickname: null };
+
+    it.each([
+      ["lower(email) = 'ann@acme.com'", true],
+      ["upper(email) ENDS_WITH 'ACME.COM'", true],
+      ["trim(name) = 'Ann'", true],
+      ['len(trim(name)) = 3', true],
+      ['len(tags) = 2', true],
+      ['abs(balance) > 12', true],
+      ['round(abs(balance)) = 12', true],
+      ['round(abs(balance), 2) = 12.38', true],
+      ["coalesce(nickname, trim(name)) = 'Ann'", true],
+      ["coalesce(missing, 'none') = 'none'", true],
+      ['coalesce(nickname) = null', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, CONTACT)).toBe(expected);
+    });
+
+    it('passes missing arguments through as missing', () => {
+      expect(evaluate("lower(email) = 'x'", {})).toBe(false);
+      expect(evaluate('coalesce(a, b) = null', {})).toBe(false);
+    });
+
+    it('rejects values of the wrong type at evaluation time', () => {
+      expect(() => evaluate("lower(name) = 'a'", { name: 5 })).toThrow('Function lower() expects a string argument');
+      expect(() => evaluate('abs(x) = 1', { x: '1' })).toThrow('Function abs() expects a numeric argument');
+      expect(() => evaluate('len(x) = 1', { x: 1 })).toThrow('Function len() expects a string or array argument');
+    });
+
+    it('shows calls in clause details', () => {
+      expect(clauses('round(balance, 1) < 0', CONTACT)).toEqual([['round(balance, 1) < 0', true]]);
+    });
+  });
+
+  describe('dates', () => {
+    const ACCOUNT = {
+      signup: '2024-01-15T10:00:00Z',
+      lastLogin: '2024-05-20T00:00:00Z',
+      renewal: '2024-07-01',
+      name: 'Ann',
+    };
+
+    it.each([
+      ["signup > '2024-01-01'", true],
+      ["signup < '2024-01-15T11:00:00+01:00'", false],
+      ["signup = '2024-01-15T11:00:00+01:00'", true],
+      ['lastLogin > now() - 30d', true],
+      ['lastLogin > now() - 7d', false],
+      ['renewal < now() + 5w', true],
+      ['renewal - signup > 160d', true],
+      ['lastLogin > signup', true],
+      ['now() - 12h > lastLogin', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, ACCOUNT)).toBe(expected);
+    });
+
+    it('uses the injected clock for now()', () => {
+      const later = new Evaluator(ACCOUNT, () => new Date('2025-01-01T00:00:00Z'));
+      expect(later.evaluate(parseExpression('lastLogin > now() - 30d')).result).toBe(false);
+    });
+
+    it('rejects ordering a date against a non-date string', () => {
+      expect(() => evaluate("name > '2024-01-01'", ACCOUNT)).toThrow(
+        'Cannot compare non-numeric, non-date values with > operator'
+      );
+    });
+
+    it('shows durations as written in clause details', () => {
+      expect(clauses('lastLogin > now() - 30d', ACCOUNT)).toEqual([['lastLogin > now() - 30d', true]]);
+    });
+  });
+
+  describe('BETWEEN', () => {
+    it.each([
+      ['age BETWEEN 18 AND 30', true],
+      ['age BETWEEN 25 AND 25', true],
+      ['age BETWEEN 26 AND 30', false],
+      ['age NOT BETWEEN 18 AND 30', false],
+      ['age BETWEEN 30 AND 18', false],
+      ["age BETWEEN 18 AND 65 AND status = 'active'", true],
+      ['score BETWEEN age * 3 AND age * 4', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, USER)).toBe(expected);
+    });
+
+    it('works with dates', () => {
+      expect(evaluate("signup BETWEEN '2024-01-01' AND now()", { signup: '2024-03-01' })).toBe(true);
+    });
+
+    it('is false when the value or a bound is missing, also for NOT BETWEEN', () => {
+      expect(evaluate('age BETWEEN 1 AND 2', {})).toBe(false);
+      expect(evaluate('age NOT BETWEEN 1 AND 2', {})).toBe(false);
+      expect(evaluate('age NOT BETWEEN 1 AND limit', USER)).toBe(false);
+    });
+
+    it('reports the value and both bounds in one clause detail', () => {
+      const { details } = new Evaluator({ age: 70 }).evaluate(parseExpression('age BETWEEN 18 AND 65'));
+      expect(details).toMatchObject([
+        { clause: 'age BETWEEN 18 AND 65', result: false, leftValue: 70, rightValue: [18, 65] },
+      ]);
+    });
+
+    it('shows NOT BETWEEN in clause details', () => {
+      expect(clauses('NOT age NOT BETWEEN 1 AND 2', USER)).toEqual([
+        ['age NOT BETWEEN 1 AND 2', true],
+        ['NOT age NOT BETWEEN 1 AND 2', false],
+      ]);
+    });
+  });
+
+  describe('ANY / ALL', () => {
+    const CART = {
+      items: [
+        { price: 50, qty: 1 },
+        { price: 150, qty: 2 },
+        { price: 200, qty: 0 },
+      ],
+      orders: [{ items: [{ qty: 1 }, { qty: 2 }] }, { items: [{ qty: 0 }] }],
+      tags: ['a', 'b'],
+    };
+
+    it.each([
+      ['ANY items (price > 100)', true],
+      ['ANY items (price > 100 AND qty >= 2)', true],
+      ['ANY items (price > 300)', false],
+      ['ALL items (price > 10)', true],
+      ['ALL items (qty > 0)', false],
+      ['ANY orders (ALL items (qty > 0))', true],
+      ['ALL orders (ANY items (qty > 0))', false],
+      ['NOT ANY items (price > 300)', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, CART)).toBe(expected);
+    });
+
+    it('makes ANY false and ALL true for an empty array', () => {
+      expect(evaluate('ANY items (price > 0)', { items: [] })).toBe(false);
+      expect(evaluate('ALL items (price > 0)', { items: [] })).toBe(true);
+    });
+
+    it('is false for a missing field, for ANY and ALL', () => {
+      expect(evaluate('ANY items (price > 0)', {})).toBe(false);
+      expect(evaluate('ALL items (price > 0)', {})).toBe(false);
+    });
+
+    it('reads fields inside the condition from each element', () => {
+      expect(evaluate('ANY items (price > budget)', { budget: 1, items: [{ price: 5 }] })).toBe(false);
+    });
+
+    it('rejects a field that is not an array', () => {
+      expect(() => evaluate('ANY tags (x = 1)', { tags: 'a' })).toThrow('ANY requires an array field: tags');
+    });
+
+    it('lists the indexes of the matching elements in one clause detail', () => {
+      const { details } = new Evaluator(CART).evaluate(parseExpression('ANY items (price > 100) AND qty = 1'));
+      expect(details[0]).toMatchObject({ clause: 'ANY items (price > 100)', result: true, matches: [1, 2] });
+      expect(details.map((detail) => detail.clause)).toEqual([
+        'ANY items (price > 100)',
+        'qty = 1',
+        'ANY items (price > 100) AND qty = 1',
+      ]);
+    });
+  });
+
+  describe('aggregates', () => {
+    const CART = {
+      items: [
+        { price: 120, qty: 2, category: 'gift' },
+        { price: 30, qty: 1, category: 'book' },
+        { price: 80, qty: null, category: 'gift' },
+        { category: 'book' },
+      ],
+      orders: [{ lines: [{ qty: 4 }, { qty: 6 }] }],
+    };
+
+    it.each([
+      ['SUM(items.price) = 230', true],
+      ['COUNT(items) = 4', true],
+      ['COUNT(items.price) = 3', true],
+      ["COUNT(items WHERE category = 'gift') = 2", true],
+      ["SUM(items.price WHERE category = 'gift') = 200", true],
+      ['MIN(items.price) = 30', true],
+      ['MAX(items.qty) = 2', true],
+      ['AVG(items.qty) = 1.5', true],
+      ['AVG(orders[0].lines.qty) = 5', true],
+      ['SUM(items.price) / COUNT(items.price) > 76', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, CART)).toBe(expected);
+    });
+
+    it('uses 0 for SUM and COUNT and missing for MIN, MAX and AVG without values', () => {
+      expect(evaluate('SUM(items.price) = 0', { items: [] })).toBe(true);
+      expect(evaluate("COUNT(items WHERE category = 'toy') = 0", CART)).toBe(true);
+      expect(evaluate('AVG(items.price) < 1', { items: [] })).toBe(false);
+      expect(evaluate('NOT MAX(items.price) > 1', { items: [] })).toBe(true);
+    });
+
+    it('explains empty aggregates in the clause notes', () => {
+      const { details } = new Evaluator({ items: [] }).evaluate(
+        parseExpression('AVG(items.price) > 50 OR SUM(items.price) = 0')
+      );
+      expect(details).toMatchObject([
+        {
+          clause: 'AVG(items.price) > 50',
+          result: false,
+          rightValue: 50,
+          notes: ['AVG(items.price) has no values, so it is missing'],
+        },
+        {
+          clause: 'SUM(items.price) = 0',
+          result: true,
+          leftValue: 0,
+          rightValue: 0,
+          notes: ['SUM(items.price) has no values, so it is 0'],
+        },
+        { clause: 'AVG(items.price) > 50 OR SUM(items.price) = 0', result: true },
+      ]);
+    });
+
+    it('is missing when the array is missing', () => {
+      expect(evaluate('COUNT(items) = 0', {})).toBe(false);
+    });
+
+    it('rejects non-numeric values and fields that are not arrays', () => {
+      expect(() => evaluate('SUM(items.category) > 1', CART)).toThrow(
+        'SUM() expects numeric values but found "gift" in items.category'
+      );
+      expect(() => evaluate('COUNT(name) > 1', { name: 'x' })).toThrow('COUNT() requires an array field: name');
+    });
+
+    it('shows the WHERE filter in clause details', () => {
+      expect(clauses("COUNT(items WHERE category = 'gift') >= 2", CART)).toEqual([
+        ["COUNT(items WHERE category = 'gift') >= 2", true],
+      ]);
+    });
+  });
+
+  describe('string escapes', () => {
+    it('compares decoded values', () => {
+      expect(evaluate(`name = 'O\\'Brien'`, { name: "O'Brien" })).toBe(true);
+      expect(evaluate(`note = "line1\\nline2"`, { note: 'line1\nline2' })).toBe(true);
+    });
+
+    it('keeps unknown escapes for MATCHES patterns', () => {
+      expect(evaluate(`phone MATCHES '^\\+1\\d{10}$'`, { phone: '+15551234567' })).toBe(true);
+    });
+
+    it('escapes LIKE wildcards with a backslash', () => {
+      expect(evaluate(`code LIKE '100\\%'`, { code: '100%' })).toBe(true);
+      expect(evaluate(`code LIKE '100\\%'`, { code: '1000' })).toBe(false);
+      expect(evaluate(`code LIKE 'a\\_b'`, { code: 'axb' })).toBe(false);
+    });
+
+    it('re-escapes strings in clause details', () => {
+      expect(clauses(`name = "O'Brien"`, { name: "O'Brien" })).toEqual([[`name = 'O\\'Brien'`, true]]);
+    });
+  });
+
+  describe('negative numbers', () => {
+    it.each([
+      ['balance < -100', true],
+      ['-balance > 100', true],
+      ['-(balance + 50) = 100', true],
+      ['balance - -50 = -100', true],
+      ['abs(balance) = 150', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, { balance: -150 })).toBe(expected);
+    });
+
+    it('treats the negation of a missing field as missing', () => {
+      expect(evaluate('-balance > 0', {})).toBe(false);
+    });
+
+    it('rejects negating non-numeric values', () => {
+      expect(() => evaluate("-name = 1", { name: 'x' })).toThrow('Cannot apply - operator to a non-numeric value');
+    });
+
+    it('shows negations in clause details', () => {
+      expect(clauses('-(balance + 50) = 100', { balance: -150 })).toEqual([['-(balance + 50) = 100', true]]);
+    });
+  });
+
+  describe('quoted identifiers', () => {
+    const ORDER = { 'order-id': 7, OR: 'x', customer: { 'Customer Name': 'Ann' }, 'line items': [{ qty: 2 }] };
+
+    it.each([
+      ['`order-id` = 7', true],
+      ["`OR` = 'x'", true],
+      ["customer.`Customer Name` = 'Ann'", true],
+      ['`line items`[0].qty = 2', true],
+      ['ANY `line items` (qty > 1)', true],
+    ])('%s → %s', (source, expected) => {
+      expect(evaluate(source, ORDER)).toBe(expected);
+    });
+
+    it('adds backticks in clause details only where needed', () => {
+      expect(clauses('`order-id` = 7 AND `age` > 1', { 'order-id': 7, age: 2 })).toEqual([
+        ['`order-id` = 7', true],
+        ['age > 1', true],
+        ['`order-id` = 7 AND age > 1', true],
+      ]);
+      expect(clauses('customer.`Customer Name` != `OR`', ORDER)).toEqual([
+        ['customer.`Customer Name` != `OR`', true],
+      ]);
+    });
+  });
+
+  describe('keywords and aliases', () => {
+    it('evaluates lower-case keywords and aliases', () => {
+      expect(evaluate("status == 'active' && not age < 18", USER)).toBe(true);
+      expect(evaluate("status <> 'active' || age between 20 and 30", USER)).toBe(true);
+    });
+
+    it('calls functions in any case', () => {
+      expect(evaluate("UPPER(status) = 'ACTIVE' AND Abs(age) = 25", USER)).toBe(true);
+    });
+
+    it('shows canonical keywords and operators in clause details', () => {
+      expect(clauses("status == 'active' && age in [25]", USER)).toEqual([
+        ["status = 'active'", true],
+        ['age IN [25]', true],
+        ["status = 'active' AND age IN [25]", true],
+      ]);
+    });
+
+    it('re-quotes fields named like keywords in clause details', () => {
+      expect(clauses('`or` = 1', { or: 1 })).toEqual([['`or` = 1', true]]);
+    });
+  });
+
+  describe('clause spans', () => {
+    it('locates each clause in the expression', () => {
+      const source = "age >= 18 AND (status = 'active')";
+      const { details } = new Evaluator(USER).evaluate(parseExpression(source));
+      expect(details.map((detail) => source.slice(detail.span!.start, detail.span!.end))).toEqual([
+        'age >= 18',
+        "(status = 'active')",
+        source,
+      ]);
+    });
+  });
+
+  describe('logical groups in clause details', () => {
+    function details(source: string, data: Record<string, unknown>) {
+      return new Evaluator(data).evaluate(parseExpression(source)).details;
+    }
+
+    it('reports an OR group after its operands, with its span and result', () => {
+      const source = 'ANY orders (total > 5) OR x = 1';
+      const result = details(source, { orders: [{ total: 9 }], x: 2 });
+
+      expect(result.map((detail) => [detail.clause, detail.result])).toEqual([
+        ['ANY orders (total > 5)', true],
+        ['x = 1', false],
+        ['ANY orders (total > 5) OR x = 1', true],
+      ]);
+      expect(result[2].span).toEqual({ start: 0, end: source.length });
+    });
+
+    it('reports each nested group, including its parentheses in the span', () => {
+      const source = '(a = 1 OR b = 2) AND c = 3';
+      const result = details(source, { a: 1, c: 4 });
+
+      const group = result.find((detail) => detail.clause === 'a = 1 OR b = 2');
+      expect(group).toMatchObject({ result: true, span: { start: 0, end: 16 } });
+      expect(source.slice(group!.span!.start, group!.span!.end)).toBe('(a = 1 OR b = 2)');
+
+      const root = result[result.length - 1];
+      expect(root).toMatchObject({ clause: '(a = 1 OR b = 2) AND c = 3', result: false });
+    });
+
+    it('formats same-operator chains without extra parentheses', () => {
+      expect(clauses('a = 1 AND b = 2 AND c = 3', { a: 1, b: 2, c: 3 }).map(([clause]) => clause)).toEqual([
+        'a = 1',
+        'b = 2',
+        'a = 1 AND b = 2',
+        'c = 3',
+        'a = 1 AND b = 2 AND c = 3',
+      ]);
+    });
+
+    it('does not report groups inside ANY/ALL predicates', () => {
+      expect(clauses('ANY items (a = 1 OR b = 2)', { items: [{ a: 1 }] })).toEqual([
+        ['ANY items (a = 1 OR b = 2)', true],
+      ]);
+    });
+  });
+
+  describe('clause text', () => {
+    it.each([
+      "(age>=18)  and country == \"US\"",
+      'NOT (a = 1) OR price * (qty - 1) >= -(-2)',
+      "ANY items (price > 100 OR `tag name` = 'x') AND COUNT(items WHERE qty > 1) >= 2",
+      'x - (y - z) = 1 AND (a = 1 OR b = 2)',
+    ])('is the canonical printed form of each clause in %s', (source) => {
+      const ast = parseExpression(source);
+      const { details } = new Evaluator({ age: 20, items: [] }, () => NOW).evaluate(ast);
+      expect(details[details.length - 1].clause).toBe(printExpression(ast));
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { parseExpression } from '../../parser/parser';
+import { printExpression } from '../../parser/printer';
+import { BinaryExpression, Expression } from '../../domain/ast';
+import { Evaluator } from '../evaluator';
+import { optimizeExpression } from '../optimizer';
+
+/** Result of evaluating an AST, or 'error' if evaluation throws */
+function outcome(expr: Expression, data: Record<string, unknown>): boolean | 'error' {
+  try {
+    return new Evaluator(data).evaluate(expr).result;
+  } catch {
+    return 'error';
+  }
+}
+
+/** Names of the top-level fields an expression reads */
+function fieldsOf(source: string): string[] {
+  return [...new Set(source.match(/\b(age|price|x|tier)\b/g) ?? [])];
+}
+
+/** Every assignment of VALUES to the given fields, a missing field included */
+function dataSets(fields: string[]): Record<string, unknown>[] {
+  return fields.reduce<Record<string, unknown>[]>(
+    (sets, field) =>
+      sets.flatMap((set) => VALUES.map((value) => (value === undefined ? set : { ...set, [field]: value }))),
+    [{}]
+  );
+}
+
+const VALUES: unknown[] = [undefined, null, 0, 3, 5, 7, 10, 12, 20, 25, 35, '7', 'a', 'b', true];
+
+describe('optimizeExpression', () => {
+  describe('keeps the result of the original expression for all data', () => {
+    it.each([
+      'age > 5 AND age > 10',
+      'age > 5 AND age >= 5 AND age < 35',
+      'age > 30 AND age < 20',
+      'age > 30 AND age < 20 OR x = 1',
+      'age > 5 OR age > 10',
+      'age > 5 OR age <= 5',
+      'age < 5 OR age > 10 OR age = 7',
+      'age > 5 AND age > 10 OR age < 3',
+      'NOT (age > 5 AND age > 10)',
+      'NOT NOT age = 7',
+      '(age > 5 OR x = 1) AND (age > 10 OR x = 1)',
+      'age = 7 OR age = 7 OR x = 1',
+      'age != 5 AND age = 5',
+      'age BETWEEN 5 AND 10 AND age > 7',
+      'age NOT BETWEEN 5 AND 10 OR age > 7',
+      'age BETWEEN 20 AND 10 OR x = 1',
+      'age + 0 > 2 * 5 AND price < 10 - 3',
+      'x = 1 OR 1 = 1',
+      'x = 1 AND 1 = 1',
+      "tier = 'a' AND tier = 'b'",
+      "tier = 'a' OR tier = 'a' AND age > 3",
+      'age > 5 AND (age > 10 AND price > 3)',
+    ])('%s', (source) => {
+      const original = parseExpression(source);
+      const optimized = optimizeExpression(parseExpression(source)).ast;
+
+      for (const data of dataSets(fieldsOf(source))) {
+        const expected = outcome(original, data);
+        // Dropping a clause can remove a runtime error, never add one
+        if (expected !== 'error') {
+          expect({ data, result: outcome(optimized, data) }).toEqual({ data, result: expected });
+        }
+      }
+    });
+  });
+
+  describe('rewrites', () => {
+    it.each([
+      ['age > 5 AND age > 10', 'age > 10'],
+      ['age > 5 OR age > 10', 'age > 5'],
+      ['a = 1 AND a = 1', 'a = 1'],
+      ['a = 1 AND (b = 2 AND c = 3)', 'a = 1 AND b = 2 AND c = 3'],
+      ['price > 10 * 2', 'price > 20'],
+      ['x = 1 AND 1 = 1', 'x = 1'],
+      ['x = 1 OR 1 = 2', 'x = 1'],
+      ['NOT NOT x = 1', 'x = 1'],
+    ])('%s → %s', (source, expected) => {
+      expect(printExpression(optimizeExpression(parseExpression(source)).ast)).toBe(expected);
+    });
+
+    it.each([
+      'age > 5 OR age <= 5', // a missing age fails both clauses
+      'age < 5 OR age > 10 OR age = 7',
+      'x > 1 / 0', // division by zero stays a runtime error
+      'age >= 18 AND age BETWEEN 10 AND 65',
+    ])('leaves %s alone', (source) => {
+      const ast = parseExpression(source);
+      const result = optimizeExpression(ast);
+      expect(result.ast).toBe(ast);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  describe('warnings', () => {
+    it('names the redundant clause and the clause implying it', () => {
+      expect(optimizeExpression(parseExpression('age > 5 AND age > 10')).warnings).toEqual([
+        'Clause "age > 5" is redundant because of "age > 10" at position 0',
+      ]);
+    });
+
+    it('reports repeated and constant clauses', () => {
+      expect(optimizeExpression(parseExpression('a = 1 AND a = 1')).warnings).toEqual([
+        'Clause "a = 1" is repeated at position 10',
+      ]);
+      expect(optimizeExpression(parseExpression('x = 1 OR 1 = 2')).warnings).toEqual([
+        'Clause "1 = 2" is always false at position 9',
+      ]);
+    });
+
+    it('reports contradictions and rules that never match', () => {
+      expect(optimizeExpression(parseExpression('age > 30 AND age < 20')).warnings).toEqual([
+        'Clauses "age > 30" and "age < 20" contradict each other at position 0',
+        'Expression is always false, so the rule never matches',
+      ]);
+      expect(optimizeExpression(parseExpression('age BETWEEN 20 AND 10')).warnings).toEqual([
+        'Clause "age BETWEEN 20 AND 10" can never be true at position 0',
+        'Expression is always false, so the rule never matches',
+      ]);
+    });
+
+    it('reports rules that match any data', () => {
+      expect(optimizeExpression(parseExpression('x = 1 OR 1 = 1')).warnings).toContain(
+        'Expression is always true, so the rule matches any data'
+      );
+    });
+  });
+
+  it('keeps the spans of the remaining nodes', () => {
+    const ast: Expression = optimizeExpression(parseExpression('age > 5 AND age > 10')).ast;
+    expect(ast).toBeInstanceOf(BinaryExpression);
+    expect(ast.span).toEqual({ start: 12, end: 20 });
+    expect(((ast as BinaryExpression).left as Expression).span).toEqual({ start: 12, end: 15 });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * BUILT-IN FUNCTION IMPLEMENTATIONS
+ * 
+ * Runtime behaviour of the functions declared in domain/functions.ts.
+ * The parser has already checked arity and literal argument types, so these
+ * implementations only need to validate values that come from the data.
+ * 
+ * Missing values:
+ * A missing field (undefined) passed to a function makes the result missing,
+ * so the enclosing comparison evaluates to false like any other missing field.
+ * coalesce() is the exception - skipping missing values is its purpose.
+ * 
+ * Examples with data { email: " Bob@Acme.com ", tags: ["a", "b"] }:
+ * - lower(trim(email)) → "bob@acme.com"
+ * - len(tags) → 2
+ * - coalesce(nickname, email) → " Bob@Acme.com "
+ */
+
+/**
+ * BUILTIN CONTEXT
+ * Evaluator services available to built-in functions
+ */
+export interface BuiltinContext {
+  /** Current time from the evaluator's (injectable) clock */
+  now(): Date;
+}
+
+/**
+ * BUILTIN FUNCTION
+ * Implementation signature: receives evaluated argument values
+ * and the evaluator context
+ */
+export type BuiltinFunction = (args: any[], context: BuiltinContext) => any;
+
+/**
+ * EXPECT STRING
+ * Validates a string argument
+ * 
+ * @param name - Function name (for error messages)
+ * @param value - Argument value
+ * @returns The value typed as string
+ * @throws Error if value is not a string
+ */
+function expectString(name: string, value: any): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Function ${name}() expects a string argument`);
+  }
+  return value;
+}
+
+/**
+ * EXPECT NUMBER
+ * Validates a numeric argument
+ * 
+ * @param name - Function name (for error messages)
+ * @param value - Argument value
+ * @returns The value typed as number
+ * @throws Error if value is not a number
+ */
+function expectNumber(name: string, value: any): number {
+  if (typeof value !== 'number' || isNaN(value)) {
+    throw new Error(`Function ${name}() expects a numeric argument`);
+  }
+  return value;
+}
+
+/**
+ * BUILTINS
+ * Function implementations keyed by name (same keys as FUNCTION_SIGNATURES)
+ */
+export const BUILTINS: Record<string, BuiltinFunction> = {
+  len: ([value]) => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' && !Array.isArray(value)) {
+      throw new Error('Function len() expects a string or array argument');
+    }
+    return value.length;
+  },
+
+  lower: ([value]) => (value === undefined ? undefined : expectString('lower', value).toLowerCase()),
+
+  upper: ([value]) => (value === undefined ? undefined : expectString('upper', value).toUpperCase()),
+
+  trim: ([value]) => (value === undefined ? undefined : expectString('trim', value).trim()),
+
+  abs: ([value]) => (value === undefined ? undefined : Math.abs(expectNumber('abs', value))),
+
+  round: ([value, digits = 0]) => {
+    if (value === undefined || digits === undefined) return undefined;
+    const factor = Math.pow(10, expectNumber('round', digits));
+    return Math.round(expectNumber('round', value) * factor) / factor;
+  },
+
+  coalesce: (args) => {
+    // First argument that is neither missing nor null
+    const found = args.find((value) => value !== undefined && value !== null);
+    if (found !== undefined) return found;
+    // Nothing usable: null if any argument was an explicit null, else missing
+    return args.some((value) => value === null) ? null : undefined;
+  },
+
+  now: (_args, context) => context.now(),
+};
@@ -4,9 +4,15 @@
  * 
  * Responsibilities:
  * - Tree traversal: Walk through AST nodes recursively
- * - Data lookup: Extract field values from data object
- * - Comparison: Execute operators (=, !=, >, <, >=, <=)
- * - Logical operations: Combine results with AND/OR
+ * - Data lookup: Extract field values from data object (including nested paths)
+ * - Comparison: Execute operators (=, !=, >, <, >=, <=, IN, NOT IN, BETWEEN, NOT BETWEEN)
+ * - Arithmetic: Compute values with +, -, *, /, % before comparing
+ * - Functions: Call built-ins (len, lower, upper, trim, abs, round, coalesce, now)
+ * - Dates: Compare ISO-8601 strings chronologically, shift dates by durations
+ * - String matching: CONTAINS, STARTS_WITH, ENDS_WITH, LIKE (+ case-insensitive variants), MATCHES
+ * - Logical operations: Combine results with AND/OR, negate with NOT
+ * - Quantifiers: Check a condition against each element of an array (ANY, ALL)
+ * - Aggregates: Reduce an array to a number (SUM, COUNT, MIN, MAX, AVG)
  * - Detail tracking: Record each clause evaluation for debugging
  * 
  * Example:
@@ -31,11 +37,30 @@ import {
   Expression,
   BinaryExpression,
   LogicalExpression,
-  Identifier,
-  NumberLiteral,
-  StringLiteral,
+  UnaryExpression,
+  ArithmeticExpression,
+  PathSegment,
+  RegexLiteral,
+  CallExpression,
+  BetweenExpression,
+  QuantifierExpression,
+  AggregateExpression,
 } from '../domain/ast';
 import { ClauseDetails } from '../domain/rule';
+import { parseIsoDate } from '../domain/time';
+import { ExpressionVisitor } from '../domain/visitor';
+import { printExpression } from '../parser/printer';
+import { BUILTINS } from './builtins';
+
+// Longest string MATCHES will run a regular expression against (ReDoS guard)
+const MAX_MATCH_INPUT_LENGTH = 10000;
+
+/**
+ * CLOCK
+ * Source of the current time for now()
+ * Injected so time-based rules can be evaluated deterministically
+ */
+export type Clock = () => Date;
 
 /**
  * EVALUATOR CLASS
@@ -45,13 +70,29 @@ export class Evaluator {
   /** Stores evaluation details for each clause */
   private details: ClauseDetails[] = [];
 
+  /** Notes produced while computing values, attached to the next recorded clause */
+  private notes: string[] = [];
+
+  /** Condition dispatch recording clause details (top-level clauses) */
+  private readonly trackedConditions = this.conditionVisitor(true);
+
+  /** Condition dispatch without details (ANY/ALL predicates, WHERE filters) */
+  private readonly untrackedConditions = this.conditionVisitor(false);
+
+  /** Value dispatch (see evalValue) */
+  private readonly values = this.valueVisitor();
+
   /**
    * Constructor
    * 
    * @param data - Runtime data object to evaluate rule against
    *               Example: { age: 25, status: "active", score: 85.5 }
+   * @param clock - Source of the current time for now() (defaults to system time)
    */
-  constructor(private data: Record<string, any>) {}
+  constructor(
+    private data: Record<string, any>,
+    private clock: Clock = () => new Date()
+  ) {}
 
   /**
    * EVALUATE (Public Entry Point)
@@ -71,7 +112,8 @@ export class Evaluator {
    *   result: true,
    *   details: [
    *     { clause: "age > 18", result: true },
-   *     { clause: "status = 'active'", result: true }
+   *     { clause: "status = 'active'", result: true },
+   *     { clause: "age > 18 AND status = 'active'", result: true }
    *   ]
    * }
    * 
@@ -81,6 +123,7 @@ export class Evaluator {
   evaluate(expr: Expression): { result: boolean; details: ClauseDetails[] } {
     // Reset details for fresh evaluation
     this.details = [];
+    this.notes = [];
     
     // Recursively evaluate AST tree
     const result = this.eval(expr, true);
@@ -92,10 +135,14 @@ export class Evaluator {
   /**
    * EVAL (Recursive Dispatcher)
    * Routes expression to appropriate handler based on node type
+   * (via the condition visitor - see conditionVisitor)
    * 
    * AST Node Types:
    * - LogicalExpression: AND/OR operators → evalLogicalExpression
+   * - UnaryExpression: NOT operator → evalUnaryExpression
    * - BinaryExpression: Comparison operators (=, !=, >, <, >=, <=) → evalBinaryExpression
+   * - BetweenExpression: BETWEEN / NOT BETWEEN → evalBetweenExpression
+   * - QuantifierExpression: ANY / ALL over an array → evalQuantifierExpression
    * 
    * Tree Traversal Pattern (Post-Order):
    * For "age > 18 AND status = 'active'":
@@ -110,17 +157,48 @@ export class Evaluator {
    * @throws Error if expression type is not recognized
    */
   private eval(expr: Expression, trackDetails: boolean): boolean {
-    // Route to logical expression handler (AND, OR)
-    if (expr instanceof LogicalExpression) {
-      return this.evalLogicalExpression(expr, trackDetails);
-    } 
-    // Route to binary expression handler (=, !=, >, <, >=, <=)
-    else if (expr instanceof BinaryExpression) {
-      return this.evalBinaryExpression(expr, trackDetails);
-    }
-    
+    return expr.accept(trackDetails ? this.trackedConditions : this.untrackedConditions);
+  }
+
+  /**
+   * CONDITION VISITOR
+   * Dispatch table for eval(): routes each condition node to its handler
+   * 
+   * Value nodes (fields, literals, arithmetic, calls, aggregates) are not
+   * conditions and are rejected.
+   * 
+   * @param trackDetails - Whether the handlers record clause details
+   * @returns Visitor returning each condition's boolean result
+   */
+  private conditionVisitor(trackDetails: boolean): ExpressionVisitor<boolean> {
     // Unknown expression type (should never happen with valid AST)
-    throw new Error(`Unexpected expression type: ${expr.constructor.name}`);
+    const notACondition = (expr: Expression): boolean => {
+      throw new Error(`Unexpected expression type: ${expr.constructor.name}`);
+    };
+    return {
+      // Logical operators (AND, OR)
+      visitLogicalExpression: (expr) => this.evalLogicalExpression(expr, trackDetails),
+      // Negation (NOT)
+      visitUnaryExpression: (expr) => this.evalUnaryExpression(expr, trackDetails),
+      // Comparisons (=, !=, >, <, >=, <=, IN, CONTAINS, ...)
+      visitBinaryExpression: (expr) => this.evalBinaryExpression(expr, trackDetails),
+      // Ranges (BETWEEN, NOT BETWEEN)
+      visitBetweenExpression: (expr) => this.evalBetweenExpression(expr, trackDetails),
+      // Quantifiers (ANY, ALL)
+      visitQuantifierExpression: (expr) => this.evalQuantifierExpression(expr, trackDetails),
+      visitArithmeticExpression: notACondition,
+      visitIdentifier: notACondition,
+      visitNumberLiteral: notACondition,
+      visitStringLiteral: notACondition,
+      visitDateLiteral: notACondition,
+      visitDurationLiteral: notACondition,
+      visitBooleanLiteral: notACondition,
+      visitNullLiteral: notACondition,
+      visitListLiteral: notACondition,
+      visitRegexLiteral: notACondition,
+      visitCallExpression: notACondition,
+      visitAggregateExpression: notACondition,
+    };
   }
 
   /**
@@ -131,6 +209,7 @@ export class Evaluator {
    * 1. Recursively evaluate left operand
    * 2. Recursively evaluate right operand
    * 3. Combine results based on operator type
+   * 4. Track the combined clause, so details show which groups passed
    * 
    * Operators:
    * - AND: Both operands must be true (short-circuit: not implemented)
@@ -149,6 +228,14 @@ export class Evaluator {
    * Note: Currently evaluates both operands always (no short-circuit optimization)
    * This is intentional to track all clause details.
    * 
+   * Details tracked for "(a = 1 OR b = 2) AND c = 3" (operands first):
+   * [
+   *   { clause: "a = 1", ... }, { clause: "b = 2", ... },
+   *   { clause: "a = 1 OR b = 2", span: { start: 0, end: 16 }, ... },
+   *   { clause: "c = 3", ... },
+   *   { clause: "(a = 1 OR b = 2) AND c = 3", span: { start: 0, end: 26 }, ... }
+   * ]
+   * 
    * @param expr - LogicalExpression node (AND/OR)
    * @param trackDetails - Whether to record clause evaluations
    * @returns Boolean result of logical operation
@@ -166,96 +253,607 @@ export class Evaluator {
     const rightResult = this.eval(expr.right, trackDetails);
 
     // Combine results based on logical operator
+    let result: boolean;
     switch (expr.operator.type) {
       case TokenType.AND:
         // Both must be true
-        return leftResult && rightResult;
+        result = leftResult && rightResult;
+        break;
       case TokenType.OR:
         // At least one must be true
-        return leftResult || rightResult;
+        result = leftResult || rightResult;
+        break;
       default:
         // Invalid operator (should never happen with valid AST)
         throw new Error(`Unknown logical operator: ${expr.operator.literal}`);
     }
+
+    // Track the group (its span includes any parentheses around it)
+    if (trackDetails) {
+      this.addDetail(expr, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * EVAL UNARY EXPRESSION
+   * Handles the NOT operator by negating its operand's result
+   * 
+   * Process:
+   * 1. Recursively evaluate the operand (its clauses are tracked as usual)
+   * 2. Negate the result
+   * 3. Track the negated clause so details show where NOT flipped the outcome
+   * 
+   * Example: "NOT (status = 'banned' OR age < 18)"
+   * Data: { status: "active", age: 25 }
+   * Details tracked:
+   * [
+   *   { clause: "status = 'banned'", result: false },
+   *   { clause: "age < 18", result: false },
+   *   { clause: "status = 'banned' OR age < 18", result: false },
+   *   { clause: "NOT (status = 'banned' OR age < 18)", result: true }
+   * ]
+   * 
+   * @param expr - UnaryExpression node (NOT)
+   * @param trackDetails - Whether to record clause evaluations
+   * @returns Boolean result of the negation
+   * @throws Error if operator is not NOT
+   */
+  private evalUnaryExpression(
+    expr: UnaryExpression,
+    trackDetails: boolean
+  ): boolean {
+    // Evaluate operand recursively
+    const operandResult = this.eval(expr.operand, trackDetails);
+
+    let result: boolean;
+    switch (expr.operator.type) {
+      case TokenType.NOT:
+        result = !operandResult;
+        break;
+      default:
+        // Invalid operator (should never happen with valid AST)
+        throw new Error(`Unknown unary operator: ${expr.operator.literal}`);
+    }
+
+    // Track the negated clause
+    if (trackDetails) {
+      this.addDetail(expr, result);
+    }
+
+    return result;
   }
 
   /**
    * EVAL BINARY EXPRESSION
-   * Handles comparison operators (=, !=, >, <, >=, <=)
+   * Handles comparison operators (=, !=, >, <, >=, <=, IN, CONTAINS, ...)
    * 
    * Process:
-   * 1. Extract field name from left side (must be Identifier)
-   * 2. Look up actual value in data object
-   * 3. Extract expected value from right side (NumberLiteral or StringLiteral)
-   * 4. Compare actual vs expected using operator
-   * 5. Track clause details if requested
-   * 6. Return comparison result
+   * 1. Compute the value of each side - a field path, a literal or an
+   *    arithmetic expression (fields may appear on either side)
+   * 2. Resolve field values in data object (walking nested objects/arrays)
+   * 3. Compare left vs right using operator
+   * 4. Track clause details (including both resolved values) if requested
+   * 5. Return comparison result
    * 
    * Example: "age > 18"
-   * - fieldName = "age"
-   * - dataValue = this.data["age"] = 25
-   * - expectedValue = 18
+   * - leftValue = this.data["age"] = 25
+   * - rightValue = 18
    * - result = compare(25, ">", 18) = true
    * 
    * Example: "status = 'active'"
-   * - fieldName = "status"
-   * - dataValue = this.data["status"] = "active"
-   * - expectedValue = "active"
+   * - leftValue = this.data["status"] = "active"
+   * - rightValue = "active"
    * - result = compare("active", "=", "active") = true
    * 
+   * Example: "price * quantity > 1000"
+   * - leftValue = evalValue(price * quantity) = 40 * 30 = 1200
+   * - rightValue = 1000
+   * - result = compare(1200, ">", 1000) = true
+   * 
+   * Example: "shippingCountry != billingCountry"
+   * - leftValue = this.data["shippingCountry"] = "US"
+   * - rightValue = this.data["billingCountry"] = "CA"
+   * - result = compare("US", "!=", "CA") = true
+   * 
    * Missing Fields:
-   * If field doesn't exist in data, evaluates to false
+   * If a field on EITHER side doesn't exist in data, evaluates to false
    * Example: Rule "country = 'US'" with data { age: 25 } → false
+   * Example: Rule "spent > budget" with data { spent: 10 } → false
+   * The same applies when an intermediate object of a nested path is missing
+   * Example: Rule "user.address.country = 'US'" with data { user: {} } → false
+   * Any missing operand of an arithmetic expression makes the result missing too
+   * 
+   * Null Fields:
+   * A field present with an explicit null is NOT missing - it is compared
+   * Example: Rule "manager = null" with data { manager: null } → true
    * 
    * @param expr - BinaryExpression node (comparison)
    * @param trackDetails - Whether to record clause evaluation
    * @returns Boolean result of comparison
-   * @throws Error if left side is not identifier or right side is not literal
+   * @throws Error if either side is a condition rather than a value
    */
   private evalBinaryExpression(
     expr: BinaryExpression,
     trackDetails: boolean
   ): boolean {
-    // Validate left side is an identifier (field name)
-    if (!(expr.left instanceof Identifier)) {
-      throw new Error('Left side of comparison must be an identifier');
+    // Compute both sides: field lookups, literals or arithmetic
+    const leftValue = this.evalValue(expr.left);
+    const rightValue = this.evalValue(expr.right);
+
+    // Handle missing fields on either side: treat as false (field doesn't exist)
+    // Otherwise perform comparison using operator
+    const result =
+      leftValue === undefined || rightValue === undefined
+        ? false
+        : this.compare(leftValue, expr.operator.type, rightValue);
+    
+    // Track clause evaluation details with both resolved values
+    if (trackDetails) {
+      this.addDetail(expr, result, {
+        leftValue,
+        // Report the pattern source rather than the compiled RegExp
+        rightValue: expr.right instanceof RegexLiteral ? expr.right.value : rightValue,
+      });
     }
 
-    // Extract field name and look up value in data
-    const fieldName = expr.left.value;
-    const dataValue = this.data[fieldName];
+    return result;
+  }
 
-    // Handle missing fields: treat as false (field doesn't exist)
-    if (dataValue === undefined) {
-      const result = false;
-      if (trackDetails) {
-        this.addDetail(this.formatClause(expr), result);
-      }
-      return result;
+  /**
+   * EVALUATE BETWEEN EXPRESSION
+   * Checks an inclusive range as a single clause
+   * 
+   * Process:
+   * 1. Compute the value and both bounds
+   * 2. If any of them is missing, the clause is false (also for NOT BETWEEN)
+   * 3. Check low <= value <= high with the regular >= and <= comparisons
+   *    (so numbers and dates both work)
+   * 4. Invert the result for NOT BETWEEN
+   * 5. Record one clause detail with the value and [low, high]
+   * 
+   * Example: "age BETWEEN 18 AND 65" with data {age: 70}
+   * → false, detail {clause: "age BETWEEN 18 AND 65", result: false, leftValue: 70, rightValue: [18, 65]}
+   * 
+   * @param expr - BetweenExpression to evaluate
+   * @param trackDetails - Whether to record clause details
+   * @returns Boolean result of the range check
+   */
+  private evalBetweenExpression(expr: BetweenExpression, trackDetails: boolean): boolean {
+    const value = this.evalValue(expr.value);
+    const low = this.evalValue(expr.low);
+    const high = this.evalValue(expr.high);
+
+    let result = false;
+    if (value !== undefined && low !== undefined && high !== undefined) {
+      const inRange =
+        this.compare(value, TokenType.GREATER_EQUAL, low) &&
+        this.compare(value, TokenType.LESS_EQUAL, high);
+      result = expr.negated ? !inRange : inRange;
     }
 
-    // Extract expected value from right side (literal)
-    let expectedValue: any;
-    if (expr.right instanceof NumberLiteral) {
-      expectedValue = expr.right.value;
-    } else if (expr.right instanceof StringLiteral) {
-      expectedValue = expr.right.value;
-    } else {
-      // Right side must be a literal (not another identifier or expression)
-      throw new Error('Right side of comparison must be a literal value');
+    if (trackDetails) {
+      this.addDetail(expr, result, {
+        leftValue: value,
+        rightValue: low === undefined || high === undefined ? undefined : [low, high],
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * EVALUATE QUANTIFIER EXPRESSION
+   * Checks a condition against every element of an array field
+   * 
+   * Process:
+   * 1. Resolve the array field (missing → clause is false)
+   * 2. For each element, evaluate the predicate with the element as the data
+   *    scope, so "price" inside "ANY items (price > 100)" means items[i].price
+   * 3. Collect the indexes of matching elements
+   * 4. ANY → true if at least one element matched (false for an empty array)
+   *    ALL → true if every element matched (true for an empty array)
+   * 5. Record one clause detail with the matching indexes
+   * 
+   * Every element is checked (no short-circuit) so details list all matches.
+   * Clauses inside the predicate are not recorded individually.
+   * 
+   * Example: "ANY items (price > 100)" with data
+   * {items: [{price: 50}, {price: 150}, {price: 200}]}
+   * → true, detail {clause: "ANY items (price > 100)", result: true, matches: [1, 2]}
+   * 
+   * @param expr - QuantifierExpression to evaluate
+   * @param trackDetails - Whether to record clause details
+   * @returns Boolean result of the quantifier
+   * @throws Error if the field exists but is not an array
+   */
+  private evalQuantifierExpression(
+    expr: QuantifierExpression,
+    trackDetails: boolean
+  ): boolean {
+    const collection = this.resolvePath(expr.collection.path);
+
+    let result = false;
+    const matches: number[] = [];
+    if (collection !== undefined) {
+      if (!Array.isArray(collection)) {
+        throw new Error(`${expr.token.literal} requires an array field: ${expr.collection.value}`);
+      }
+
+      // Evaluate the predicate with each element as the data scope
+      collection.forEach((element, index) => {
+        if (this.evalInScope(element, expr.predicate)) {
+          matches.push(index);
+        }
+      });
+
+      result =
+        expr.token.type === TokenType.ANY
+          ? matches.length > 0
+          : matches.length === collection.length;
     }
 
-    // Perform comparison using operator
-    const result = this.compare(dataValue, expr.operator.type, expectedValue);
-    
-    // Track clause evaluation details
     if (trackDetails) {
-      this.addDetail(this.formatClause(expr), result);
+      this.addDetail(expr, result, { matches });
     }
 
     return result;
   }
 
+  /**
+   * EVAL IN SCOPE
+   * Evaluates a condition with an array element as the data scope
+   * 
+   * Identifiers inside the condition resolve against the element instead of
+   * the root data object; the root scope is restored afterwards (also on errors).
+   * Clauses evaluated here are not recorded in the details.
+   * 
+   * @param element - Array element to use as the data scope
+   * @param condition - Condition to evaluate (ANY/ALL predicate or WHERE filter)
+   * @returns Boolean result of the condition for this element
+   */
+  private evalInScope(element: any, condition: Expression): boolean {
+    const root = this.data;
+    this.data = element;
+    try {
+      return this.eval(condition, false);
+    } finally {
+      this.data = root;
+    }
+  }
+
+  /**
+   * EVAL VALUE
+   * Value-producing counterpart of eval() - computes what a node stands for
+   * 
+   * Node Types:
+   * - Identifier → field value from data (undefined if missing)
+   * - Literals → their constant value (see valueVisitor)
+   * - ArithmeticExpression → computed number (see evalArithmeticExpression)
+   * - UnaryExpression with - → negated number (see evalNegation)
+   * - CallExpression → result of the built-in function (see evalCallExpression)
+   * - AggregateExpression → number computed over an array (see evalAggregateExpression)
+   * 
+   * Examples with data { price: 40, quantity: 30 }:
+   * - evalValue(price) → 40
+   * - evalValue(price * quantity) → 1200
+   * - evalValue(discount) → undefined (missing field)
+   * 
+   * @param expr - AST node that produces a value
+   * @returns The computed value, or undefined if it depends on a missing field
+   * @throws Error if the node is a condition rather than a value
+   */
+  private evalValue(expr: Expression): any {
+    return expr.accept(this.values);
+  }
+
+  /**
+   * VALUE VISITOR
+   * Dispatch table for evalValue()
+   * 
+   * Literal conversions:
+   * - NumberLiteral → number
+   * - StringLiteral / DateLiteral → string (without quotes)
+   * - BooleanLiteral → boolean
+   * - NullLiteral → null
+   * - DurationLiteral → number of milliseconds
+   * - ListLiteral → array of element values (e.g., ['US', 'CA'] → ["US", "CA"])
+   * - RegexLiteral → compiled RegExp (built once by the parser)
+   * 
+   * Conditions (comparisons, AND/OR, NOT, BETWEEN, ANY/ALL) are rejected.
+   * 
+   * @returns Visitor returning each node's value (undefined if missing)
+   */
+  private valueVisitor(): ExpressionVisitor<any> {
+    const notAValue = (expr: Expression): never => {
+      throw new Error(`Expected a value but found condition: ${printExpression(expr)}`);
+    };
+    return {
+      visitIdentifier: (expr) => this.resolvePath(expr.path),
+      visitArithmeticExpression: (expr) => this.evalArithmeticExpression(expr),
+      visitUnaryExpression: (expr) =>
+        expr.operator.type === TokenType.MINUS ? this.evalNegation(expr) : notAValue(expr),
+      visitCallExpression: (expr) => this.evalCallExpression(expr),
+      visitAggregateExpression: (expr) => this.evalAggregateExpression(expr),
+      visitNumberLiteral: (expr) => expr.value,
+      visitStringLiteral: (expr) => expr.value,
+      visitDateLiteral: (expr) => expr.value,
+      visitDurationLiteral: (expr) => expr.value,
+      visitBooleanLiteral: (expr) => expr.value,
+      visitNullLiteral: () => null,
+      visitListLiteral: (expr) => expr.elements.map((element) => this.evalValue(element)),
+      visitRegexLiteral: (expr) => expr.regex,
+      visitBinaryExpression: notAValue,
+      visitBetweenExpression: notAValue,
+      visitQuantifierExpression: notAValue,
+      visitLogicalExpression: notAValue,
+    };
+  }
+
+  /**
+   * EVAL ARITHMETIC EXPRESSION
+   * Computes +, -, *, /, % over numeric operands
+   * 
+   * Rules:
+   * - Both operands must be numbers (no string-to-number coercion), except:
+   *   - date ± duration → date (now() - 30d, signupDate + 12h)
+   *   - date - date → milliseconds between them
+   *   Dates are Date values (now()) or ISO-8601 strings from the data
+   * - A missing operand (undefined) makes the result missing, so the
+   *   enclosing comparison evaluates to false like any missing field
+   * - Division or remainder by zero is an error
+   * 
+   * Examples with data { income: 5000, expenses: 3500 }:
+   * - (income - expenses) / income → 0.3
+   * - income / 0 → Error: Division by zero in "income / 0"
+   * - income * 'x' → Error: Cannot apply * operator to non-numeric values
+   * 
+   * @param expr - ArithmeticExpression node
+   * @returns Computed number (or Date), or undefined if an operand is missing
+   * @throws Error on non-numeric operands or division by zero
+   */
+  private evalArithmeticExpression(expr: ArithmeticExpression): number | Date | undefined {
+    const left = this.evalValue(expr.left);
+    const right = this.evalValue(expr.right);
+
+    // Missing operand: propagate "missing" to the comparison
+    if (left === undefined || right === undefined) {
+      return undefined;
+    }
+
+    const leftNum = this.toNumber(left);
+    const rightNum = this.toNumber(right);
+
+    // Date arithmetic: shift by a duration or measure the gap between dates
+    const leftTime = this.toTimestamp(left);
+    const rightTime = this.toTimestamp(right);
+    if (leftTime !== null && rightNum !== null) {
+      if (expr.operator.type === TokenType.PLUS) return new Date(leftTime + rightNum);
+      if (expr.operator.type === TokenType.MINUS) return new Date(leftTime - rightNum);
+    }
+    if (leftNum !== null && rightTime !== null && expr.operator.type === TokenType.PLUS) {
+      return new Date(leftNum + rightTime);
+    }
+    if (leftTime !== null && rightTime !== null && expr.operator.type === TokenType.MINUS) {
+      return leftTime - rightTime;
+    }
+
+    if (leftNum === null || rightNum === null) {
+      throw new Error(`Cannot apply ${expr.operator.literal} operator to non-numeric values`);
+    }
+
+    switch (expr.operator.type) {
+      case TokenType.PLUS:
+        return leftNum + rightNum;
+      case TokenType.MINUS:
+        return leftNum - rightNum;
+      case TokenType.ASTERISK:
+        return leftNum * rightNum;
+      case TokenType.SLASH:
+      case TokenType.PERCENT:
+        if (rightNum === 0) {
+          throw new Error(`Division by zero in "${printExpression(expr)}"`);
+        }
+        return expr.operator.type === TokenType.SLASH ? leftNum / rightNum : leftNum % rightNum;
+      default:
+        // Invalid operator (should never happen with valid AST)
+        throw new Error(`Unknown arithmetic operator: ${expr.operator.literal}`);
+    }
+  }
+
+  /**
+   * EVAL NEGATION
+   * Computes unary minus: -balance, -(income - expenses)
+   * 
+   * A missing operand makes the result missing; non-numeric operands are an error.
+   * (Negative number literals such as -100 are folded by the parser and never get here.)
+   * 
+   * @param expr - UnaryExpression with the - operator
+   * @returns Negated number, or undefined if the operand is missing
+   * @throws Error if the operand is not numeric
+   */
+  private evalNegation(expr: UnaryExpression): number | undefined {
+    const operand = this.evalValue(expr.operand);
+    if (operand === undefined) {
+      return undefined;
+    }
+    const value = this.toNumber(operand);
+    if (value === null) {
+      throw new Error('Cannot apply - operator to a non-numeric value');
+    }
+    return -value;
+  }
+
+  /**
+   * EVAL CALL EXPRESSION
+   * Evaluates arguments and invokes the built-in function
+   * 
+   * Example with data { email: "Bob@Acme.com" }:
+   * - lower(email) → BUILTINS.lower(["Bob@Acme.com"]) → "bob@acme.com"
+   * 
+   * @param expr - CallExpression node
+   * @returns Function result (undefined if it depends on a missing field)
+   * @throws Error if the function is unknown or rejects its arguments
+   */
+  private evalCallExpression(expr: CallExpression): any {
+    const fn = Object.prototype.hasOwnProperty.call(BUILTINS, expr.name)
+      ? BUILTINS[expr.name]
+      : undefined;
+    if (!fn) {
+      // Parser rejects unknown functions (should never happen with valid AST)
+      throw new Error(`Unknown function: ${expr.name}`);
+    }
+    return fn(
+      expr.args.map((arg) => this.evalValue(arg)),
+      { now: this.clock }
+    );
+  }
+
+  /**
+   * EVAL AGGREGATE EXPRESSION
+   * Reduces an array field to a number
+   * 
+   * Process:
+   * 1. Locate the array along the field path (see locateArray); the rest of
+   *    the path is read from each element: items.price → items[i].price
+   * 2. Keep only elements satisfying the WHERE filter (if any)
+   * 3. Collect the values, skipping missing and null ones
+   * 4. COUNT → number of values; SUM/MIN/MAX/AVG require numeric values
+   * 
+   * Empty semantics (no values after filtering), reported as a clause note:
+   * - SUM, COUNT → 0
+   * - MIN, MAX, AVG → missing, so the enclosing comparison is false
+   * 
+   * Examples with data { items: [{ price: 120, qty: 1 }, { price: 80, qty: 3 }] }:
+   * - SUM(items.price) → 200
+   * - COUNT(items WHERE qty > 1) → 1
+   * - AVG(items.price WHERE price > 500) → undefined (note: no values)
+   * 
+   * @param expr - AggregateExpression node
+   * @returns Computed number, or undefined if the array is missing or has no values
+   * @throws Error if the field is not an array or a value is not numeric
+   */
+  private evalAggregateExpression(expr: AggregateExpression): number | undefined {
+    const located = this.locateArray(expr);
+    if (located === undefined) {
+      return undefined;
+    }
+
+    // Filter elements, then read the sub-field of each remaining element
+    const filter = expr.filter;
+    const selected = filter
+      ? located.elements.filter((element) => this.evalInScope(element, filter))
+      : located.elements;
+    const values = selected
+      .map((element) => this.resolvePath(located.rest, element))
+      .filter((value) => value !== undefined && value !== null);
+
+    if (values.length === 0) {
+      const empty = expr.name === 'SUM' || expr.name === 'COUNT' ? 0 : undefined;
+      this.notes.push(
+        `${printExpression(expr)} has no values, so it is ${empty === 0 ? '0' : 'missing'}`
+      );
+      return empty;
+    }
+    if (expr.name === 'COUNT') {
+      return values.length;
+    }
+
+    const numbers = values.map((value) => {
+      if (typeof value !== 'number' || isNaN(value)) {
+        throw new Error(`${expr.name}() expects numeric values but found ${JSON.stringify(value)} in ${expr.field.value}`);
+      }
+      return value;
+    });
+    switch (expr.name) {
+      case 'SUM':
+        return numbers.reduce((total, value) => total + value, 0);
+      case 'MIN':
+        return numbers.reduce((min, value) => Math.min(min, value));
+      case 'MAX':
+        return numbers.reduce((max, value) => Math.max(max, value));
+      case 'AVG':
+        return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+      default:
+        // Invalid aggregate (should never happen with valid AST)
+        throw new Error(`Unknown aggregate function: ${expr.name}`);
+    }
+  }
+
+  /**
+   * LOCATE ARRAY
+   * Splits an aggregate's field path at the first array it reaches
+   * 
+   * Walks the path from the data root. The first array that is not followed
+   * by a numeric index is the collection; the remaining segments are read
+   * from each of its elements.
+   * 
+   * Examples with data { items: [...], orders: [{ lines: [...] }] }:
+   * - items → elements: items, rest: []
+   * - items.price → elements: items, rest: ["price"]
+   * - orders[0].lines.qty → elements: orders[0].lines, rest: ["qty"]
+   * 
+   * @param expr - AggregateExpression whose field path to walk
+   * @returns The array and remaining path, or undefined if a step is missing
+   * @throws Error if the path never reaches an array
+   */
+  private locateArray(
+    expr: AggregateExpression
+  ): { elements: any[]; rest: PathSegment[] } | undefined {
+    const path = expr.field.path;
+    let current: any = this.data;
+    for (let i = 0; i <= path.length; i++) {
+      if (Array.isArray(current) && typeof path[i] !== 'number') {
+        return { elements: current, rest: path.slice(i) };
+      }
+      if (i === path.length) {
+        break;
+      }
+      current = this.resolvePath([path[i]], current);
+      if (current === undefined) {
+        return undefined;
+      }
+    }
+    throw new Error(`${expr.name}() requires an array field: ${expr.field.value}`);
+  }
+
+  /**
+   * RESOLVE PATH
+   * Walks a field path through the data object
+   * 
+   * Safety rules (any violation resolves to undefined = missing field):
+   * - Cannot step into null or primitive values
+   * - String segments only read own properties of plain objects
+   *   (never inherited ones like "constructor" or "toString")
+   * - Number segments only index into arrays
+   * 
+   * Examples with data { user: { address: { country: "US" } }, orders: [{ total: 5 }] }:
+   * - ["user", "address", "country"] → "US"
+   * - ["orders", 0, "total"] → 5
+   * - ["orders", 3, "total"] → undefined (index out of range)
+   * - ["user", "phone", "number"] → undefined (missing intermediate object)
+   * 
+   * @param path - Segments from the Identifier node
+   * @param root - Object to start from (defaults to the current data scope)
+   * @returns The resolved value, or undefined if any step is missing
+   */
+  private resolvePath(path: PathSegment[], root: any = this.data): any {
+    let current: any = root;
+    for (const segment of path) {
+      if (current === null || typeof current !== 'object') {
+        return undefined;
+      }
+      if (typeof segment === 'number') {
+        if (!Array.isArray(current)) return undefined;
+      } else if (Array.isArray(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+        return undefined;
+      }
+      current = current[segment];
+    }
+    return current;
+  }
+
   /**
    * COMPARE
    * Routes comparison to appropriate operator handler
@@ -263,24 +861,56 @@ export class Evaluator {
    * Supported Operators:
    * - = (EQUAL): Equality with type coercion
    * - != (NOT_EQUAL): Inequality with type coercion
-   * - > (GREATER): Numeric greater than
-   * - < (LESS): Numeric less than
-   * - >= (GREATER_EQUAL): Numeric greater than or equal
-   * - <= (LESS_EQUAL): Numeric less than or equal
+   * - > (GREATER): Numeric (or chronological) greater than
+   * - < (LESS): Numeric (or chronological) less than
+   * - >= (GREATER_EQUAL): Numeric (or chronological) greater than or equal
+   * - <= (LESS_EQUAL): Numeric (or chronological) less than or equal
+   * - IN: Value equals at least one list element
+   * - NOT IN: Value equals none of the list elements
+   * - CONTAINS / ICONTAINS: Substring check, or element check for array values
+   * - STARTS_WITH / ISTARTS_WITH: Prefix check
+   * - ENDS_WITH / IENDS_WITH: Suffix check
+   * - LIKE / ILIKE: SQL-style pattern (% = any run of characters, _ = one character)
+   * The I-prefixed variants ignore case
+   * - MATCHES: Regular expression test (pattern compiled at parse time)
+   * 
+   * Booleans and null:
+   * - Only = and != are allowed (true = true, manager = null)
+   * - Ordering operators (>, <, >=, <=) throw a descriptive error
    * 
    * Examples:
    * - compare(25, GREATER, 18) → true
    * - compare("active", EQUAL, "active") → true
    * - compare(3.14, EQUAL, "3.14") → true (type coercion)
    * - compare(50, GREATER_EQUAL, 50) → true
+   * - compare("2023-06-01", LESS, "2024-01-01") → true (chronological)
+   * - compare(true, EQUAL, true) → true
+   * - compare(null, NOT_EQUAL, null) → false
+   * - compare(true, GREATER, false) → Error
+   * - compare("CA", IN, ["US", "CA"]) → true
+   * - compare("FR", NOT_IN, ["US", "CA"]) → true
+   * - compare("bob@acme.com", ENDS_WITH, "@acme.com") → true
+   * - compare("AB-123", LIKE, "AB-%") → true
+   * - compare("John", ICONTAINS, "JO") → true
+   * - compare("+15551234567", MATCHES, /^\+1[0-9]{10}$/) → true
    * 
    * @param left - Actual value from data
    * @param operator - Comparison operator type
    * @param right - Expected value from rule
    * @returns Boolean result of comparison
-   * @throws Error if operator is not recognized
+   * @throws Error if operator is not recognized or values cannot be ordered
    */
   private compare(left: any, operator: TokenType, right: any): boolean {
+    // Booleans and null only support equality checks
+    const isOrdering =
+      operator === TokenType.GREATER ||
+      operator === TokenType.LESS ||
+      operator === TokenType.GREATER_EQUAL ||
+      operator === TokenType.LESS_EQUAL;
+    if (isOrdering && (this.isBooleanOrNull(left) || this.isBooleanOrNull(right))) {
+      throw new Error(`Cannot compare boolean or null values with ${operator} operator`);
+    }
+
     switch (operator) {
       case TokenType.EQUAL:
         // Equality with type coercion (e.g., 3 == "3")
@@ -300,6 +930,34 @@ export class Evaluator {
       case TokenType.LESS_EQUAL:
         // Numeric comparison: left <= right (less OR equal)
         return this.lessThan(left, right) || this.equals(left, right);
+      case TokenType.IN:
+        // Membership: left equals any list element
+        return this.contains(right, left);
+      case TokenType.NOT_IN:
+        // Negated membership: left equals no list element
+        return !this.contains(right, left);
+      case TokenType.CONTAINS:
+      case TokenType.ICONTAINS:
+        // Substring check (or element check when the data value is an array)
+        return this.containsValue(left, right, operator === TokenType.ICONTAINS);
+      case TokenType.STARTS_WITH:
+      case TokenType.ISTARTS_WITH: {
+        const [text, prefix] = this.stringOperands(left, right, operator);
+        return text.startsWith(prefix);
+      }
+      case TokenType.ENDS_WITH:
+      case TokenType.IENDS_WITH: {
+        const [text, suffix] = this.stringOperands(left, right, operator);
+        return text.endsWith(suffix);
+      }
+      case TokenType.LIKE:
+      case TokenType.ILIKE: {
+        const [text, pattern] = this.stringOperands(left, right, operator);
+        return this.likeToRegExp(pattern).test(text);
+      }
+      case TokenType.MATCHES:
+        // Regular expression test against the compiled pattern
+        return this.matches(left, right);
       default:
         // Invalid operator (should never happen with valid AST)
         throw new Error(`Unknown comparison operator: ${operator}`);
@@ -312,16 +970,23 @@ export class Evaluator {
    * 
    * Comparison Strategy:
    * 1. Strict equality check (===)
-   * 2. Numeric coercion (3 == "3" → true)
-   * 3. String comparison (case-sensitive)
-   * 4. Default to false if types incompatible
+   * 2. Null only equals null
+   * 3. Booleans only equal booleans
+   * 4. Numeric coercion (3 == "3" → true)
+   * 5. Chronological comparison when both are dates (Date or ISO-8601 string)
+   * 6. String comparison (case-sensitive)
+   * 7. Default to false if types incompatible
    * 
    * Examples:
    * - equals(25, 25) → true (strict equality)
    * - equals(3.14, "3.14") → true (numeric coercion)
    * - equals("active", "active") → true (string equality)
+   * - equals(true, true) → true (boolean equality)
    * - equals(true, "true") → false (no boolean coercion)
+   * - equals(null, null) → true (null equality)
+   * - equals(null, 0) → false (null never equals a non-null value)
    * - equals(null, undefined) → false (different types)
+   * - equals("2024-01-01", "2024-01-01T00:00:00Z") → true (same instant)
    * 
    * Type Coercion:
    * Allows flexible matching for numeric values received as strings
@@ -335,6 +1000,12 @@ export class Evaluator {
     // Fast path: strict equality (same value and type)
     if (left === right) return true;
 
+    // Null only equals null (handled by strict check above)
+    if (left === null || right === null) return false;
+
+    // Booleans only equal booleans (no coercion from 'true', 1, etc.)
+    if (typeof left === 'boolean' || typeof right === 'boolean') return false;
+
     // Numeric comparison with type coercion (e.g., 3 == "3")
     const leftNum = this.toNumber(left);
     const rightNum = this.toNumber(right);
@@ -342,6 +1013,13 @@ export class Evaluator {
       return leftNum === rightNum;
     }
 
+    // Chronological comparison (e.g., "2024-01-01" == "2024-01-01T00:00:00Z")
+    const leftTime = this.toTimestamp(left);
+    const rightTime = this.toTimestamp(right);
+    if (leftTime !== null && rightTime !== null) {
+      return leftTime === rightTime;
+    }
+
     // String comparison (case-sensitive)
     if (typeof left === 'string' && typeof right === 'string') {
       return left === right;
@@ -351,72 +1029,225 @@ export class Evaluator {
     return false;
   }
 
+  /**
+   * CONTAINS
+   * Checks list membership using the same equality rules as =
+   * 
+   * Examples:
+   * - contains(["US", "CA"], "CA") → true
+   * - contains([1, 2, 3], 2) → true
+   * - contains([true], "true") → false (no boolean coercion)
+   * 
+   * @param list - Expected values from the rule's list literal
+   * @param value - Actual value from data
+   * @returns true if any list element equals value
+   * @throws Error if list is not an array (should never happen with valid AST)
+   */
+  private contains(list: any, value: any): boolean {
+    if (!Array.isArray(list)) {
+      throw new Error('IN operator requires a list of values');
+    }
+    return list.some((element) => this.equals(value, element));
+  }
+
+  /**
+   * CONTAINS VALUE
+   * Implements CONTAINS / ICONTAINS
+   * 
+   * - String data: substring check (tags CONTAINS 'vip' on "vip,beta" → true)
+   * - Array data: element check using = semantics (tags CONTAINS 'vip' on ["vip"] → true)
+   * 
+   * @param left - Actual value from data (string or array)
+   * @param right - Expected value from rule
+   * @param ignoreCase - true for ICONTAINS
+   * @returns true if left contains right
+   * @throws Error if left is neither string nor array, or right is not a string for string data
+   */
+  private containsValue(left: any, right: any, ignoreCase: boolean): boolean {
+    if (Array.isArray(left)) {
+      return left.some((element) =>
+        ignoreCase && typeof element === 'string' && typeof right === 'string'
+          ? element.toLowerCase() === right.toLowerCase()
+          : this.equals(element, right)
+      );
+    }
+    const [text, search] = this.stringOperands(
+      left,
+      right,
+      ignoreCase ? TokenType.ICONTAINS : TokenType.CONTAINS
+    );
+    return text.includes(search);
+  }
+
+  /**
+   * STRING OPERANDS
+   * Validates operands of string matching operators
+   * Lower-cases both for the case-insensitive (I-prefixed) variants
+   * 
+   * Examples:
+   * - stringOperands("Bob", "bo", ISTARTS_WITH) → ["bob", "bo"]
+   * - stringOperands(42, "4", STARTS_WITH) → Error (non-string)
+   * 
+   * @param left - Actual value from data (must be string)
+   * @param right - Expected value from rule (must be string)
+   * @param operator - Operator being applied (used for case handling and errors)
+   * @returns Tuple of [text, search] ready for comparison
+   * @throws Error if either value is not a string
+   */
+  private stringOperands(left: any, right: any, operator: TokenType): [string, string] {
+    if (typeof left !== 'string' || typeof right !== 'string') {
+      throw new Error(`Cannot apply ${operator} operator to non-string values`);
+    }
+    const ignoreCase =
+      operator === TokenType.ICONTAINS ||
+      operator === TokenType.ISTARTS_WITH ||
+      operator === TokenType.IENDS_WITH ||
+      operator === TokenType.ILIKE;
+    return ignoreCase ? [left.toLowerCase(), right.toLowerCase()] : [left, right];
+  }
+
+  /**
+   * LIKE TO REGEXP
+   * Converts an SQL LIKE pattern into an anchored regular expression
+   * 
+   * Pattern syntax:
+   * - % matches any run of characters (including none)
+   * - _ matches exactly one character
+   * - \% and \_ match a literal percent sign / underscore
+   * - Everything else matches literally (regex metacharacters are escaped)
+   * 
+   * Examples:
+   * - "AB-%" → /^AB-.*$/s
+   * - "user_?" → /^user.\?$/s
+   * 
+   * @param pattern - LIKE pattern from the rule
+   * @returns Compiled regular expression matching the whole string
+   */
+  private likeToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const ch = pattern[i];
+      if (ch === '\\' && (pattern[i + 1] === '%' || pattern[i + 1] === '_')) {
+        source += pattern[++i];
+      } else if (ch === '%') {
+        source += '.*';
+      } else if (ch === '_') {
+        source += '.';
+      } else {
+        source += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`, 's');
+  }
+
+  /**
+   * MATCHES
+   * Tests a string against a regular expression compiled by the parser
+   * 
+   * Inputs longer than MAX_MATCH_INPUT_LENGTH are rejected so that even an
+   * allowed-but-slow pattern cannot stall the service on a huge payload value.
+   * 
+   * Examples:
+   * - matches("+15551234567", /^\+1[0-9]{10}$/) → true
+   * - matches(5551234567, /.../) → Error (non-string)
+   * 
+   * @param left - Actual value from data (must be string)
+   * @param regex - Compiled pattern from the RegexLiteral node
+   * @returns true if the pattern matches
+   * @throws Error if left is not a string or exceeds the input length limit
+   */
+  private matches(left: any, regex: RegExp): boolean {
+    if (typeof left !== 'string') {
+      throw new Error('Cannot apply MATCHES operator to non-string values');
+    }
+    if (left.length > MAX_MATCH_INPUT_LENGTH) {
+      throw new Error(
+        `Cannot apply MATCHES operator to strings longer than ${MAX_MATCH_INPUT_LENGTH} characters`
+      );
+    }
+    return regex.test(left);
+  }
+
   /**
    * GREATER THAN
-   * Performs numeric greater than comparison
+   * Performs numeric (or chronological) greater than comparison
    * 
    * Process:
-   * 1. Convert both values to numbers
-   * 2. Validate both conversions succeeded
-   * 3. Perform numeric comparison
+   * 1. Convert both values to numbers and compare if both are numeric
+   * 2. Otherwise convert both to timestamps and compare if both are dates
+   * 3. Otherwise fail
    * 
    * Examples:
    * - greaterThan(25, 18) → true
    * - greaterThan(3.14, 3) → true
    * - greaterThan(10, 10) → false (equal, not greater)
+   * - greaterThan("2024-03-01", "2024-01-01") → true (chronological)
    * - greaterThan("hello", 5) → Error (non-numeric)
    * 
-   * @param left - Actual value from data (must be numeric)
-   * @param right - Expected value from rule (must be numeric)
+   * @param left - Actual value from data (numeric or date)
+   * @param right - Expected value from rule (numeric or date)
    * @returns true if left > right, false otherwise
-   * @throws Error if either value cannot be converted to number
+   * @throws Error if the values are neither both numeric nor both dates
    */
   private greaterThan(left: any, right: any): boolean {
     // Attempt numeric conversion
     const leftNum = this.toNumber(left);
     const rightNum = this.toNumber(right);
 
-    // Validate both are numeric
-    if (leftNum === null || rightNum === null) {
-      throw new Error('Cannot compare non-numeric values with > operator');
+    // Numeric comparison
+    if (leftNum !== null && rightNum !== null) {
+      return leftNum > rightNum;
+    }
+
+    // Chronological comparison (Date values or ISO-8601 strings)
+    const leftTime = this.toTimestamp(left);
+    const rightTime = this.toTimestamp(right);
+    if (leftTime !== null && rightTime !== null) {
+      return leftTime > rightTime;
     }
 
-    // Perform numeric comparison
-    return leftNum > rightNum;
+    throw new Error('Cannot compare non-numeric, non-date values with > operator');
   }
 
   /**
    * LESS THAN
-   * Performs numeric less than comparison
+   * Performs numeric (or chronological) less than comparison
    * 
    * Process:
-   * 1. Convert both values to numbers
-   * 2. Validate both conversions succeeded
-   * 3. Perform numeric comparison
+   * 1. Convert both values to numbers and compare if both are numeric
+   * 2. Otherwise convert both to timestamps and compare if both are dates
+   * 3. Otherwise fail
    * 
    * Examples:
    * - lessThan(18, 25) → true
    * - lessThan(3, 3.14) → true
    * - lessThan(10, 10) → false (equal, not less)
+   * - lessThan("2023-12-31", "2024-01-01") → true (chronological)
    * - lessThan(5, "hello") → Error (non-numeric)
    * 
-   * @param left - Actual value from data (must be numeric)
-   * @param right - Expected value from rule (must be numeric)
+   * @param left - Actual value from data (numeric or date)
+   * @param right - Expected value from rule (numeric or date)
    * @returns true if left < right, false otherwise
-   * @throws Error if either value cannot be converted to number
+   * @throws Error if the values are neither both numeric nor both dates
    */
   private lessThan(left: any, right: any): boolean {
     // Attempt numeric conversion
     const leftNum = this.toNumber(left);
     const rightNum = this.toNumber(right);
 
-    // Validate both are numeric
-    if (leftNum === null || rightNum === null) {
-      throw new Error('Cannot compare non-numeric values with < operator');
+    // Numeric comparison
+    if (leftNum !== null && rightNum !== null) {
+      return leftNum < rightNum;
+    }
+
+    // Chronological comparison (Date values or ISO-8601 strings)
+    const leftTime = this.toTimestamp(left);
+    const rightTime = this.toTimestamp(right);
+    if (leftTime !== null && rightTime !== null) {
+      return leftTime < rightTime;
     }
 
-    // Perform numeric comparison
-    return leftNum < rightNum;
+    throw new Error('Cannot compare non-numeric, non-date values with < operator');
   }
 
   /**
@@ -454,6 +1285,41 @@ export class Evaluator {
     return null;
   }
 
+  /**
+   * TO TIMESTAMP
+   * Converts a date value to milliseconds since the epoch, or null
+   * 
+   * Conversion Rules:
+   * - Valid Date objects (from now() or date arithmetic) → getTime()
+   * - ISO-8601 strings ("2024-01-01", "2024-01-01T09:30:00Z") → parsed time
+   * - Everything else (numbers, other strings, ...) → null
+   * 
+   * @param val - Value to convert
+   * @returns Timestamp in milliseconds if val is a date, null otherwise
+   */
+  private toTimestamp(val: any): number | null {
+    if (val instanceof Date) {
+      return isNaN(val.getTime()) ? null : val.getTime();
+    }
+    if (typeof val === 'string') {
+      const date = parseIsoDate(val);
+      return date ? date.getTime() : null;
+    }
+    return null;
+  }
+
+  /**
+   * IS BOOLEAN OR NULL
+   * Checks whether a value is a boolean or null
+   * Used to reject ordering comparisons (>, <, >=, <=) on these types
+   * 
+   * @param val - Value to check
+   * @returns true if val is true, false or null
+   */
+  private isBooleanOrNull(val: any): boolean {
+    return val === null || typeof val === 'boolean';
+  }
+
   /**
    * ADD DETAIL
    * Records evaluation result for a specific clause
@@ -468,7 +1334,8 @@ export class Evaluator {
    * Details accumulated:
    * [
    *   { clause: "age > 18", result: true },
-   *   { clause: "status = 'active'", result: true }
+   *   { clause: "status = 'active'", result: true },
+   *   { clause: "age > 18 AND status = 'active'", result: true }
    * ]
    * 
    * Use Cases:
@@ -476,62 +1343,23 @@ export class Evaluator {
    * - Audit trails (track evaluation history)
    * - UI display (show clause-by-clause breakdown)
    * 
-   * @param clause - Human-readable clause string (e.g., "age > 18")
+   * @param expr - Clause node (printed in canonical form, e.g. "age > 18", and located by its span)
    * @param result - Boolean result of clause evaluation
-   */
-  private addDetail(clause: string, result: boolean): void {
-    this.details.push({ clause, result });
-  }
-
-  /**
-   * FORMAT CLAUSE
-   * Converts BinaryExpression AST node back to human-readable string
+   * @param extra - Additional detail fields (e.g., resolved comparison values)
    * 
-   * Format: "<field> <operator> <value>"
-   * 
-   * Process:
-   * 1. Extract field name from left side (Identifier)
-   * 2. Extract operator symbol (=, !=, >, <, >=, <=)
-   * 3. Extract and format value from right side:
-   *    - NumberLiteral: Use original token literal (preserves format)
-   *    - StringLiteral: Wrap in single quotes
-   * 4. Combine into readable string
-   * 
-   * Examples:
-   * BinaryExpression(Identifier("age"), ">", NumberLiteral(18))
-   * → "age > 18"
-   * 
-   * BinaryExpression(Identifier("status"), "=", StringLiteral("active"))
-   * → "status = 'active'"
-   * 
-   * BinaryExpression(Identifier("score"), ">=", NumberLiteral(85.5))
-   * → "score >= 85.5"
-   * 
-   * Purpose:
-   * Used in details array to show original rule syntax for each clause.
-   * Helps users correlate evaluation results back to original rule.
-   * 
-   * @param expr - BinaryExpression AST node
-   * @returns Human-readable clause string
+   * Pending notes (e.g., "AVG(items.price) has no values") are attached here.
    */
-  private formatClause(expr: BinaryExpression): string {
-    // Extract field name (left side)
-    const left = expr.left instanceof Identifier ? expr.left.value : '';
-    
-    // Extract operator symbol
-    const operator = expr.operator.literal;
-    
-    // Extract and format value (right side)
-    let right = '';
-    if (expr.right instanceof NumberLiteral) {
-      // Use original token literal (preserves decimal format)
-      right = expr.right.token.literal;
-    } else if (expr.right instanceof StringLiteral) {
-      // Wrap string value in quotes
-      right = `'${expr.right.value}'`;
-    }
-
-    // Combine into readable format: "field operator value"
-    return `${left} ${operator} ${right}`;
+  private addDetail(
+    expr: Expression,
+    result: boolean,
+    extra: Omit<ClauseDetails, 'clause' | 'result' | 'span'> = {}
+  ): void {
+    // Attach notes collected while computing this clause's values
+    if (this.notes.length > 0) {
+      extra = { ...extra, notes: this.notes };
+      this.notes = [];
+    }
+    const span = expr.span ? { span: { ...expr.span } } : {};
+    this.details.push({ clause: printExpression(expr), result, ...span, ...extra });
   }
 }
@@ -0,0 +1,624 @@
+/**
+ * OPTIMIZER: Simplifies a rule's AST before it is cached for evaluation
+ * 
+ * Generated rules often carry redundant or impossible logic. The optimizer
+ * rewrites the AST into a smaller equivalent one and reports what it found:
+ * 
+ * - Constant folding: "price > 10 * 2" → "price > 20"; "1 = 1" is always true
+ * - Flattening: "a AND (b AND c)" → one chain "a AND b AND c"
+ * - Redundant ranges: "age > 5 AND age > 10" → "age > 10",
+ *   "age > 5 OR age > 10" → "age > 5"
+ * - Repeated clauses: "a = 1 AND a = 1" → "a = 1"
+ * - Constant clauses: "x AND 1 = 1" → "x", "x OR 1 = 2" → "x"
+ * - Contradictions: "age > 30 AND age < 20" is always false
+ * 
+ * The optimized AST gives the same result as the original for all data.
+ * Missing fields are taken into account: a missing field fails every
+ * comparison, so "age > 5 OR age <= 5" is not always true and is left alone.
+ * (Dropping a clause can only remove a runtime error, never add one.)
+ * 
+ * Dropped clauses no longer appear in evaluation details; the remaining
+ * nodes keep their spans, so details still point into the stored expression.
+ */
+
+import { Token, TokenType } from '../domain/token';
+import {
+  Expression,
+  BinaryExpression,
+  ArithmeticExpression,
+  BetweenExpression,
+  LogicalExpression,
+  UnaryExpression,
+  Identifier,
+  NumberLiteral,
+  StringLiteral,
+  DateLiteral,
+  DurationLiteral,
+  BooleanLiteral,
+  NullLiteral,
+  ListLiteral,
+  RegexLiteral,
+} from '../domain/ast';
+import { ExpressionTransformer } from '../domain/visitor';
+import { quotePath } from '../domain/strings';
+import { printExpression } from '../parser/printer';
+import { Evaluator } from './evaluator';
+
+/**
+ * OPTIMIZATION RESULT
+ * Output of optimizeExpression()
+ */
+export interface OptimizationResult {
+  /** Optimized AST (the input itself if nothing could be simplified) */
+  ast: Expression;
+
+  /** What was simplified or detected, e.g. 'Clause "age > 5" is redundant ...' */
+  warnings: string[];
+}
+
+/**
+ * BOUND
+ * What a comparison with a literal says about a field
+ * 
+ * Examples:
+ * - age > 18 → { key: "age", kind: "lower", value: 18, inclusive: false }
+ * - 65 >= age → { key: "age", kind: "upper", value: 65, inclusive: true }
+ * - tier = 'pro' → { key: "tier", kind: "equal", value: "pro", inclusive: true }
+ */
+interface Bound {
+  /** Field path */
+  key: string;
+
+  kind: 'lower' | 'upper' | 'equal';
+
+  /** Literal compared with (ranges are numeric only) */
+  value: number | string | boolean;
+
+  /** Whether the value itself satisfies the bound (>= and <=) */
+  inclusive: boolean;
+}
+
+/**
+ * OPTIMIZE EXPRESSION
+ * Simplifies an AST and reports redundant, constant and impossible logic
+ * 
+ * Example: "age > 5 AND age > 10 AND country = 'US'"
+ * → ast: "age > 10 AND country = 'US'"
+ * → warnings: ['Clause "age > 5" is redundant because of "age > 10" at position 0']
+ * 
+ * Example: "age > 30 AND age < 20"
+ * → warnings: [
+ *   'Clauses "age > 30" and "age < 20" contradict each other at position 0',
+ *   'Expression is always false, so the rule never matches'
+ * ]
+ * 
+ * @param expr - Root node of a parsed AST (left unchanged)
+ * @returns Optimized AST and warnings
+ */
+export function optimizeExpression(expr: Expression): OptimizationResult {
+  const optimizer = new Optimizer();
+  const ast = optimizer.transform(expr);
+  const warnings = optimizer.getWarnings();
+
+  const constant = optimizer.constantOf(ast);
+  if (constant === false) {
+    warnings.push('Expression is always false, so the rule never matches');
+  } else if (constant === true) {
+    warnings.push('Expression is always true, so the rule matches any data');
+  }
+  return { ast, warnings };
+}
+
+/**
+ * OPTIMIZER
+ * Transformer doing the rewrites described above, bottom-up
+ */
+class Optimizer extends ExpressionTransformer {
+  private warnings: string[] = [];
+
+  /**
+   * Conditions known to always give the same result
+   * (literal-only comparisons and chains decided by them or by a contradiction)
+   */
+  private constants = new Map<Expression, boolean>();
+
+  /**
+   * GET WARNINGS
+   * @returns Warnings collected so far, in the order found
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * CONSTANT OF
+   * @param expr - Optimized node
+   * @returns The node's fixed result, or undefined if it depends on the data
+   */
+  constantOf(expr: Expression): boolean | undefined {
+    return this.constants.get(expr);
+  }
+
+  visitArithmeticExpression(node: ArithmeticExpression): Expression {
+    const expr = super.visitArithmeticExpression(node);
+    if (!(expr instanceof ArithmeticExpression)) {
+      return expr;
+    }
+    const left = this.numberOf(expr.left);
+    const right = this.numberOf(expr.right);
+    if (left === undefined || right === undefined) {
+      return expr;
+    }
+    // Division by zero stays in the AST so evaluation reports it
+    if (right === 0 && (expr.operator.type === TokenType.SLASH || expr.operator.type === TokenType.PERCENT)) {
+      return expr;
+    }
+
+    let value: number;
+    switch (expr.operator.type) {
+      case TokenType.PLUS:
+        value = left + right;
+        break;
+      case TokenType.MINUS:
+        value = left - right;
+        break;
+      case TokenType.ASTERISK:
+        value = left * right;
+        break;
+      case TokenType.SLASH:
+        value = left / right;
+        break;
+      case TokenType.PERCENT:
+        value = left % right;
+        break;
+      default:
+        return expr;
+    }
+    return this.number(expr, value);
+  }
+
+  visitUnaryExpression(node: UnaryExpression): Expression {
+    const expr = super.visitUnaryExpression(node);
+    if (!(expr instanceof UnaryExpression)) {
+      return expr;
+    }
+
+    if (expr.operator.type === TokenType.MINUS) {
+      const value = this.numberOf(expr.operand);
+      return value === undefined ? expr : this.number(expr, -value);
+    }
+
+    // NOT NOT x → x
+    if (expr.operand instanceof UnaryExpression && expr.operand.operator.type === TokenType.NOT) {
+      return expr.operand.operand;
+    }
+    const constant = this.constants.get(expr.operand);
+    if (constant !== undefined) {
+      this.constants.set(expr, !constant);
+    }
+    return expr;
+  }
+
+  visitBinaryExpression(node: BinaryExpression): Expression {
+    const expr = super.visitBinaryExpression(node) as BinaryExpression;
+    return this.foldComparison(expr, [expr.left, expr.right]);
+  }
+
+  visitBetweenExpression(node: BetweenExpression): Expression {
+    const expr = super.visitBetweenExpression(node) as BetweenExpression;
+    // An empty range on its own: age BETWEEN 65 AND 18
+    if (this.contradicts([expr])) {
+      this.constants.set(expr, false);
+      return expr;
+    }
+    return this.foldComparison(expr, [expr.value, expr.low, expr.high]);
+  }
+
+  /**
+   * VISIT LOGICAL EXPRESSION
+   * Simplifies a whole AND/OR chain at once
+   * 
+   * Process:
+   * 1. Flatten the chain: "a AND (b AND c)" → [a, b, c], optimizing each operand
+   * 2. Constants: one false operand decides an AND (true decides an OR);
+   *    true operands are dropped from an AND (false ones from an OR)
+   * 3. Drop repeated and redundant clauses; detect contradictions (AND)
+   * 4. Rebuild a left-to-right chain from what is left
+   * 
+   * @param node - Root of the chain
+   * @returns Simplified chain, or the single operand left
+   */
+  visitLogicalExpression(node: LogicalExpression): Expression {
+    const operator = node.operator.type;
+    const original = this.operandsOf(node, operator);
+    // An operand may simplify into a chain of the same operator: flatten again
+    let operands = original
+      .map((operand) => this.transform(operand))
+      .flatMap((operand) => this.operandsOf(operand, operator));
+
+    // A constant equal to the absorbing value decides the whole chain
+    const absorbing = operator === TokenType.OR;
+    const decisive = operands.find((operand) => this.constants.get(operand) === absorbing);
+    if (decisive) {
+      return decisive;
+    }
+    const variable = operands.filter((operand) => this.constants.get(operand) === undefined);
+    operands = variable.length > 0 ? variable : operands.slice(0, 1);
+
+    operands = this.dropRepeated(operands);
+    operands = this.dropRedundant(operands, operator);
+
+    const unchanged =
+      operands.length === original.length &&
+      operands.every((operand, index) => operand === original[index]) &&
+      this.isLeftToRight(node, operator);
+    const result = unchanged ? node : this.chain(operands, node.operator);
+
+    if (operator === TokenType.AND && this.contradicts(operands)) {
+      this.constants.set(result, false);
+    } else if (operands.length === 1 && this.constants.has(operands[0])) {
+      this.constants.set(result, this.constants.get(operands[0]) as boolean);
+    }
+    return result;
+  }
+
+  /**
+   * FOLD COMPARISON
+   * Decides a comparison whose operands are all literals
+   * 
+   * Uses the evaluator itself, so the outcome matches evaluation exactly.
+   * Comparisons that would fail at runtime ('a' > 1) are left undecided.
+   * 
+   * @param expr - Optimized comparison node
+   * @param operands - Its operands
+   * @returns The same node, recorded as constant if it could be decided
+   */
+  private foldComparison(expr: Expression, operands: Expression[]): Expression {
+    if (!operands.every((operand) => this.isLiteral(operand))) {
+      return expr;
+    }
+    try {
+      const { result } = new Evaluator({}).evaluate(expr);
+      this.constants.set(expr, result);
+      this.warn(`Clause "${printExpression(expr)}" is always ${result}`, expr);
+    } catch {
+      // Left for evaluation to report
+    }
+    return expr;
+  }
+
+  /**
+   * DROP REPEATED
+   * Keeps the first of clauses that read the same ("a = 1 AND a = 1")
+   * 
+   * @param operands - Chain operands
+   * @returns Operands without repeats
+   */
+  private dropRepeated(operands: Expression[]): Expression[] {
+    const seen = new Set<string>();
+    return operands.filter((operand) => {
+      const text = printExpression(operand);
+      if (seen.has(text)) {
+        this.warn(`Clause "${text}" is repeated`, operand);
+        return false;
+      }
+      seen.add(text);
+      return true;
+    });
+  }
+
+  /**
+   * DROP REDUNDANT
+   * Removes range clauses implied by other clauses of the chain
+   * 
+   * - AND keeps the tightest bounds: "age > 5 AND age > 10" → "age > 10"
+   * - OR keeps the loosest bounds: "age > 5 OR age > 10" → "age > 5"
+   * 
+   * A clause is dropped from an AND when the other clauses together imply
+   * it, and from an OR when it implies another clause. Clauses are checked
+   * from last to first, so of two equivalent clauses the first is kept.
+   * 
+   * @param operands - Chain operands
+   * @param operator - AND or OR
+   * @returns Operands without redundant clauses
+   */
+  private dropRedundant(operands: Expression[], operator: TokenType): Expression[] {
+    const bounds = operands.map((operand) => this.boundsOf(operand));
+    const kept = operands.map(() => true);
+
+    for (let i = operands.length - 1; i >= 0; i--) {
+      const own = bounds[i];
+      if (own.length === 0) {
+        continue;
+      }
+      const others = operands.map((_, j) => j).filter((j) => j !== i && kept[j] && bounds[j].length > 0);
+
+      let cause: number | undefined;
+      if (operator === TokenType.AND) {
+        // Every bound of this clause follows from some other clause
+        const causes = own.map((bound) =>
+          others.find((j) => bounds[j].some((other) => this.implies(other, bound)))
+        );
+        cause = causes.every((j) => j !== undefined) ? causes[0] : undefined;
+      } else {
+        // This clause implies every bound of another clause
+        cause = others.find((j) => bounds[j].every((bound) => own.some((mine) => this.implies(mine, bound))));
+      }
+
+      if (cause !== undefined) {
+        kept[i] = false;
+        this.warn(
+          `Clause "${printExpression(operands[i])}" is redundant because of "${printExpression(operands[cause])}"`,
+          operands[i]
+        );
+      }
+    }
+    return operands.filter((_, i) => kept[i]);
+  }
+
+  /**
+   * CONTRADICTS
+   * Checks an AND chain for bounds that cannot hold together
+   * ("age > 30 AND age < 20", "tier = 'free' AND tier = 'pro'")
+   * 
+   * @param operands - AND chain operands
+   * @returns true (after warning) if the chain can never be true
+   */
+  private contradicts(operands: Expression[]): boolean {
+    const bounds = operands.flatMap((operand) =>
+      this.boundsOf(operand).map((bound) => ({ bound, operand }))
+    );
+    for (let i = 0; i < bounds.length; i++) {
+      for (let j = i + 1; j < bounds.length; j++) {
+        if (bounds[i].bound.key === bounds[j].bound.key && this.excludes(bounds[i].bound, bounds[j].bound)) {
+          const [first, second] = [bounds[i].operand, bounds[j].operand];
+          this.warn(
+            first === second
+              ? `Clause "${printExpression(first)}" can never be true`
+              : `Clauses "${printExpression(first)}" and "${printExpression(second)}" contradict each other`,
+            first
+          );
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * BOUNDS OF
+   * What a clause says about a single field, if it compares it with literals
+   * 
+   * Examples:
+   * - age > 18 → [lower 18 (exclusive)]
+   * - age BETWEEN 18 AND 65 → [lower 18, upper 65 (both inclusive)]
+   * - tier = 'pro' → [equal 'pro']
+   * - age > other → [] (not a literal)
+   * 
+   * Date literals are left out: different texts can name the same instant.
+   * 
+   * @param expr - Clause
+   * @returns Bounds (empty if the clause is not a simple comparison)
+   */
+  private boundsOf(expr: Expression): Bound[] {
+    if (expr instanceof BetweenExpression) {
+      const low = this.numberOf(expr.low);
+      const high = this.numberOf(expr.high);
+      if (expr.negated || !(expr.value instanceof Identifier) || low === undefined || high === undefined) {
+        return [];
+      }
+      const key = quotePath(expr.value.path);
+      return [
+        { key, kind: 'lower', value: low, inclusive: true },
+        { key, kind: 'upper', value: high, inclusive: true },
+      ];
+    }
+    if (!(expr instanceof BinaryExpression)) {
+      return [];
+    }
+
+    // Field on the left: age > 18; literal on the left is mirrored: 18 < age
+    const mirrored = !(expr.left instanceof Identifier);
+    const field = mirrored ? expr.right : expr.left;
+    const literal = mirrored ? expr.left : expr.right;
+    if (!(field instanceof Identifier)) {
+      return [];
+    }
+    const key = quotePath(field.path);
+
+    if (expr.operator.type === TokenType.EQUAL) {
+      const value =
+        literal instanceof StringLiteral && !(literal instanceof DateLiteral)
+          ? literal.value
+          : literal instanceof BooleanLiteral
+            ? literal.value
+            : this.numberOf(literal);
+      return value === undefined ? [] : [{ key, kind: 'equal', value, inclusive: true }];
+    }
+
+    const value = this.numberOf(literal);
+    if (value === undefined) {
+      return [];
+    }
+    const greater = expr.operator.type === TokenType.GREATER || expr.operator.type === TokenType.GREATER_EQUAL;
+    const less = expr.operator.type === TokenType.LESS || expr.operator.type === TokenType.LESS_EQUAL;
+    if (!greater && !less) {
+      return [];
+    }
+    const inclusive =
+      expr.operator.type === TokenType.GREATER_EQUAL || expr.operator.type === TokenType.LESS_EQUAL;
+    // "18 < age" bounds age from below, like "age > 18"
+    return [{ key, kind: greater !== mirrored ? 'lower' : 'upper', value, inclusive }];
+  }
+
+  /**
+   * IMPLIES
+   * Whether one bound guarantees another on the same field
+   * 
+   * Examples: age > 10 ⇒ age > 5, age = 7 ⇒ age >= 7, age >= 5 ⇏ age > 5
+   * 
+   * @param given - Bound known to hold
+   * @param bound - Bound to check
+   * @returns true if given guarantees bound
+   */
+  private implies(given: Bound, bound: Bound): boolean {
+    if (given.key !== bound.key) {
+      return false;
+    }
+    if (bound.kind === 'equal') {
+      return given.kind === 'equal' && given.value === bound.value;
+    }
+    if (typeof given.value !== 'number' || typeof bound.value !== 'number') {
+      return false;
+    }
+    if (given.kind !== 'equal' && given.kind !== bound.kind) {
+      return false;
+    }
+    // Compare in the bound's direction: larger is tighter for lower bounds
+    const sign = bound.kind === 'lower' ? 1 : -1;
+    const tighter = sign * (given.value - bound.value);
+    if (tighter !== 0) {
+      return tighter > 0;
+    }
+    return bound.inclusive || (given.kind !== 'equal' && !given.inclusive);
+  }
+
+  /**
+   * EXCLUDES
+   * Whether two bounds on the same field can never hold together
+   * 
+   * Examples: age > 30 vs age < 20, age = 5 vs age > 5, tier = 'a' vs tier = 'b'
+   * 
+   * @param a - First bound
+   * @param b - Second bound
+   * @returns true if no value satisfies both
+   */
+  private excludes(a: Bound, b: Bound): boolean {
+    if (a.kind === 'equal' && b.kind === 'equal') {
+      return a.value !== b.value;
+    }
+    if (typeof a.value !== 'number' || typeof b.value !== 'number') {
+      return false;
+    }
+    if (a.kind === 'equal' || b.kind === 'equal') {
+      const [value, bound] = a.kind === 'equal' ? [a, b] : [b, a];
+      return !this.implies(value, bound);
+    }
+    if (a.kind === b.kind) {
+      return false;
+    }
+    const [lower, upper] = a.kind === 'lower' ? [a, b] : [b, a];
+    return (
+      (lower.value as number) > (upper.value as number) ||
+      (lower.value === upper.value && !(lower.inclusive && upper.inclusive))
+    );
+  }
+
+  /**
+   * OPERANDS OF
+   * Flattens nested chains of one operator: (a AND b) AND (c AND d) → [a, b, c, d]
+   * 
+   * @param expr - Chain (or any other node, which is its own single operand)
+   * @param operator - AND or OR
+   * @returns Operands from left to right
+   */
+  private operandsOf(expr: Expression, operator: TokenType): Expression[] {
+    return expr instanceof LogicalExpression && expr.operator.type === operator
+      ? [...this.operandsOf(expr.left, operator), ...this.operandsOf(expr.right, operator)]
+      : [expr];
+  }
+
+  /**
+   * IS LEFT TO RIGHT
+   * Whether a chain already has the shape the parser gives "a AND b AND c"
+   * ((a AND b) AND c - no same-operator chain on the right)
+   * 
+   * @param expr - Chain root
+   * @param operator - AND or OR
+   * @returns true if no rebuild is needed
+   */
+  private isLeftToRight(expr: Expression, operator: TokenType): boolean {
+    for (let node = expr; node instanceof LogicalExpression && node.operator.type === operator; node = node.left) {
+      if (node.right instanceof LogicalExpression && node.right.operator.type === operator) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * CHAIN
+   * Builds a left-to-right chain from operands: [a, b, c] → (a AND b) AND c
+   * 
+   * @param operands - At least one operand
+   * @param operator - AND or OR token
+   * @returns Chain root (the operand itself if there is only one)
+   */
+  private chain(operands: Expression[], operator: Token): Expression {
+    return operands.reduce((left, right) => {
+      const expr: Expression = new LogicalExpression(left, operator, right);
+      if (left.span && right.span) {
+        expr.span = { start: left.span.start, end: right.span.end };
+      }
+      return expr;
+    });
+  }
+
+  /**
+   * NUMBER OF
+   * Numeric value of a number or duration literal
+   * 
+   * @param expr - Node
+   * @returns The number, or undefined for anything else
+   */
+  private numberOf(expr: Expression): number | undefined {
+    return expr instanceof NumberLiteral || expr instanceof DurationLiteral ? expr.value : undefined;
+  }
+
+  /**
+   * NUMBER
+   * Replaces a folded arithmetic node with its value
+   * 
+   * @param original - Node being folded (its span is kept)
+   * @param value - Computed value
+   * @returns Number literal, or the original node if the value is not finite
+   */
+  private number(original: Expression, value: number): Expression {
+    if (!isFinite(value)) {
+      return original;
+    }
+    const position = original.span?.start ?? 0;
+    const token: Token = { type: TokenType.NUMBER, literal: String(value), position };
+    return this.rebuilt(original, new NumberLiteral(token, value));
+  }
+
+  /**
+   * IS LITERAL
+   * Whether a node is a constant (list literals of constants included)
+   * 
+   * @param expr - Node
+   * @returns true for literals
+   */
+  private isLiteral(expr: Expression): boolean {
+    return (
+      expr instanceof NumberLiteral ||
+      expr instanceof StringLiteral ||
+      expr instanceof DurationLiteral ||
+      expr instanceof BooleanLiteral ||
+      expr instanceof NullLiteral ||
+      expr instanceof RegexLiteral ||
+      (expr instanceof ListLiteral && expr.elements.every((element) => this.isLiteral(element)))
+    );
+  }
+
+  /**
+   * WARN
+   * Records a finding at a node's position
+   * 
+   * @param message - Finding, without position
+   * @param expr - Node it is about
+   */
+  private warn(message: string, expr: Expression): void {
+    this.warnings.push(`${message} at position ${expr.span?.start ?? 0}`);
+  }
+}
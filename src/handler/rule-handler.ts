@@ -3,6 +3,7 @@
 import { Request, Response } from 'express';
 import { RuleService } from '../service/rule-service';
 import { Rule } from '../domain/rule';
+import { DiagnosticError } from '../domain/diagnostic';
 
 export class RuleHandler {
   constructor(private service: RuleService) {}
@@ -108,6 +109,101 @@ export class RuleHandler {
     }
   };
 
+  formatExpression = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { expression } = req.body;
+
+      if (!expression) {
+        res.status(400).json({
+          error: 'InvalidRequest',
+          message: "Field 'expression' is required",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        expression: this.service.formatExpression(expression),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  parseExpression = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { expression } = req.body;
+
+      if (!expression) {
+        res.status(400).json({
+          error: 'InvalidRequest',
+          message: "Field 'expression' is required",
+        });
+        return;
+      }
+
+      res.status(200).json(this.service.explainExpression(expression));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  lintExpression = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { expression, rules } = req.body;
+
+      if (!expression) {
+        res.status(400).json({
+          error: 'InvalidRequest',
+          message: "Field 'expression' is required",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        diagnostics: this.service.lintExpression(expression, rules),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getRuleAst = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const explanation = await this.service.getRuleAst(id);
+      res.status(200).json({ ruleId: id, ...explanation });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(this.service.getSchema());
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  setSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(this.service.setSchema(req.body));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  deleteSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      this.service.deleteSchema();
+      res.status(200).json({
+        message: 'Schema deleted successfully.',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
   private toRuleResponse(rule: Rule) {
     return {
       id: rule.id,
@@ -115,16 +211,34 @@ export class RuleHandler {
       description: rule.description,
       createdAt: rule.createdAt.toISOString(),
       updatedAt: rule.updatedAt.toISOString(),
+      warnings: rule.warnings,
     };
   }
 
   private handleError(error: unknown, res: Response): void {
     const message = error instanceof Error ? error.message : 'Unknown error';
 
-    if (message.includes('InvalidExpression') || message.includes('Parsing errors')) {
+    if (message.includes('LintViolation')) {
+      res.status(400).json({
+        error: 'LintViolation',
+        message,
+        diagnostics: error instanceof DiagnosticError ? error.diagnostics : undefined,
+      });
+    } else if (message.includes('InvalidExpression') || message.includes('Parsing errors')) {
       res.status(400).json({
         error: 'InvalidExpression',
         message,
+        diagnostics: error instanceof DiagnosticError ? error.diagnostics : undefined,
+      });
+    } else if (message.includes('Invalid schema')) {
+      res.status(400).json({
+        error: 'InvalidSchema',
+        message,
+      });
+    } else if (message.includes('Invalid lint config')) {
+      res.status(400).json({
+        error: 'InvalidLintConfig',
+        message,
       });
     } else if (message.includes('already exists')) {
       res.status(409).json({
@@ -136,6 +250,11 @@ export class RuleHandler {
         error: 'RuleNotFound',
         message,
       });
+    } else if (message.includes('No schema registered')) {
+      res.status(404).json({
+        error: 'SchemaNotFound',
+        message,
+      });
     } else {
       res.status(500).json({
         error: 'InternalError',
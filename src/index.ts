@@ -27,7 +27,10 @@ app.use((req, res, next) => {
 
 // Dependency Injection
 const repository = new MemoryRepository();
-const service = new RuleService(repository);
+const service = new RuleService(repository, {
+  normalizeExpressions: process.env.NORMALIZE_EXPRESSIONS === 'true',
+  enforceLint: process.env.ENFORCE_LINT === 'true',
+});
 const handler = new RuleHandler(service);
 
 // Health check endpoint
@@ -44,9 +47,16 @@ app.get('/health', (req, res) => {
 app.post('/rules', handler.createRule);
 app.get('/rules', handler.getAllRules);
 app.get('/rules/:id', handler.getRule);
+app.get('/rules/:id/ast', handler.getRuleAst);
 app.put('/rules/:id', handler.updateRule);
 app.delete('/rules/:id', handler.deleteRule);
 app.post('/rules/:id/evaluate', handler.evaluateRule);
+app.post('/expressions/format', handler.formatExpression);
+app.post('/expressions/parse', handler.parseExpression);
+app.post('/expressions/lint', handler.lintExpression);
+app.get('/schema', handler.getSchema);
+app.put('/schema', handler.setSchema);
+app.delete('/schema', handler.deleteSchema);
 
 // 404 handler
 app.use((req, res) => {
@@ -64,9 +74,16 @@ const server = app.listen(port, () => {
   console.log('   POST   /rules              - Create a new rule');
   console.log('   GET    /rules              - List all rules');
   console.log('   GET    /rules/:id          - Get a rule by ID');
+  console.log('   GET    /rules/:id/ast      - Show how a rule was parsed');
   console.log('   PUT    /rules/:id          - Update a rule');
   console.log('   DELETE /rules/:id          - Delete a rule');
   console.log('   POST   /rules/:id/evaluate - Evaluate data against a rule');
+  console.log('   POST   /expressions/format - Format an expression canonically');
+  console.log('   POST   /expressions/parse  - Show how an expression is parsed');
+  console.log('   POST   /expressions/lint   - Check an expression for common mistakes');
+  console.log('   GET    /schema             - Get the data schema');
+  console.log('   PUT    /schema             - Register the data schema');
+  console.log('   DELETE /schema             - Remove the data schema');
   console.log('');
   console.log(`Server listening on http://localhost:${port}`);
 });
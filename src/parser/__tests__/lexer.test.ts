@@ -0,0 +1,199 @@
+import { TokenType } from '../../domain/token';
+import { Lexer } from '../lexer';
+
+/** Every token of the input up to (not including) EOF, as [type, literal] pairs */
+function tokens(input: string): [TokenType, string][] {
+  const lexer = new Lexer(input);
+  const result: [TokenType, string][] = [];
+  for (let token = lexer.nextToken(); token.type !== TokenType.EOF; token = lexer.nextToken()) {
+    result.push([token.type, token.literal]);
+  }
+  return result;
+}
+
+describe('Lexer', () => {
+  it('reads NOT as a keyword', () => {
+    expect(tokens("NOT (status = 'banned')")).toEqual([
+      [TokenType.NOT, 'NOT'],
+      [TokenType.LEFT_PAREN, '('],
+      [TokenType.IDENTIFIER, 'status'],
+      [TokenType.EQUAL, '='],
+      [TokenType.STRING, 'banned'],
+      [TokenType.RIGHT_PAREN, ')'],
+    ]);
+  });
+
+  it('keeps fields that start with NOT as identifiers', () => {
+    expect(tokens('NOTE = 1')[0]).toEqual([TokenType.IDENTIFIER, 'NOTE']);
+  });
+
+  it.each([
+    ['true', TokenType.TRUE],
+    ['TRUE', TokenType.TRUE],
+    ['false', TokenType.FALSE],
+    ['FALSE', TokenType.FALSE],
+    ['null', TokenType.NULL],
+    ['NULL', TokenType.NULL],
+  ])('reads %s as a literal keyword', (input, type) => {
+    expect(tokens(input)).toEqual([[type, input.toUpperCase()]]);
+  });
+
+  it('reads brackets, commas and IN', () => {
+    expect(tokens("country IN ['US', 'CA']")).toEqual([
+      [TokenType.IDENTIFIER, 'country'],
+      [TokenType.IN, 'IN'],
+      [TokenType.LEFT_BRACKET, '['],
+      [TokenType.STRING, 'US'],
+      [TokenType.COMMA, ','],
+      [TokenType.STRING, 'CA'],
+      [TokenType.RIGHT_BRACKET, ']'],
+    ]);
+  });
+
+  it('reads nested field paths as one identifier', () => {
+    expect(tokens('user.address.country = orders[0].total')).toEqual([
+      [TokenType.IDENTIFIER, 'user.address.country'],
+      [TokenType.EQUAL, '='],
+      [TokenType.IDENTIFIER, 'orders[0].total'],
+    ]);
+  });
+
+  it('does not continue keywords into a path', () => {
+    expect(tokens('x IN[1]').map(([type]) => type)).toEqual([
+      TokenType.IDENTIFIER,
+      TokenType.IN,
+      TokenType.LEFT_BRACKET,
+      TokenType.NUMBER,
+      TokenType.RIGHT_BRACKET,
+    ]);
+  });
+
+  it('reads arithmetic operators', () => {
+    expect(tokens('a+b-c*d/e%f').filter(([type]) => type !== TokenType.IDENTIFIER)).toEqual([
+      [TokenType.PLUS, '+'],
+      [TokenType.MINUS, '-'],
+      [TokenType.ASTERISK, '*'],
+      [TokenType.SLASH, '/'],
+      [TokenType.PERCENT, '%'],
+    ]);
+  });
+
+  it.each(['30d', '12h', '5m', '1.5s', '250ms', '2w'])('reads %s as a duration', (input) => {
+    expect(tokens(input)).toEqual([[TokenType.DURATION, input]]);
+  });
+
+  it('does not read a unit followed by more letters as a duration', () => {
+    expect(tokens('3days')[0]).toEqual([TokenType.NUMBER, '3']);
+  });
+
+  it.each([
+    [`'O\\'Brien'`, "O'Brien"],
+    [`"O'Brien"`, "O'Brien"],
+    [`"say \\"hi\\""`, 'say "hi"'],
+    [`'a\\nb\\tc\\r'`, 'a\nb\tc\r'],
+    [`'back\\\\slash'`, 'back\\slash'],
+    [`'caf\\u00e9'`, 'café'],
+    [`'\\d+'`, '\\d+'],
+  ])('decodes the string %s', (input, value) => {
+    expect(tokens(input)).toEqual([[TokenType.STRING, value]]);
+  });
+
+  it('reports unterminated strings and bad escapes as illegal tokens', () => {
+    expect(new Lexer("'abc").nextToken()).toMatchObject({
+      type: TokenType.ILLEGAL,
+      position: 0,
+      message: 'Unterminated string',
+    });
+    expect(new Lexer("'a\\u12x4'").nextToken()).toMatchObject({
+      type: TokenType.ILLEGAL,
+      position: 2,
+      message: "Invalid escape sequence '\\u12x4'",
+    });
+  });
+
+  it.each(['18', '99.99', '1e-6', '2.5E+3', '1_000_000'])('reads %s as one number', (input) => {
+    expect(tokens(input)).toEqual([[TokenType.NUMBER, input]]);
+  });
+
+  it('reads a leading minus as a separate token', () => {
+    expect(tokens('-100')).toEqual([
+      [TokenType.MINUS, '-'],
+      [TokenType.NUMBER, '100'],
+    ]);
+  });
+
+  it.each(['`order-id`', '`OR`', 'customer.`Customer Name`', '`line items`[0].`unit-price`', '`a\\`b`'])(
+    'reads the quoted identifier %s as one token',
+    (input) => {
+      expect(tokens(`${input} = 1`)[0]).toEqual([TokenType.IDENTIFIER, input]);
+    }
+  );
+
+  it('reports an unterminated quoted identifier', () => {
+    expect(new Lexer('`order-id = 1').nextToken()).toMatchObject({
+      type: TokenType.ILLEGAL,
+      position: 0,
+      message: 'Unterminated quoted identifier',
+    });
+  });
+
+  it('reads keywords in any case and reports them in upper case', () => {
+    const keywords = tokens('age between 1 and 2 Or NOT x in [1]').filter(
+      ([type]) => type !== TokenType.IDENTIFIER && type !== TokenType.NUMBER
+    );
+    expect(keywords).toEqual([
+      [TokenType.BETWEEN, 'BETWEEN'],
+      [TokenType.AND, 'AND'],
+      [TokenType.OR, 'OR'],
+      [TokenType.NOT, 'NOT'],
+      [TokenType.IN, 'IN'],
+      [TokenType.LEFT_BRACKET, '['],
+      [TokenType.RIGHT_BRACKET, ']'],
+    ]);
+  });
+
+  it.each([
+    ['&&', TokenType.AND, 'AND'],
+    ['||', TokenType.OR, 'OR'],
+    ['==', TokenType.EQUAL, '='],
+    ['<>', TokenType.NOT_EQUAL, '!='],
+  ])('reads the alias %s', (alias, type, literal) => {
+    expect(tokens(`a ${alias} b`)[1]).toEqual([type, literal]);
+  });
+
+  it('reports a single & or | as illegal', () => {
+    expect(tokens('a & b')[1]).toEqual([TokenType.ILLEGAL, '&']);
+  });
+
+  it('skips line and block comments', () => {
+    const source = "age >= 18 -- adults only\nAND /* launch\nmarket */ country = 'US' -- end";
+    expect(tokens(source)).toEqual(tokens("age >= 18 AND country = 'US'"));
+  });
+
+  it('skips a line comment at the start of the input or after an operator', () => {
+    expect(tokens('-- header\nage > 18')).toEqual(tokens('age > 18'));
+    expect(tokens('a = 1 AND-- why\nb = 2')).toEqual(tokens('a = 1 AND b = 2'));
+  });
+
+  it('reads "--" as a comment only when whitespace or the end of input follows', () => {
+    expect(tokens('a --\tnote\n= 1')).toEqual(tokens('a = 1'));
+    expect(tokens('a = 1 --')).toEqual(tokens('a = 1'));
+    expect(tokens('a--\n= 1')).toEqual(tokens('a = 1'));
+  });
+
+  it.each([
+    ['a--1 > 0', 'a - -1 > 0'],
+    ['(a)--b', '(a) - -b'],
+    ['x > 5--note', 'x > 5 - -note'],
+    ['--note', '- -note'],
+    ['a = 1 AND--b', 'a = 1 AND - -b'],
+  ])('reads "--" followed by a non-space in %s as two minus signs', (source, spaced) => {
+    expect(tokens(source)).toEqual(tokens(spaced));
+  });
+
+  it('reports an unterminated block comment', () => {
+    const lexer = new Lexer('a /* note');
+    lexer.nextToken();
+    expect(lexer.nextToken()).toMatchObject({ type: TokenType.ILLEGAL, position: 2, message: 'Unterminated comment' });
+  });
+});
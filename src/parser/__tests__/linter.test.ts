@@ -0,0 +1,162 @@
+import { Expression, BinaryExpression } from '../../domain/ast';
+import { MemoryRepository } from '../../repository/memory-repository';
+import { RuleService } from '../../service/rule-service';
+import { LintConfig, LintRule, LINT_RULES, lintExpression, parseLintConfig } from '../linter';
+import { parseExpression } from '../parser';
+
+function lint(source: string, config: LintConfig = {}, rules: LintRule[] = LINT_RULES) {
+  return lintExpression(parseExpression(source), source, config, rules);
+}
+
+function findings(source: string, config: LintConfig = {}) {
+  return lint(source, config).map(({ rule, severity, message }) => ({ rule, severity, message }));
+}
+
+describe('lintExpression', () => {
+  it.each([
+    "age > 18 AND status = 'active'",
+    '(a = 1 OR b = 2) AND c = 3',
+    'a = 1 AND b = 2 AND c = 3',
+    "age = 18 OR age = 21",
+    'ANY items (price > 100 AND qty >= 2)',
+  ])('accepts %s', (source) => {
+    expect(lint(source)).toEqual([]);
+  });
+
+  it('reports repeated clauses', () => {
+    expect(findings('a = 1 AND b = 2 AND a = 1')).toEqual([
+      { rule: 'duplicate-clause', severity: 'warning', message: 'Clause "a = 1" is repeated at position 20' },
+    ]);
+  });
+
+  it('reports AND and OR mixed without parentheses', () => {
+    const [finding] = findings('a = 1 OR b = 2 AND c = 3');
+    expect(finding).toMatchObject({ rule: 'mixed-logical-operators', severity: 'error' });
+    expect(finding.message).toContain('AND and OR are mixed without parentheses at position 15');
+    expect(finding.message).toContain('"(a = 1 OR b = 2) AND c = 3"');
+  });
+
+  it('reports numbers compared with strings', () => {
+    expect(findings("age = '18'")).toEqual([
+      {
+        rule: 'mixed-type-comparison',
+        severity: 'error',
+        message:
+          "Field 'age' is compared with the string '18' at position 6. " +
+          "If 'age' holds numbers, this fails or never matches; write 18 without quotes",
+      },
+    ]);
+    expect(findings("age > 5 AND age = 'x'")).toEqual([
+      {
+        rule: 'mixed-type-comparison',
+        severity: 'error',
+        message:
+          "Field 'age' is compared with a string at position 18 but with a number at position 6. " +
+          'One of the two fails or never matches, whichever type the field holds',
+      },
+    ]);
+  });
+
+  it('reports conditions nested too deeply', () => {
+    const source = 'a = 1 AND (b = 1 OR (c = 1 AND (d = 1 OR (e = 1 AND f = 1))))';
+    expect(findings(source)).toEqual([
+      {
+        rule: 'max-depth',
+        severity: 'warning',
+        message:
+          'Condition at position 41 is nested 5 groups deep (at most 4 allowed). Consider splitting the rule or flattening the logic',
+      },
+    ]);
+  });
+
+  it('applies severity overrides and turns rules off', () => {
+    const source = 'a = 1 AND a = 1 OR b = 2';
+    expect(findings(source).map((finding) => [finding.rule, finding.severity])).toEqual([
+      ['mixed-logical-operators', 'error'],
+      ['duplicate-clause', 'warning'],
+    ]);
+    expect(
+      findings(source, { 'mixed-logical-operators': 'off', 'duplicate-clause': 'error' }).map((finding) => [
+        finding.rule,
+        finding.severity,
+      ])
+    ).toEqual([['duplicate-clause', 'error']]);
+  });
+
+  it('reports locations of the offending node', () => {
+    const source = 'a = 1 AND\nb = 2 AND a = 1';
+    expect(lint(source)[0]).toMatchObject({ start: { line: 2, column: 11 }, end: { line: 2, column: 16 } });
+  });
+
+  it('runs custom rules', () => {
+    const noLiteralLeft: LintRule = {
+      name: 'no-yoda',
+      description: 'Literal on the left of a comparison',
+      severity: 'warning',
+      check(ast, context) {
+        const visit = (node: Expression): void => {
+          if (node instanceof BinaryExpression && !('path' in node.left)) {
+            context.report(node, 'Put the field first');
+          }
+          for (const child of Object.values(node)) {
+            if (child && typeof child === 'object' && 'accept' in child) {
+              visit(child as Expression);
+            }
+          }
+        };
+        visit(ast);
+      },
+    };
+
+    expect(lint('18 < age AND x = 1', {}, [noLiteralLeft])).toEqual([
+      expect.objectContaining({ rule: 'no-yoda', severity: 'warning', message: 'Put the field first' }),
+    ]);
+    expect(lint('18 < age', { 'no-yoda': 'off' }, [noLiteralLeft])).toEqual([]);
+  });
+});
+
+describe('parseLintConfig', () => {
+  it('accepts known rules and severities', () => {
+    expect(parseLintConfig({ 'max-depth': 'error', 'duplicate-clause': 'off' })).toEqual({
+      'max-depth': 'error',
+      'duplicate-clause': 'off',
+    });
+  });
+
+  it.each([
+    [[], 'Invalid lint config'],
+    [{ 'max-dept': 'error' }, "Invalid lint config: unknown rule 'max-dept'. Did you mean 'max-depth'?"],
+    [{ 'max-depth': 'fatal' }, "Invalid lint config: severity of 'max-depth' must be one of error, warning, off"],
+  ])('rejects %j', (json, message) => {
+    expect(() => parseLintConfig(json)).toThrow(message);
+  });
+});
+
+describe('RuleService lint enforcement', () => {
+  it('rejects expressions with lint errors only when enforceLint is set', async () => {
+    const enforced = new RuleService(new MemoryRepository(), { enforceLint: true });
+    await expect(enforced.createRule('r1', 'a = 1 OR b = 2 AND c = 3')).rejects.toThrow(
+      /^LintViolation: AND and OR are mixed without parentheses at position 15.*\(mixed-logical-operators\)$/
+    );
+    await expect(enforced.createRule('r2', 'a = 1 AND a = 1')).resolves.toMatchObject({ id: 'r2' });
+
+    const relaxed = new RuleService(new MemoryRepository());
+    await expect(relaxed.createRule('r1', 'a = 1 OR b = 2 AND c = 3')).resolves.toMatchObject({ id: 'r1' });
+  });
+
+  it('applies the configured severities', async () => {
+    const service = new RuleService(new MemoryRepository(), {
+      enforceLint: true,
+      lintConfig: { 'mixed-logical-operators': 'off', 'duplicate-clause': 'error' },
+    });
+    await expect(service.createRule('r1', 'a = 1 OR b = 2 AND c = 3')).resolves.toMatchObject({ id: 'r1' });
+    await expect(service.createRule('r2', 'a = 1 AND a = 1')).rejects.toThrow('LintViolation');
+    expect(service.lintExpression('a = 1 AND a = 1', { 'duplicate-clause': 'off' })).toEqual([]);
+  });
+
+  it('rejects an invalid lint config up front', () => {
+    expect(
+      () => new RuleService(new MemoryRepository(), { lintConfig: { 'max-depth': 'loud' as 'error' } })
+    ).toThrow("Invalid lint config: severity of 'max-depth' must be one of error, warning, off");
+  });
+});
@@ -0,0 +1,606 @@
+import { Diagnostic, DiagnosticError } from '../../domain/diagnostic';
+import { TokenType } from '../../domain/token';
+import {
+  AggregateExpression,
+  ArithmeticExpression,
+  BetweenExpression,
+  BinaryExpression,
+  BooleanLiteral,
+  CallExpression,
+  DateLiteral,
+  DurationLiteral,
+  Expression,
+  ListLiteral,
+  LogicalExpression,
+  NullLiteral,
+  NumberLiteral,
+  QuantifierExpression,
+  RegexLiteral,
+  StringLiteral,
+  UnaryExpression,
+} from '../../domain/ast';
+import { explainExpression, parseExpression, parseExpressionWithWarnings } from '../parser';
+
+describe('parseExpression', () => {
+  describe('NOT', () => {
+    it('negates a whole comparison', () => {
+      const ast = parseExpression('NOT age > 18');
+      expect(ast).toBeInstanceOf(UnaryExpression);
+      expect((ast as UnaryExpression).operand).toBeInstanceOf(BinaryExpression);
+    });
+
+    it('binds tighter than AND/OR', () => {
+      const ast = parseExpression("NOT age > 18 AND status = 'active'");
+      expect(ast).toBeInstanceOf(LogicalExpression);
+      expect((ast as LogicalExpression).left).toBeInstanceOf(UnaryExpression);
+      expect((ast as LogicalExpression).right).toBeInstanceOf(BinaryExpression);
+    });
+
+    it('negates a parenthesized group', () => {
+      const ast = parseExpression("NOT (status = 'banned' OR age < 18)");
+      expect(ast).toMatchObject({
+        operator: { type: TokenType.NOT },
+        operand: { operator: { type: TokenType.OR } },
+      });
+    });
+
+    it('can be repeated', () => {
+      const ast = parseExpression('NOT NOT age > 18');
+      expect(ast).toMatchObject({ operand: { operand: { operator: { type: TokenType.GREATER } } } });
+    });
+
+    it('requires an operand', () => {
+      expect(() => parseExpression('NOT')).toThrow();
+      expect(() => parseExpression('age > 18 AND NOT')).toThrow();
+    });
+
+    it.each([
+      ['NOT 5', 0],
+      ['NOT isVerified', 0],
+      ["a = 1 AND NOT lower(name)", 10],
+      ['NOT (price * 2)', 0],
+    ])('rejects the value operand in %s', (source, position) => {
+      expect(() => parseExpression(source)).toThrow(`NOT requires a condition, not a value, at position ${position}`);
+    });
+
+    it('accepts conditions that only look like values', () => {
+      expect(parseExpression('NOT isVerified = true')).toBeInstanceOf(UnaryExpression);
+      expect(parseExpression('NOT ANY items (qty > 1)')).toBeInstanceOf(UnaryExpression);
+      expect(parseExpression('NOT age BETWEEN 1 AND 2')).toBeInstanceOf(UnaryExpression);
+    });
+  });
+
+  describe('boolean and null literals', () => {
+    it('parses TRUE and FALSE as boolean values', () => {
+      expect(parseExpression('isVerified = true')).toMatchObject({ right: { value: true } });
+      expect((parseExpression('isVerified = FALSE') as BinaryExpression).right).toBeInstanceOf(BooleanLiteral);
+    });
+
+    it('parses NULL', () => {
+      expect((parseExpression('manager = null') as BinaryExpression).right).toBeInstanceOf(NullLiteral);
+    });
+  });
+
+  describe('IN / NOT IN', () => {
+    it('parses a list of literals', () => {
+      const ast = parseExpression("country IN ['US', 'CA', 1, true, null]") as BinaryExpression;
+      expect(ast.operator.type).toBe(TokenType.IN);
+      expect(ast.right).toBeInstanceOf(ListLiteral);
+      expect(ast.right).toMatchObject({
+        elements: [{ value: 'US' }, { value: 'CA' }, { value: 1 }, { value: true }, {}],
+      });
+    });
+
+    it('combines NOT and IN into one operator', () => {
+      const ast = parseExpression("status NOT IN ['banned']") as BinaryExpression;
+      expect(ast.operator).toMatchObject({ type: TokenType.NOT_IN, literal: 'NOT IN' });
+    });
+
+    it('accepts an empty list', () => {
+      expect((parseExpression('x IN []') as BinaryExpression).right).toMatchObject({ elements: [] });
+    });
+
+    it.each([
+      ["country IN 'US'", 'IN requires a list literal'],
+      ["country NOT = 'US'", 'Expected IN or BETWEEN after NOT'],
+      ['country IN [region]', 'List elements must be literal values'],
+      ["country IN ['US', 'CA'", "Expected closing bracket ']'"],
+    ])('rejects %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('field paths', () => {
+    it.each([
+      ['age', ['age']],
+      ['user.address.country', ['user', 'address', 'country']],
+      ['orders[0].total', ['orders', 0, 'total']],
+      ['matrix[1][2]', ['matrix', 1, 2]],
+    ])('splits %s into segments', (field, path) => {
+      expect(parseExpression(`${field} = 1`)).toMatchObject({ left: { value: field, path } });
+    });
+  });
+
+  describe('string operators', () => {
+    it.each(['CONTAINS', 'ICONTAINS', 'STARTS_WITH', 'ISTARTS_WITH', 'ENDS_WITH', 'IENDS_WITH', 'LIKE', 'ILIKE'])(
+      'parses %s as a comparison',
+      (operator) => {
+        const ast = parseExpression(`name ${operator} 'x' AND age > 1`);
+        expect(ast).toMatchObject({ left: { operator: { literal: operator } } });
+      }
+    );
+  });
+
+  describe('MATCHES', () => {
+    it('compiles the pattern once at parse time', () => {
+      const ast = parseExpression("phone MATCHES '^[0-9]{10}$'") as BinaryExpression;
+      expect(ast.right).toBeInstanceOf(RegexLiteral);
+      expect((ast.right as RegexLiteral).regex.test('5551234567')).toBe(true);
+    });
+
+    it.each(['^(foo|bar)+$', '^[a-z]+@acme[.]com$', '[(]+'])('accepts the safe pattern %s', (pattern) => {
+      expect(() => parseExpression(`x MATCHES '${pattern}'`)).not.toThrow();
+    });
+
+    it.each([
+      ['(a+)+$', 'Unsafe regular expression at position 10: nested quantifiers are not allowed'],
+      ['(x*){2,}', 'nested quantifiers are not allowed'],
+      ['((ab)+)*', 'nested quantifiers are not allowed'],
+      ['(a)\\1', 'backreferences are not allowed'],
+      ['a'.repeat(257), 'pattern exceeds 256 characters'],
+      ['[a-', 'Invalid regular expression at position 10'],
+    ])('rejects %s', (pattern, message) => {
+      expect(() => parseExpression(`x MATCHES '${pattern}'`)).toThrow(message);
+    });
+
+    it('requires a string pattern', () => {
+      expect(() => parseExpression('x MATCHES 5')).toThrow('MATCHES requires a string literal pattern');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('binds tighter than comparisons', () => {
+      const ast = parseExpression('price * qty > 100') as BinaryExpression;
+      expect(ast.left).toBeInstanceOf(ArithmeticExpression);
+      expect(ast.operator.type).toBe(TokenType.GREATER);
+    });
+
+    it('gives * / % precedence over + -', () => {
+      expect(parseExpression('a + b * c > 0')).toMatchObject({
+        left: { operator: { type: TokenType.PLUS }, right: { operator: { type: TokenType.ASTERISK } } },
+      });
+    });
+
+    it('groups same-precedence operators left to right', () => {
+      expect(parseExpression('a - b - c > 0')).toMatchObject({
+        left: { left: { operator: { type: TokenType.MINUS } }, right: { value: 'c' } },
+      });
+    });
+
+    it('honours parentheses', () => {
+      expect(parseExpression('(a + b) * c > 0')).toMatchObject({
+        left: { operator: { type: TokenType.ASTERISK }, left: { operator: { type: TokenType.PLUS } } },
+      });
+    });
+  });
+
+  describe('function calls', () => {
+    it('parses a call with its arguments', () => {
+      const ast = parseExpression('round(price * 1.2, 2) > 10') as BinaryExpression;
+      expect(ast.left).toBeInstanceOf(CallExpression);
+      expect(ast.left).toMatchObject({ name: 'round', args: [{ operator: { type: TokenType.ASTERISK } }, { value: 2 }] });
+    });
+
+    it('accepts nested calls and any number of coalesce arguments', () => {
+      expect(() => parseExpression("len(trim(lower(name))) > 0")).not.toThrow();
+      expect(() => parseExpression("coalesce(nickname, name, 'anon', null) = 'x'")).not.toThrow();
+    });
+
+    it.each([
+      ["lowr(name) = 'a'", "Unknown function 'lowr' at position 0"],
+      ['len() = 0', 'Function len() expects 1 argument(s) but got 0 at position 0'],
+      ['round(a, 1, 2) = 0', 'Function round() expects 1 to 2 argument(s) but got 3 at position 0'],
+      ['coalesce() = 0', 'Function coalesce() expects at least 1 argument(s) but got 0 at position 0'],
+      ["abs('x') = 0", 'Function abs() expects number for argument 1 but got string at position 0'],
+      ['len(5) = 0', 'Function len() expects string or array for argument 1 but got number at position 0'],
+      ["upper(len(name)) = 'A'", 'Function upper() expects string for argument 1 but got number at position 0'],
+      ['len(a > 1) = 0', 'Argument 1 of len() must be a value, not a condition, at position 0'],
+      ['len(name = 0', "Expected closing parenthesis ')' for len()"],
+    ])('rejects %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('dates and durations', () => {
+    it('parses ISO-8601 strings as dates', () => {
+      const ast = parseExpression("signup > '2024-01-15T10:30:00+0530'") as BinaryExpression;
+      expect(ast.right).toBeInstanceOf(DateLiteral);
+      expect((ast.right as DateLiteral).date.toISOString()).toBe('2024-01-15T05:00:00.000Z');
+    });
+
+    it('reads dates without an offset as UTC', () => {
+      const ast = parseExpression("signup > '2024-01-15'") as BinaryExpression;
+      expect((ast.right as DateLiteral).date.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    });
+
+    it('keeps other strings as strings', () => {
+      expect((parseExpression("code = '2024-1-5'") as BinaryExpression).right).toBeInstanceOf(StringLiteral);
+    });
+
+    it.each(["'2024-02-30'", "'2024-01-01T24:00'"])('rejects the impossible date %s', (date) => {
+      expect(() => parseExpression(`signup > ${date}`)).toThrow(`Invalid date ${date} at position 9`);
+    });
+
+    it('converts durations to milliseconds', () => {
+      const ast = parseExpression('lastLogin > now() - 1.5h') as BinaryExpression;
+      expect(ast.right).toMatchObject({ right: { value: 1.5 * 60 * 60 * 1000 } });
+      expect((ast.right as ArithmeticExpression).right).toBeInstanceOf(DurationLiteral);
+    });
+  });
+
+  describe('BETWEEN', () => {
+    it('reads the AND between the bounds as part of BETWEEN', () => {
+      const ast = parseExpression("age BETWEEN 18 AND 65 AND status = 'active'") as LogicalExpression;
+      expect(ast.operator.type).toBe(TokenType.AND);
+      expect(ast.left).toBeInstanceOf(BetweenExpression);
+      expect(ast.left).toMatchObject({ low: { value: 18 }, high: { value: 65 }, negated: false });
+    });
+
+    it('parses NOT BETWEEN and arithmetic bounds', () => {
+      const ast = parseExpression('total NOT BETWEEN budget - 10 AND budget + 10');
+      expect(ast).toBeInstanceOf(BetweenExpression);
+      expect(ast).toMatchObject({
+        negated: true,
+        low: { operator: { type: TokenType.MINUS } },
+        high: { operator: { type: TokenType.PLUS } },
+      });
+    });
+
+    it('requires AND between the bounds', () => {
+      expect(() => parseExpression('age BETWEEN 18 OR 65')).toThrow('Expected AND between BETWEEN bounds');
+    });
+
+    it.each([
+      ['age BETWEEN 1 AND 2 AND 3', 'Each side of AND must be a condition, not a value, at position 24'],
+      ['age BETWEEN 1 AND 2 OR x', 'Each side of OR must be a condition, not a value, at position 23'],
+      ['a AND b', 'Each side of AND must be a condition, not a value, at position 0'],
+      ['x = 1 OR (price * 2)', 'Each side of OR must be a condition, not a value, at position 9'],
+    ])('rejects a value beside AND/OR in %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+
+    it.each(['age', 'price * 2', "lower(name)", '5', 'true'])('rejects the bare value %s as an expression', (source) => {
+      expect(() => parseExpression(source)).toThrow('Expression must be a condition, not a value, at position 0');
+    });
+
+    it('locates the value in the diagnostic', () => {
+      const error = (() => {
+        try {
+          parseExpression('x = 1 AND\n  price * 2');
+        } catch (e) {
+          return e as DiagnosticError;
+        }
+      })();
+      expect(error?.diagnostics).toEqual([
+        expect.objectContaining({ start: { line: 2, column: 3 }, end: { line: 2, column: 12 } }),
+      ]);
+    });
+  });
+
+  describe('ANY / ALL', () => {
+    it('parses the array field and the condition', () => {
+      const ast = parseExpression('ANY orders[0].items (price > 100 AND qty >= 2)');
+      expect(ast).toBeInstanceOf(QuantifierExpression);
+      expect(ast).toMatchObject({
+        token: { type: TokenType.ANY },
+        collection: { path: ['orders', 0, 'items'] },
+        predicate: { operator: { type: TokenType.AND } },
+      });
+    });
+
+    it('nests and combines with other clauses', () => {
+      const ast = parseExpression("ANY orders (ALL items (qty > 0)) OR vip = true") as LogicalExpression;
+      expect(ast.left).toMatchObject({ predicate: { token: { type: TokenType.ALL } } });
+    });
+
+    it.each([
+      ['ANY (price > 1)', 'Expected array field after ANY'],
+      ['ALL items price > 1', "Expected '(' after ALL items"],
+      ['ANY items (price > 1', "Expected closing parenthesis ')' for ANY"],
+      ['ANY items (price) = 1', 'ANY requires a condition in parentheses at position 0'],
+      ['ALL items (price + 1) = 1', 'ALL requires a condition in parentheses at position 0'],
+    ])('rejects %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('aggregates', () => {
+    it('parses the field path and an optional WHERE filter', () => {
+      const ast = parseExpression("COUNT(items WHERE category = 'gift') >= 3") as BinaryExpression;
+      expect(ast.left).toBeInstanceOf(AggregateExpression);
+      expect(ast.left).toMatchObject({ name: 'COUNT', field: { path: ['items'] }, filter: { operator: { type: TokenType.EQUAL } } });
+      expect(parseExpression('SUM(items.price) > 500')).toMatchObject({
+        left: { name: 'SUM', field: { path: ['items', 'price'] }, filter: null },
+      });
+    });
+
+    it('is a number in arithmetic and function arguments', () => {
+      expect(() => parseExpression('round(AVG(items.price) * 1.2, 2) > 10')).not.toThrow();
+      expect(() => parseExpression('len(SUM(items.price)) > 1')).toThrow('Function len() expects string or array');
+    });
+
+    it.each([
+      ['SUM() > 1', 'Expected array field in SUM()'],
+      ['MAX(items.price > 1', "Expected closing parenthesis ')' for MAX()"],
+      ['COUNT(items WHERE qty) > 1', 'WHERE in COUNT() requires a condition at position 0'],
+    ])('rejects %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('strings', () => {
+    it('keeps escaped quotes in the value', () => {
+      expect(parseExpression(`name = 'O\\'Brien' OR name = "O'Neil"`)).toMatchObject({
+        left: { right: { value: "O'Brien" } },
+        right: { right: { value: "O'Neil" } },
+      });
+    });
+
+    it.each([
+      ["name = 'abc", 'Unterminated string at position 7'],
+      ['name = "abc\\"', 'Unterminated string at position 7'],
+      ["name = 'caf\\u00g9'", "Invalid escape sequence '\\u00g9' at position 11"],
+    ])('rejects %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('numbers', () => {
+    it.each([
+      ['1e-6', 1e-6],
+      ['2.5E+3', 2500],
+      ['1_000_000', 1000000],
+      ['-100', -100],
+      ['-0.5', -0.5],
+    ])('reads %s', (literal, value) => {
+      expect(parseExpression(`x > ${literal}`)).toMatchObject({ right: { value } });
+    });
+
+    it('folds a minus directly before a number into the literal', () => {
+      const ast = parseExpression('balance < -100') as BinaryExpression;
+      expect(ast.right).toBeInstanceOf(NumberLiteral);
+      expect(ast.right).toMatchObject({ token: { literal: '-100', position: 10 } });
+    });
+
+    it('negates other operands with tighter precedence than * and /', () => {
+      const ast = parseExpression('-price * 2 > 0') as BinaryExpression;
+      expect(ast.left).toMatchObject({ operator: { type: TokenType.ASTERISK }, left: { operator: { type: TokenType.MINUS } } });
+      expect((ast.left as ArithmeticExpression).left).toBeInstanceOf(UnaryExpression);
+    });
+
+    it('reads subtraction of a negative number', () => {
+      expect(parseExpression('a - -1 > 0')).toMatchObject({ left: { operator: { type: TokenType.MINUS }, right: { value: -1 } } });
+    });
+
+    it.each([
+      ['x > 1__0', "Invalid number '1__0' at position 4"],
+      ['x > 1_', "Invalid number '1_' at position 4"],
+      ['x > 10_d', "Invalid number '10_' at position 4"],
+      ['-(a > 1) = 1', 'Unary minus requires a value, not a condition, at position 0'],
+    ])('rejects %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+
+    it.each([
+      ['x > 1e400', "Number '1e400' is too large and becomes Infinity at position 4"],
+      ['x > 1e-400', "Number '1e-400' is too small and becomes 0 at position 4"],
+      ['x > 9007199254740993', "Number '9007199254740993' cannot be represented exactly and is rounded to 9007199254740992 at position 4"],
+    ])('warns about %s', (source, warning) => {
+      expect(parseExpressionWithWarnings(source).warnings).toEqual([warning]);
+    });
+
+    it('does not warn about exact numbers', () => {
+      expect(parseExpressionWithWarnings('x > 0.1 AND y = 123456789012345 AND z = 1e300').warnings).toEqual([]);
+    });
+  });
+
+  describe('quoted identifiers', () => {
+    it.each([
+      ['`order-id`', ['order-id']],
+      ['`OR`', ['OR']],
+      ['customer.`Customer Name`', ['customer', 'Customer Name']],
+      ['`line items`[0].`unit-price`', ['line items', 0, 'unit-price']],
+      ['`a\\`b\\\\c`', ['a`b\\c']],
+    ])('splits %s into segments', (field, path) => {
+      expect(parseExpression(`${field} = 1`)).toMatchObject({ left: { path } });
+    });
+
+    it('works as the array field of ANY and aggregates', () => {
+      expect(parseExpression('ANY `line items` (qty > 1)')).toMatchObject({ collection: { path: ['line items'] } });
+      expect(parseExpression('SUM(`line items`.price) > 1')).toMatchObject({
+        left: { field: { path: ['line items', 'price'] } },
+      });
+    });
+
+    it('rejects an unterminated quoted identifier', () => {
+      expect(() => parseExpression('a = 1 AND `b = 2')).toThrow('Unterminated quoted identifier at position 10');
+    });
+  });
+
+  describe('keywords, aliases and comments', () => {
+    it('parses lower-case keywords and aggregates', () => {
+      expect(parseExpression("not age between 1 and 2 or sum(items.qty) > 3")).toMatchObject({
+        operator: { type: TokenType.OR },
+        left: { operator: { type: TokenType.NOT } },
+        right: { left: { name: 'SUM' } },
+      });
+    });
+
+    it('parses operator aliases like their keywords', () => {
+      expect(parseExpression('a == 1 && b <> 2 || c = 3')).toMatchObject({
+        operator: { type: TokenType.OR },
+        left: { operator: { type: TokenType.AND }, right: { operator: { type: TokenType.NOT_EQUAL } } },
+      });
+    });
+
+    it('needs backticks for fields named like keywords', () => {
+      expect(parseExpression('`or` = 1')).toMatchObject({ left: { path: ['or'] } });
+      expect(() => parseExpression('or = 1')).toThrow();
+    });
+
+    it.each([
+      ['all = 5', "Expected array field after ALL at position 4. If 'all' is a field name, quote it in backticks: `all`"],
+      ['x = 1 AND in = 2', "Unexpected token 'IN' at position 10. If 'in' is a field name, quote it in backticks: `in`"],
+      [
+        'a = 1 where = 2',
+        "Unexpected token 'WHERE' at position 6. Expected end of expression. If 'where' is a field name, quote it in backticks: `where`",
+      ],
+    ])('suggests backticks for the keyword in %s', (source, message) => {
+      expect(() => parseExpression(source)).toThrow(message);
+    });
+
+    it('does not suggest backticks for upper-case keywords', () => {
+      expect(() => parseExpression('age >= AND b = 1')).toThrow(/^Unexpected token 'AND' at position 7$/);
+      expect(() => parseExpression('ANY = 1')).toThrow(/^Expected array field after ANY at position 4$/);
+    });
+
+    it('matches function names case-insensitively', () => {
+      expect(parseExpression("LOWER(email) = 'a' AND Round(x) > 1")).toMatchObject({
+        left: { left: { name: 'lower' } },
+        right: { left: { name: 'round' } },
+      });
+    });
+
+    it('ignores comments', () => {
+      expect(parseExpression('age >= 18 -- adults\n&& /* ok */ x = 1')).toMatchObject({ operator: { type: TokenType.AND } });
+    });
+
+    it('reads "--" without a following space as minus signs', () => {
+      expect(parseExpression('a--1 > 0')).toMatchObject({ left: { operator: { type: TokenType.MINUS } } });
+      expect(parseExpression('x--y = 2')).toMatchObject({ left: { right: { operand: { path: ['y'] } } } });
+      expect(parseExpression('x > 5--note')).toMatchObject({ right: { right: { operand: { path: ['note'] } } } });
+      expect(parseExpression('x > 5 --note')).toMatchObject({ right: { operator: { type: TokenType.MINUS } } });
+    });
+
+    it('reports trailing tokens', () => {
+      expect(() => parseExpression('a = 1 b = 2')).toThrow("Unexpected token 'b' at position 6. Expected end of expression.");
+    });
+  });
+
+  describe('diagnostics', () => {
+    function diagnostics(source: string): Diagnostic[] {
+      try {
+        parseExpression(source);
+      } catch (error) {
+        expect(error).toBeInstanceOf(DiagnosticError);
+        return (error as DiagnosticError).diagnostics;
+      }
+      throw new Error(`Expected "${source}" to be rejected`);
+    }
+
+    it('reports every broken clause, not just the first', () => {
+      const source = "age >= AND status = 'active' ANDD score > 10";
+      expect(() => parseExpression(source)).toThrow("Unexpected token 'AND' at position 7");
+      expect(diagnostics(source).map((diagnostic) => diagnostic.message)).toEqual([
+        "Unexpected token 'AND' at position 7",
+        "Unexpected token 'ANDD' at position 29. Expected end of expression. Did you mean 'AND'?",
+      ]);
+    });
+
+    it.each([
+      ['age > 18 AND', 12],
+      ['age >', 5],
+      ['NOT', 3],
+      ['a = 1 AND -- more to come', 25],
+      ['   ', 3],
+    ])('reports the end of input in %j as the end of the expression', (source, position) => {
+      expect(diagnostics(source)).toEqual([
+        expect.objectContaining({
+          message: `Unexpected end of expression at position ${position}`,
+          start: { line: 1, column: position + 1 },
+        }),
+      ]);
+    });
+
+    it('locates problems by line and column', () => {
+      expect(diagnostics("a = 1 AND\n  b >= AND c = 2")[0]).toMatchObject({
+        severity: 'error',
+        start: { line: 2, column: 8 },
+        end: { line: 2, column: 11 },
+      });
+    });
+
+    it('lists the tokens that would have been valid', () => {
+      expect(diagnostics('age >= AND x = 1')[0].expected).toEqual([
+        'identifier', 'number', 'string', 'duration', 'TRUE', 'FALSE', 'NULL',
+        '(', '[', 'NOT', '-', 'ANY', 'ALL',
+      ]);
+      expect(diagnostics('x IN [1, 2')[0]).toMatchObject({
+        message: "Expected closing bracket ']' at position 10",
+        expected: [',', ']'],
+      });
+      expect(diagnostics('(a = 1')[0].expected).toEqual([')']);
+    });
+
+    it('suggests close function names', () => {
+      expect(diagnostics("lowr(name) = 'a'")[0]).toMatchObject({
+        message: "Unknown function 'lowr' at position 0. Did you mean 'lower'?",
+        suggestions: ['lower'],
+      });
+      expect(diagnostics('AVGG(items.price) > 1')[0].suggestions).toEqual(['AVG']);
+    });
+
+    it('does not fail on warnings', () => {
+      expect(() => parseExpression('x > 1e400')).not.toThrow();
+    });
+  });
+
+  describe('source spans', () => {
+    function slices(source: string): string[] {
+      const expr = parseExpression(source) as LogicalExpression;
+      const nodes: Expression[] = [expr, expr.left, expr.right];
+      return nodes.map((node) => source.slice(node.span!.start, node.span!.end));
+    }
+
+    it('spans each operand and the whole expression', () => {
+      expect(slices("age >= 18 AND country = 'US'")).toEqual([
+        "age >= 18 AND country = 'US'",
+        'age >= 18',
+        "country = 'US'",
+      ]);
+    });
+
+    it('includes the parentheses of a group', () => {
+      expect(slices('(a = 1 OR b = 2) AND c = 3')).toEqual(['(a = 1 OR b = 2) AND c = 3', '(a = 1 OR b = 2)', 'c = 3']);
+    });
+
+    it('spans quoted strings, calls and regexes to their last character', () => {
+      const source = "lower(name) MATCHES '^a' AND tag = \"x\"";
+      expect(slices(source)).toEqual([source, "lower(name) MATCHES '^a'", 'tag = "x"']);
+    });
+
+    it('spans leaf nodes', () => {
+      const expr = parseExpression('  score > 7') as BinaryExpression;
+      expect((expr as Expression).span).toEqual({ start: 2, end: 11 });
+      expect(expr.left.span).toEqual({ start: 2, end: 7 });
+      expect(expr.right.span).toEqual({ start: 10, end: 11 });
+    });
+  });
+
+  describe('explainExpression', () => {
+    it('returns the tokens without EOF', () => {
+      const { tokens } = explainExpression('a = 1');
+      expect(tokens.map((token) => token.type)).toEqual([TokenType.IDENTIFIER, TokenType.EQUAL, TokenType.NUMBER]);
+    });
+
+    it('records each bind/return decision in parse order', () => {
+      const { precedence } = explainExpression('a = 1 OR b = 2');
+      expect(precedence.map(({ operator, context, binds }) => [operator, context, binds])).toEqual([
+        ['=', 'LOWEST', true],
+        ['OR', 'COMPARE', false],
+        ['OR', 'LOWEST', true],
+        ['=', 'LOGICAL', true],
+      ]);
+    });
+  });
+});
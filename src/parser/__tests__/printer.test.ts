@@ -0,0 +1,60 @@
+import { parseExpression } from '../parser';
+import { printExpression } from '../printer';
+
+function format(source: string): string {
+  return printExpression(parseExpression(source));
+}
+
+describe('printExpression', () => {
+  describe('canonical spelling', () => {
+    it.each([
+      ['(age>=18)  and country == "US"', "age >= 18 AND country = 'US'"],
+      ['a <> 1 || b = 2 && c = 3', '(a != 1 OR b = 2) AND c = 3'],
+      ["status in ['a',\"b\"]", "status IN ['a', 'b']"],
+      ['name like "A%"', "name LIKE 'A%'"],
+      ['x = TRUE AND y = Null', 'x = true AND y = null'],
+      ['amount > 1_000_000 -- large orders', 'amount > 1_000_000'],
+      ['lastLogin > now()-30d', 'lastLogin > now() - 30d'],
+      ['a--1 > 0', 'a - -1 > 0'],
+      ['x > 5 -- note', 'x > 5'],
+      ["LOWER(name) = 'a'", "lower(name) = 'a'"],
+      ['`order-id` = 7 AND `age` > 1', '`order-id` = 7 AND age > 1'],
+      ["name = \"O'Brien\"", "name = 'O\\'Brien'"],
+      ['count(items where qty>1) >= 2', 'COUNT(items WHERE qty > 1) >= 2'],
+      ['any items(price>100)', 'ANY items (price > 100)'],
+      ['age between 1 and 2', 'age BETWEEN 1 AND 2'],
+    ])('prints %s as %s', (source, expected) => {
+      expect(format(source)).toBe(expected);
+    });
+  });
+
+  describe('parentheses', () => {
+    it.each([
+      ['((a = 1))', 'a = 1'],
+      ['(a = 1 AND b = 2) AND c = 3', 'a = 1 AND b = 2 AND c = 3'],
+      ['a = 1 AND (b = 2 OR c = 3)', 'a = 1 AND (b = 2 OR c = 3)'],
+      ['(a = 1 OR b = 2) AND c = 3', '(a = 1 OR b = 2) AND c = 3'],
+      ['(a - b) - c > 0', 'a - b - c > 0'],
+      ['a - (b - c) > 0', 'a - (b - c) > 0'],
+      ['(a + b) * c > 0', '(a + b) * c > 0'],
+      ['((score * 2) + 1) > 10', 'score * 2 + 1 > 10'],
+      ['NOT (a = 1)', 'NOT a = 1'],
+      ['NOT (a = 1 OR b = 2)', 'NOT (a = 1 OR b = 2)'],
+      ['-(-x) = 1', '-(-x) = 1'],
+      ['-(a + b) = 1', '-(a + b) = 1'],
+    ])('prints %s as %s', (source, expected) => {
+      expect(format(source)).toBe(expected);
+    });
+  });
+
+  it.each([
+    "(age>=18)  and (country == \"US\" || country <> 'CA') and ((score * 2) + 1) > 10",
+    "NOT (status = 'banned' OR age < 18) AND tags CONTAINS 'vip'",
+    'a - (b - c) * -d % 2 >= round(total / 3, 2)',
+    "email MATCHES '^[a-z]+@' AND created BETWEEN '2024-01-01' AND now()",
+    "SUM(items.price WHERE category = 'gift') > 100 OR ALL items (qty > 0)",
+  ])('round-trips %s', (source) => {
+    const printed = format(source);
+    expect(format(printed)).toBe(printed);
+  });
+});
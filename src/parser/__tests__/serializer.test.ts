@@ -0,0 +1,168 @@
+import { parseExpression } from '../parser';
+import { deserializeExpression, serializeExpression } from '../serializer';
+import { printExpression } from '../printer';
+
+describe('serializeExpression', () => {
+  it('tags each node with its type, operator and span', () => {
+    expect(serializeExpression(parseExpression("age >= 18 AND country = 'US'"))).toEqual({
+      type: 'Logical',
+      operator: 'AND',
+      span: { start: 0, end: 28 },
+      left: {
+        type: 'Binary',
+        operator: '>=',
+        span: { start: 0, end: 9 },
+        left: { type: 'Identifier', name: 'age', path: ['age'], span: { start: 0, end: 3 } },
+        right: { type: 'Number', value: 18, raw: '18', span: { start: 7, end: 9 } },
+      },
+      right: {
+        type: 'Binary',
+        operator: '=',
+        span: { start: 14, end: 28 },
+        left: { type: 'Identifier', name: 'country', path: ['country'], span: { start: 14, end: 21 } },
+        right: { type: 'String', value: 'US', span: { start: 24, end: 28 } },
+      },
+    });
+  });
+
+  it('keeps paths, raw numbers and durations', () => {
+    const json = serializeExpression(parseExpression('orders[0].total > 1_000 AND since > now() - 30d'));
+    expect(json).toMatchObject({
+      left: { left: { path: ['orders', 0, 'total'] }, right: { value: 1000, raw: '1_000' } },
+      right: { right: { type: 'Arithmetic', right: { type: 'Duration', raw: '30d' } } },
+    });
+  });
+});
+
+describe('deserializeExpression', () => {
+  it.each([
+    "lower(name) MATCHES '^a[a-z]+$' AND round(price * 1.2, 2) > 10",
+    "NOT status IN ['a', 'b'] OR created NOT BETWEEN '2024-01-01' AND '2024-12-31'",
+    "ANY items (price > 100) AND COUNT(items WHERE category = 'gift') >= 2",
+    'flag = true AND manager = null AND -balance > 0',
+  ])('rebuilds the tree for %s', (source) => {
+    const json = serializeExpression(parseExpression(source));
+
+    const rebuilt = deserializeExpression(JSON.parse(JSON.stringify(json)));
+
+    expect(printExpression(rebuilt)).toBe(printExpression(parseExpression(source)));
+    expect(serializeExpression(rebuilt)).toEqual(json);
+  });
+
+  it('accepts nodes without spans', () => {
+    const expr = deserializeExpression({
+      type: 'Binary',
+      operator: '>',
+      left: { type: 'Identifier', name: 'age', path: ['age'] },
+      right: { type: 'Number', value: 18 },
+    });
+    expect(printExpression(expr)).toBe('age > 18');
+    expect(expr.span).toBeUndefined();
+  });
+
+  describe('invalid JSON', () => {
+    const age = { type: 'Identifier', name: 'age', path: ['age'] };
+
+    it.each([
+      [null, 'Invalid AST JSON at $: expected an object'],
+      [{ type: 'Comment' }, "Invalid AST JSON at $.type: unknown node type 'Comment'"],
+      [
+        { type: 'Binary', operator: 'AND', left: age, right: age },
+        'Invalid AST JSON at $.operator: expected one of',
+      ],
+      [
+        { type: 'Logical', operator: 'AND', left: age, right: { type: 'Number', value: '1' } },
+        'Invalid AST JSON at $.right.value: expected a number',
+      ],
+      [{ type: 'Date', value: '2024-13-01' }, "Invalid AST JSON at $.value: '2024-13-01' is not an ISO-8601 date"],
+      [{ type: 'Identifier', name: 'a', path: [true] }, 'Invalid AST JSON at $.path: expected field names and array indexes'],
+      [{ type: 'Null', span: { start: 5, end: 2 } }, 'Invalid AST JSON at $.span: expected 0 <= start <= end'],
+      [
+        { type: 'Aggregate', name: 'MEDIAN', field: age, filter: null },
+        "Invalid AST JSON at $.name: unknown aggregate 'MEDIAN'",
+      ],
+      [
+        { type: 'Binary', operator: 'MATCHES', left: age, right: { type: 'Number', value: 1 } },
+        'Invalid AST JSON at $.right: MATCHES requires a string pattern',
+      ],
+      [{ type: 'Regex', pattern: '[a-' }, 'Invalid AST JSON at $: Invalid regular expression'],
+    ])('rejects %j', (json, message) => {
+      expect(() => deserializeExpression(json)).toThrow(message);
+    });
+  });
+
+  describe('MATCHES patterns', () => {
+    const matches = (pattern: string) => ({
+      type: 'Binary',
+      operator: 'MATCHES',
+      left: { type: 'Identifier', name: 'name', path: ['name'] },
+      right: { type: 'Regex', pattern },
+    });
+
+    it('rejects nested quantifiers, like the parser', () => {
+      expect(() => parseExpression("name MATCHES '(a+)+$'")).toThrow('nested quantifiers are not allowed');
+      expect(() => deserializeExpression(matches('(a+)+$'))).toThrow(
+        'Invalid AST JSON at $.right: unsafe regular expression: nested quantifiers are not allowed'
+      );
+    });
+
+    it('rejects backreferences and over-long patterns', () => {
+      expect(() => deserializeExpression(matches('(a)\\1'))).toThrow('backreferences are not allowed');
+      expect(() => deserializeExpression(matches('a'.repeat(257)))).toThrow('pattern exceeds 256 characters');
+    });
+
+    it('rejects unsafe patterns given as a plain string', () => {
+      const json = { ...matches(''), right: { type: 'String', value: '(\\d*)*' } };
+      expect(() => deserializeExpression(json)).toThrow('nested quantifiers are not allowed');
+    });
+
+    it('rejects patterns that do not compile', () => {
+      expect(() => deserializeExpression(matches('[a-'))).toThrow('Invalid AST JSON at $.right');
+    });
+
+    it('accepts safe patterns', () => {
+      const expr = deserializeExpression(matches('^(foo|bar)+$'));
+      expect(printExpression(expr)).toBe("name MATCHES '^(foo|bar)+$'");
+    });
+  });
+
+  describe('function calls', () => {
+    const call = (name: string, args: unknown[]) => ({
+      type: 'Binary',
+      operator: '>',
+      left: { type: 'Call', name, args },
+      right: { type: 'Number', value: 3 },
+    });
+    const field = { type: 'Identifier', name: 'tags', path: ['tags'] };
+
+    it('rejects the wrong number of arguments', () => {
+      expect(() => deserializeExpression(call('len', []))).toThrow(
+        'Invalid AST JSON at $.left.args: Function len() expects 1 argument(s) but got 0 at position 0'
+      );
+      expect(() => deserializeExpression(call('round', [field, field, field]))).toThrow(
+        'Function round() expects 1 to 2 argument(s) but got 3'
+      );
+    });
+
+    it('rejects arguments of the wrong type', () => {
+      expect(() => deserializeExpression(call('abs', [{ type: 'String', value: 'x' }]))).toThrow(
+        'Function abs() expects number for argument 1 but got string'
+      );
+    });
+
+    it('rejects conditions as arguments', () => {
+      const condition = { type: 'Binary', operator: '=', left: field, right: { type: 'Number', value: 1 } };
+      expect(() => deserializeExpression(call('len', [condition]))).toThrow(
+        'Argument 1 of len() must be a value, not a condition'
+      );
+    });
+
+    it('rejects unknown functions', () => {
+      expect(() => deserializeExpression(call('size', [field]))).toThrow("unknown function 'size'");
+    });
+
+    it('accepts valid calls', () => {
+      expect(printExpression(deserializeExpression(call('len', [field])))).toBe('len(tags) > 3');
+    });
+  });
+});
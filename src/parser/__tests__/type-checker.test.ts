@@ -0,0 +1,111 @@
+import { parseSchema } from '../../domain/schema';
+import { parseExpression } from '../parser';
+import { checkExpression } from '../type-checker';
+
+const SCHEMA = parseSchema({
+  type: 'object',
+  properties: {
+    age: { type: 'number' },
+    name: { type: 'string' },
+    active: { type: 'boolean' },
+    signup: { type: 'date' },
+    tier: { type: 'string', enum: ['free', 'pro'] },
+    tags: { type: 'array', items: { type: 'string' } },
+    address: { type: 'object', properties: { country: { type: 'string' } } },
+    meta: { type: 'object' },
+    items: {
+      type: 'array',
+      items: { type: 'object', properties: { price: { type: 'number' }, category: { type: 'string' } } },
+    },
+  },
+});
+
+function messages(source: string): string[] {
+  return checkExpression(parseExpression(source), SCHEMA, source).map((diagnostic) => diagnostic.message);
+}
+
+describe('checkExpression', () => {
+  it.each([
+    'age > 18 AND name = \'Ann\'',
+    'active = TRUE OR tier IN [\'free\', \'pro\']',
+    'signup > now() - 30d',
+    "address.country = 'US' AND tags CONTAINS 'vip'",
+    'ANY items (price > 100 AND category = \'gift\')',
+    "SUM(items.price WHERE category = 'gift') > 50 AND COUNT(items) >= 3",
+    'meta.anything.below = 1',
+    'len(tags) > 2 AND lower(name) = \'ann\'',
+    'age + 1 > 18',
+  ])('accepts %s', (source) => {
+    expect(messages(source)).toEqual([]);
+  });
+
+  describe('unknown fields', () => {
+    it('suggests the closest field name', () => {
+      expect(messages('agee > 18')).toEqual(["Unknown field 'agee' at position 0. Did you mean 'age'?"]);
+    });
+
+    it('checks fields inside ANY/ALL against the element schema', () => {
+      expect(messages('ANY items (prise > 1)')).toEqual([
+        "Unknown field 'prise' in elements of 'items' at position 11. Did you mean 'price'?",
+      ]);
+    });
+
+    it('rejects paths below scalar fields', () => {
+      expect(messages("name.first = 'A'")).toEqual([
+        "Field 'name' is a string, so 'name.first' does not exist at position 0",
+      ]);
+    });
+
+    it('reports a location and suggestions with each diagnostic', () => {
+      const source = 'age > 1 AND\nagee > 18';
+      const [diagnostic] = checkExpression(parseExpression(source), SCHEMA, source);
+      expect(diagnostic).toMatchObject({
+        severity: 'error',
+        start: { line: 2, column: 1 },
+        suggestions: ['age'],
+      });
+    });
+  });
+
+  describe('type mismatches', () => {
+    it.each([
+      ["age = 'old'", "Cannot compare number field 'age' with string 'old' using = at position 4"],
+      ['name > 5', "Cannot compare string field 'name' with number 5 using > at position 5"],
+      ['lower(age) = \'a\'', "Function lower() expects string for argument 1 but got number field 'age' at position 0"],
+      ['ANY name (age > 1)', "ANY requires an array field but 'name' is a string at position 0"],
+      ['SUM(tags) > 1', "SUM() expects numeric values but 'tags' is a string at position 4"],
+    ])('%s', (source, message) => {
+      expect(messages(source)).toEqual([message]);
+    });
+
+    it('reports every problem, not just the first', () => {
+      expect(messages("agee > 18 AND name > 5")).toHaveLength(2);
+    });
+  });
+
+  describe('enums', () => {
+    it('rejects values outside the enum with a suggestion', () => {
+      expect(messages("tier = 'pr'")).toEqual([
+        "Value 'pr' is not allowed for field 'tier' at position 7. Expected one of 'free', 'pro'. Did you mean 'pro'?",
+      ]);
+    });
+
+    it('checks every IN list element', () => {
+      expect(messages("tier IN ['free', 'gold']")).toHaveLength(1);
+    });
+  });
+});
+
+describe('parseSchema', () => {
+  it.each([
+    [[], 'Invalid schema at $: expected an object'],
+    [{ type: 'array', items: { type: 'number' } }, 'Invalid schema at $.type: the data schema must be an object'],
+    [{ type: 'object', properties: { age: { type: 'int' } } }, 'Invalid schema at $.properties.age.type: expected one of string, number, boolean, date, array, object'],
+    [{ type: 'object', properties: { tags: { type: 'array', enum: ['a'] } } }, 'Invalid schema at $.properties.tags.enum: array fields cannot have an enum'],
+    [{ type: 'object', properties: { tier: { type: 'string', enum: [] } } }, 'Invalid schema at $.properties.tier.enum: expected a non-empty array'],
+    [{ type: 'object', properties: { tier: { type: 'string', enum: ['a', 1] } } }, 'Invalid schema at $.properties.tier.enum[1]: expected a string'],
+    [{ type: 'object', properties: { age: { type: 'number', items: { type: 'number' } } } }, 'Invalid schema at $.properties.age.items: only array fields have items'],
+  ])('rejects %j', (json, message) => {
+    expect(() => parseSchema(json)).toThrow(message);
+  });
+});
@@ -13,7 +13,9 @@
  * Lexer → Parser → AST → Evaluator
  */
 
-import { Token, TokenType } from '../domain/token';
+import { KEYWORDS, Token, TokenType } from '../domain/token';
+import { DURATION_UNITS } from '../domain/time';
+import { ESCAPES } from '../domain/strings';
 
 export class Lexer {
   private position = 0;       // Current position in input (current char)
@@ -67,16 +69,54 @@ export class Lexer {
     return this.input[this.readPosition];
   }
 
+  /**
+   * NEXT TOKEN
+   * Reads the next token and records where it ends
+   * 
+   * Example: for "age >= 18", the second call returns
+   * { type: GREATER_EQUAL, literal: ">=", position: 4, end: 6 }
+   * 
+   * @returns Next token (EOF once the input is exhausted)
+   */
   nextToken(): Token {
+    const tok = this.readToken();
+    // Every token path leaves the lexer just past the token's last character
+    // (capped for EOF, which steps one past the end of the input)
+    return { ...tok, end: Math.min(this.position, this.input.length) };
+  }
+
+  /**
+   * GET INPUT
+   * Returns the expression text being tokenized (used to compute line/column)
+   */
+  getInput(): string {
+    return this.input;
+  }
+
+  /**
+   * READ TOKEN
+   * Skips whitespace and comments, then reads one token
+   * 
+   * @returns Token without its end position
+   */
+  private readToken(): Token {
     let tok: Token;
 
-    this.skipWhitespace();
+    // Skip whitespace and comments (an unterminated /* comment is ILLEGAL)
+    const unterminated = this.skipWhitespaceAndComments();
+    if (unterminated) {
+      return unterminated;
+    }
 
     const pos = this.position;
 
     switch (this.ch) {
       case '=':
-        tok = { type: TokenType.EQUAL, literal: this.ch, position: pos };
+        // "==" is an alias for "="
+        if (this.peekChar() === '=') {
+          this.readChar();
+        }
+        tok = { type: TokenType.EQUAL, literal: '=', position: pos };
         break;
       case '!':
         if (this.peekChar() === '=') {
@@ -105,7 +145,11 @@ export class Lexer {
         }
         break;
       case '<':
-        if (this.peekChar() === '=') {
+        if (this.peekChar() === '>') {
+          // "<>" is an alias for "!="
+          this.readChar();
+          tok = { type: TokenType.NOT_EQUAL, literal: '!=', position: pos };
+        } else if (this.peekChar() === '=') {
           const ch = this.ch;
           this.readChar();
           tok = {
@@ -117,27 +161,79 @@ export class Lexer {
           tok = { type: TokenType.LESS, literal: this.ch, position: pos };
         }
         break;
+      case '&':
+      case '|':
+        // "&&" and "||" are aliases for AND and OR
+        if (this.peekChar() === this.ch) {
+          const type = this.ch === '&' ? TokenType.AND : TokenType.OR;
+          this.readChar();
+          tok = { type, literal: type, position: pos };
+        } else {
+          tok = { type: TokenType.ILLEGAL, literal: this.ch, position: pos };
+        }
+        break;
       case '(':
         tok = { type: TokenType.LEFT_PAREN, literal: this.ch, position: pos };
         break;
       case ')':
         tok = { type: TokenType.RIGHT_PAREN, literal: this.ch, position: pos };
         break;
+      case '+':
+        tok = { type: TokenType.PLUS, literal: this.ch, position: pos };
+        break;
+      case '-':
+        tok = { type: TokenType.MINUS, literal: this.ch, position: pos };
+        break;
+      case '*':
+        tok = { type: TokenType.ASTERISK, literal: this.ch, position: pos };
+        break;
+      case '/':
+        tok = { type: TokenType.SLASH, literal: this.ch, position: pos };
+        break;
+      case '%':
+        tok = { type: TokenType.PERCENT, literal: this.ch, position: pos };
+        break;
+      case '[':
+        tok = { type: TokenType.LEFT_BRACKET, literal: this.ch, position: pos };
+        break;
+      case ']':
+        tok = { type: TokenType.RIGHT_BRACKET, literal: this.ch, position: pos };
+        break;
+      case ',':
+        tok = { type: TokenType.COMMA, literal: this.ch, position: pos };
+        break;
       case "'":
-        const str = this.readString();
-        tok = { type: TokenType.STRING, literal: str, position: pos };
-        this.readChar();
-        return tok;
+      case '"':
+        return this.readString(this.ch);
       case null:
         tok = { type: TokenType.EOF, literal: '', position: pos };
         break;
       default:
-        if (this.isLetter(this.ch)) {
+        if (this.isLetter(this.ch) || this.ch === '`') {
           const literal = this.readIdentifier();
-          const type = this.lookupIdent(literal);
-          return { type, literal, position: pos };
+          if (literal === null) {
+            return {
+              type: TokenType.ILLEGAL,
+              literal: this.input.slice(pos),
+              position: pos,
+              message: 'Unterminated quoted identifier',
+            };
+          }
+          // Quoted identifiers are never keywords (`OR` is a field named OR)
+          const type = literal.startsWith('`') ? TokenType.IDENTIFIER : this.lookupIdent(literal);
+          // Keywords are case-insensitive; their literal is normalized to upper case
+          return {
+            type,
+            literal: type === TokenType.IDENTIFIER ? literal : literal.toUpperCase(),
+            position: pos,
+          };
         } else if (this.isDigit(this.ch)) {
           const literal = this.readNumber();
+          // A unit directly after the number makes it a duration (30d, 12h)
+          const unit = this.readDurationUnit();
+          if (unit) {
+            return { type: TokenType.DURATION, literal: literal + unit, position: pos };
+          }
           return { type: TokenType.NUMBER, literal, position: pos };
         } else {
           tok = { type: TokenType.ILLEGAL, literal: this.ch, position: pos };
@@ -149,87 +245,373 @@ export class Lexer {
   }
 
   /**
-   * SKIP WHITESPACE
-   * Advances position past all whitespace characters
+   * SKIP WHITESPACE AND COMMENTS
+   * Advances position past all whitespace characters and comments
    * Whitespace is ignored in expressions: "age  >=  18" same as "age>=18"
+   * 
+   * Comments:
+   * - "-- text" runs to the end of the line; "--" must be followed by
+   *   whitespace or the end of the input
+   * - "/* text *\/" may span lines
+   * 
+   * Example:
+   * "age >= 18 -- adults only\nAND country = 'US' /* launch market *\/"
+   * → same tokens as "age >= 18 AND country = 'US'"
+   * 
+   * "--" followed by anything else is two minus signs, wherever it appears:
+   * "a--1 > 0" is "a - -1 > 0" and "x > 5--note" is "x > 5 - -note", while
+   * "a -- note", "a--\n" and "a = 1 AND-- note" are commented.
+   * 
+   * @returns ILLEGAL token for an unterminated block comment, null otherwise
    */
-  private skipWhitespace(): void {
-    while (
-      this.ch === ' ' ||  // Space
-      this.ch === '\t' || // Tab
-      this.ch === '\n' || // Newline
-      this.ch === '\r'    // Carriage return
-    ) {
+  private skipWhitespaceAndComments(): Token | null {
+    while (true) {
+      const next = this.peekChar();
+      if (
+        this.ch === ' ' ||  // Space
+        this.ch === '\t' || // Tab
+        this.ch === '\n' || // Newline
+        this.ch === '\r'    // Carriage return
+      ) {
+        this.readChar();
+      } else if (this.ch === '-' && next === '-' && this.startsLineComment()) {
+        // Line comment: skip to the newline (or end of input)
+        const end = this.input.indexOf('\n', this.position);
+        this.advanceTo(end === -1 ? this.input.length : end);
+      } else if (this.ch === '/' && next === '*') {
+        // Block comment: skip past the closing */
+        const start = this.position;
+        const end = this.input.indexOf('*/', start + 2);
+        if (end === -1) {
+          this.advanceTo(this.input.length);
+          return {
+            type: TokenType.ILLEGAL,
+            literal: this.input.slice(start),
+            position: start,
+            message: 'Unterminated comment',
+          };
+        }
+        this.advanceTo(end + 2);
+      } else {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * STARTS LINE COMMENT
+   * Whether the "--" at the current position is followed by whitespace or
+   * the end of the input (e.g., "-- note", but not "--1" or "--note")
+   * 
+   * @returns true if the "--" starts a line comment
+   */
+  private startsLineComment(): boolean {
+    const after = this.input[this.position + 2];
+    return after === undefined || /\s/.test(after);
+  }
+
+  /**
+   * ADVANCE TO
+   * Reads characters until the current position reaches the given index
+   * 
+   * @param index - Input index to stop at
+   */
+  private advanceTo(index: number): void {
+    while (this.position < index) {
       this.readChar();
     }
   }
 
   /**
    * READ IDENTIFIER
-   * Reads a complete identifier or keyword (age, country, status, AND, OR)
+   * Reads a complete identifier or keyword (age, country, status, AND, OR, NOT)
    * Continues reading while current char is letter, digit, or underscore
    * 
-   * Example: "age_limit" → reads all characters until space or operator
+   * Identifiers may also be field paths into nested data:
+   * - ".name" continues into a nested object (user.address.country)
+   * - "[0]" indexes into an array (orders[0].total)
+   * 
+   * Any segment can be a quoted identifier in backticks, for keys with spaces,
+   * dashes or reserved words: `order-id`, customer.`Customer Name`, `OR`
+   * (inside backticks, \` is a backtick and \\ a backslash).
+   * 
+   * Keywords never continue into a path, so "IN[1]" still lexes as IN + list.
+   * 
+   * Examples:
+   * - "age_limit" → reads all characters until space or operator
+   * - "user.address.country" → one identifier with the full path
+   * - "orders[0].total" → one identifier with the full path
+   * - "`line items`[0].`unit-price`" → one identifier with the full path
    * 
-   * @returns The complete identifier string
+   * @returns The complete identifier (or path) string as written,
+   *          or null if a quoted segment is not closed
    */
-  private readIdentifier(): string {
+  private readIdentifier(): string | null {
     const position = this.position;
-    // Read while letter, digit, or underscore (allows user_id, age_2, etc.)
+    if (this.ch === '`') {
+      if (!this.readQuotedSegment()) return null;
+    } else {
+      this.readWord();
+
+      // Keywords are never the start of a field path
+      if (this.lookupIdent(this.input.slice(position, this.position)) !== TokenType.IDENTIFIER) {
+        return this.input.slice(position, this.position);
+      }
+    }
+
+    // Continue through path segments: .field, .`quoted field` and [index]
+    while (true) {
+      const next = this.peekChar();
+      if (this.ch === '.' && next !== null && (this.isLetter(next) || next === '_')) {
+        this.readChar(); // Consume '.'
+        this.readWord();
+      } else if (this.ch === '.' && next === '`') {
+        this.readChar(); // Consume '.'
+        if (!this.readQuotedSegment()) return null;
+      } else if (this.ch === '[' && this.indexEndAhead() !== -1) {
+        // Consume '[', the digits and ']'
+        const end = this.indexEndAhead();
+        while (this.position <= end) {
+          this.readChar();
+        }
+      } else {
+        break;
+      }
+    }
+    return this.input.slice(position, this.position);
+  }
+
+  /**
+   * READ QUOTED SEGMENT
+   * Consumes a backtick-quoted identifier segment, including both backticks
+   * 
+   * A backslash escapes the next character (\` or \\).
+   * 
+   * @returns true if the closing backtick was found, false at end of input
+   */
+  private readQuotedSegment(): boolean {
+    this.readChar(); // Skip opening backtick
+    while (this.ch !== '`') {
+      if (this.ch === null) {
+        return false;
+      }
+      if (this.ch === '\\') {
+        this.readChar(); // Skip the escaped character
+        if (this.ch === null) {
+          return false;
+        }
+      }
+      this.readChar();
+    }
+    this.readChar(); // Skip closing backtick
+    return true;
+  }
+
+  /**
+   * READ WORD
+   * Advances past a run of letters, digits and underscores
+   * (allows user_id, age_2, etc.)
+   */
+  private readWord(): void {
     while (this.ch && (this.isLetter(this.ch) || this.isDigit(this.ch) || this.ch === '_')) {
       this.readChar();
     }
-    return this.input.slice(position, this.position);
+  }
+
+  /**
+   * INDEX END AHEAD
+   * Checks whether the input at the current '[' is an array index: [digits]
+   * 
+   * Examples:
+   * - "[0].total" → position of the ']'
+   * - "[12]" → position of the ']'
+   * - "['US']" → -1 (list literal, not an index)
+   * 
+   * @returns Position of the closing ']' if current char starts a numeric index, -1 otherwise
+   */
+  private indexEndAhead(): number {
+    let i = this.readPosition;
+    while (i < this.input.length && this.isDigit(this.input[i])) {
+      i++;
+    }
+    return i > this.readPosition && this.input[i] === ']' ? i : -1;
+  }
+
+  /**
+   * READ ESCAPE
+   * Decodes the escape sequence whose backslash was just consumed
+   * 
+   * Leaves the current character on the last character of the sequence.
+   * 
+   * Examples (current character after the backslash):
+   * - n → "\n"
+   * - u with "00e9" ahead → "é"
+   * - d → "\\d" (unknown escape kept as written)
+   * 
+   * @param escapePos - Position of the backslash (for error reporting)
+   * @returns Decoded text, or an ILLEGAL token for a malformed \uXXXX escape
+   */
+  private readEscape(escapePos: number): string | Token {
+    const ch = this.ch as string;
+    if (ch === 'u') {
+      const hex = this.input.slice(this.readPosition, this.readPosition + 4);
+      if (!/^[0-9A-Fa-f]{4}$/.test(hex)) {
+        return {
+          type: TokenType.ILLEGAL,
+          literal: `\\u${hex}`,
+          position: escapePos,
+          message: `Invalid escape sequence '\\u${hex}'`,
+        };
+      }
+      for (let i = 0; i < 4; i++) this.readChar();
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+    if (Object.prototype.hasOwnProperty.call(ESCAPES, ch)) {
+      return ESCAPES[ch];
+    }
+    return `\\${ch}`; // Unknown escape: keep as written
   }
 
   /**
    * READ NUMBER
-   * Reads integer or decimal number (18, 99.99, 0.5)
-   * Supports decimal points followed by digits
+   * Reads integer, decimal or scientific number (18, 99.99, 1e-6, 1_000_000)
+   * Supports decimal points followed by digits, exponents and _ digit separators
    * 
    * Examples:
    * - "18" → "18"
    * - "99.99" → "99.99"
-   * - "0.5" → "0.5"
+   * - "1e-6" → "1e-6"
+   * - "1_000_000" → "1_000_000"
+   * 
+   * Underscores are read greedily; the parser rejects misplaced ones ("1__0", "1_").
+   * A leading minus is not part of the number - it is a separate MINUS token.
    * 
-   * @returns The complete number string
+   * @returns The complete number string (as written)
    */
   private readNumber(): string {
     const position = this.position;
     // Read integer part
-    while (this.ch && this.isDigit(this.ch)) {
-      this.readChar();
-    }
+    this.readDigits();
     // Handle decimal numbers (e.g., 99.99)
     if (this.ch === '.' && this.peekChar() && this.isDigit(this.peekChar()!)) {
       this.readChar(); // Consume '.'
       // Read decimal part
-      while (this.ch && this.isDigit(this.ch)) {
-        this.readChar();
+      this.readDigits();
+    }
+    // Handle exponents (e.g., 1e6, 2.5E-3) - only when digits follow
+    const exponent = /^[eE][+-]?[0-9]/.exec(this.input.slice(this.position, this.position + 3));
+    if (exponent) {
+      for (let i = 0; i < exponent[0].length; i++) {
+        this.readChar(); // Consume 'e', optional sign and first digit
       }
+      this.readDigits();
     }
     return this.input.slice(position, this.position);
   }
 
   /**
-   * READ STRING
-   * Reads string literal enclosed in single quotes
-   * Example: 'US' → US (without quotes)
+   * READ DIGITS
+   * Consumes a run of digits and _ separators
+   */
+  private readDigits(): void {
+    while (this.ch && (this.isDigit(this.ch) || this.ch === '_')) {
+      this.readChar();
+    }
+  }
+
+  /**
+   * READ DURATION UNIT
+   * Consumes a duration unit that directly follows a number, if present
    * 
-   * String must be enclosed in single quotes: 'value'
-   * Reads until closing quote or end of input
+   * Units: ms, s, m, h, d, w (see DURATION_UNITS)
+   * The unit must end the word, so "30days" or "5x" are not durations.
    * 
-   * @returns String content without quotes
+   * Examples:
+   * - "30d" → after reading "30", consumes "d" and returns "d"
+   * - "500ms" → consumes "ms"
+   * - "18 " → returns "" (plain number)
+   * 
+   * @returns The unit consumed, or an empty string if none
    */
-  private readString(): string {
-    const position = this.position + 1; // Skip opening quote
-    while (true) {
+  private readDurationUnit(): string {
+    const start = this.position;
+    let end = start;
+    while (end < this.input.length && /[a-z]/.test(this.input[end])) {
+      end++;
+    }
+    const unit = this.input.slice(start, end);
+    const next = this.input[end];
+    if (
+      !Object.prototype.hasOwnProperty.call(DURATION_UNITS, unit) ||
+      (next !== undefined && (this.isLetter(next) || this.isDigit(next) || next === '_'))
+    ) {
+      return '';
+    }
+    for (let i = 0; i < unit.length; i++) {
       this.readChar();
-      if (this.ch === "'" || this.ch === null) {
-        break; // Stop at closing quote or end of input
+    }
+    return unit;
+  }
+
+  /**
+   * READ STRING
+   * Reads a string literal enclosed in single or double quotes
+   * Examples:
+   * - 'US' → STRING(US)
+   * - "O'Brien" → STRING(O'Brien)
+   * - 'O\'Brien' → STRING(O'Brien)
+   * 
+   * Escape sequences are decoded as described in domain/strings.ts.
+   * 
+   * Errors (returned as ILLEGAL tokens with a message):
+   * - No closing quote before end of input → position of the opening quote
+   * - Malformed \uXXXX escape → position of the backslash
+   * 
+   * @param quote - Opening quote character (' or ")
+   * @returns STRING token with the decoded value, or ILLEGAL token
+   */
+  private readString(quote: string): Token {
+    const start = this.position;
+    let value = '';
+    let invalidEscape: Token | null = null;
+
+    this.readChar(); // Skip opening quote
+    while (this.ch !== quote) {
+      if (this.ch === null) {
+        return {
+          type: TokenType.ILLEGAL,
+          literal: this.input.slice(start),
+          position: start,
+          message: 'Unterminated string',
+        };
+      }
+
+      if (this.ch === '\\') {
+        const escapePos = this.position;
+        this.readChar(); // Move to escaped character
+        if (this.ch === null) {
+          continue; // Backslash at end of input: unterminated
+        }
+        const decoded = this.readEscape(escapePos);
+        if (typeof decoded === 'string') {
+          value += decoded;
+        } else if (!invalidEscape) {
+          invalidEscape = decoded;
+        }
+        this.readChar();
+        continue;
       }
+
+      value += this.ch;
+      this.readChar();
     }
-    return this.input.slice(position, this.position);
+    this.readChar(); // Skip closing quote
+
+    // Report a bad escape only once the whole string has been consumed
+    if (invalidEscape) {
+      return invalidEscape;
+    }
+    return { type: TokenType.STRING, literal: value, position: start };
   }
 
   /**
@@ -258,22 +640,34 @@ export class Lexer {
 
   /**
    * LOOKUP IDENT
-   * Determines if identifier is a keyword (AND, OR) or regular identifier
+   * Determines if identifier is a keyword (AND, OR, NOT, IN, BETWEEN, string matching
+   * operators, ANY, ALL, WHERE, true, false, null) or regular identifier
    * 
-   * Keywords are case-sensitive:
+   * Keywords are case-insensitive ("and", "And" and "AND" are all AND):
    * - "AND" → TokenType.AND
    * - "OR" → TokenType.OR
+   * - "NOT" → TokenType.NOT
+   * - "IN" → TokenType.IN
+   * - "BETWEEN" → TokenType.BETWEEN
+   * - "ANY" / "ALL" → TokenType.ANY / TokenType.ALL
+   * - "WHERE" → TokenType.WHERE
+   * - "CONTAINS", "STARTS_WITH", "ENDS_WITH", "LIKE" (and I-prefixed variants)
+   *   → matching string operator token types
+   * - "MATCHES" → TokenType.MATCHES
+   * - "true" → TokenType.TRUE
+   * - "false" → TokenType.FALSE
+   * - "null" → TokenType.NULL
    * - "age" → TokenType.IDENTIFIER
    * 
    * @param ident - Identifier string to look up
    * @returns Token type (keyword or IDENTIFIER)
    */
   private lookupIdent(ident: string): TokenType {
-    const keywords: Record<string, TokenType> = {
-      AND: TokenType.AND,
-      OR: TokenType.OR,
-    };
     // Return keyword type if found, otherwise IDENTIFIER
-    return keywords[ident] || TokenType.IDENTIFIER;
+    // (own-property check so names like "toString" stay identifiers)
+    const word = ident.toUpperCase();
+    return Object.prototype.hasOwnProperty.call(KEYWORDS, word)
+      ? KEYWORDS[word]
+      : TokenType.IDENTIFIER;
   }
 }
@@ -0,0 +1,550 @@
+/**
+ * LINTER: Flags expressions that parse but are likely to be mistakes
+ * 
+ * Reviewers keep pointing out the same smells in rules that are perfectly
+ * valid syntax. The linter runs a set of rules over the parsed AST and
+ * reports each finding as a positioned diagnostic naming the rule:
+ * 
+ * - duplicate-clause: "a = 1 AND b = 2 AND a = 1" repeats "a = 1"
+ * - mixed-logical-operators: "a = 1 OR b = 2 AND c = 3" groups as
+ *   "(a = 1 OR b = 2) AND c = 3", since AND and OR share one precedence level
+ * - mixed-type-comparison: "age > '18'" compares a number-like string, and
+ *   "age > 18 OR age = 'unknown'" compares one field with numbers and strings;
+ *   strings are never converted to numbers, so one side fails or never matches
+ * - max-depth: conditions nested more than MAX_DEPTH groups deep
+ * 
+ * Rules are pluggable: a LintRule is a name, a default severity and a check
+ * function, so callers can pass their own rules alongside LINT_RULES. Each
+ * rule's severity can be overridden (or the rule turned off) per call:
+ * 
+ * lintExpression(ast, source, { "max-depth": "off", "duplicate-clause": "error" })
+ * 
+ * Unlike the optimizer (see evaluator/optimizer.ts), the linter only reports;
+ * it never changes the AST.
+ */
+
+import { TokenType } from '../domain/token';
+import {
+  Expression,
+  BinaryExpression,
+  BetweenExpression,
+  LogicalExpression,
+  Identifier,
+  NumberLiteral,
+  StringLiteral,
+  DateLiteral,
+  BooleanLiteral,
+  ListLiteral,
+  QuantifierExpression,
+  AggregateExpression,
+} from '../domain/ast';
+import { Diagnostic, DiagnosticSeverity, locate, suggest } from '../domain/diagnostic';
+import { ExpressionVisitor } from '../domain/visitor';
+import { quotePath, quoteString } from '../domain/strings';
+import { printExpression } from './printer';
+
+/**
+ * LINT SEVERITY
+ * How a rule's findings are reported ('off' disables the rule)
+ */
+export type LintSeverity = DiagnosticSeverity | 'off';
+
+/**
+ * LINT SEVERITIES
+ * All valid severities
+ */
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'off'];
+
+/**
+ * LINT CONFIG
+ * Severity overrides keyed by rule name (rules not listed keep their default)
+ * 
+ * Example: { "max-depth": "off", "duplicate-clause": "error" }
+ */
+export type LintConfig = Record<string, LintSeverity>;
+
+/**
+ * LINT DIAGNOSTIC
+ * A diagnostic produced by a lint rule
+ */
+export interface LintDiagnostic extends Diagnostic {
+  /** Name of the rule that reported it (e.g., "duplicate-clause") */
+  rule: string;
+}
+
+/**
+ * LINT CONTEXT
+ * What a rule gets besides the AST
+ */
+export interface LintContext {
+  /** Expression text the AST was parsed from */
+  source: string;
+
+  /**
+   * Records a finding covering a node's text
+   * @param node - Node the finding is about
+   * @param message - Description, including "at position N" like parser messages
+   */
+  report(node: Expression, message: string): void;
+}
+
+/**
+ * LINT RULE
+ * One check run over the whole AST
+ * 
+ * Example - flagging regular expressions:
+ * const noRegex: LintRule = {
+ *   name: 'no-regex',
+ *   description: 'MATCHES is slow on large inputs',
+ *   severity: 'warning',
+ *   check: (ast, context) => { ... context.report(node, `MATCHES used at position ${...}`) ... },
+ * };
+ * lintExpression(ast, source, {}, [...LINT_RULES, noRegex])
+ */
+export interface LintRule {
+  /** Unique kebab-case name, used in configs and diagnostics */
+  name: string;
+
+  /** One-line summary of what the rule flags */
+  description: string;
+
+  /** Severity used unless the config overrides it */
+  severity: DiagnosticSeverity;
+
+  /**
+   * Reports every finding in the AST through context.report()
+   * @param ast - Root node of the AST
+   * @param context - Source text and reporting callback
+   */
+  check(ast: Expression, context: LintContext): void;
+}
+
+/**
+ * MAX DEPTH
+ * Deepest nesting of condition groups the max-depth rule accepts
+ * 
+ * Each AND/OR chain, ANY/ALL predicate and aggregate WHERE filter opens a
+ * group (a predicate that is itself a chain opens one); "a AND (b OR c)" is
+ * 2 deep. Parentheses around a chain of the same operator ("a AND (b AND c)")
+ * do not add a level.
+ */
+export const MAX_DEPTH = 4;
+
+/**
+ * LINT EXPRESSION
+ * Runs lint rules over a parsed expression
+ * 
+ * Example:
+ * lintExpression(parseExpression("a = 1 AND b = 2 AND a = 1 OR c = 3"), source)
+ * → [
+ *   { rule: "mixed-logical-operators", severity: "error", message: "AND and OR are mixed without parentheses at position 26. ...", ... },
+ *   { rule: "duplicate-clause", severity: "warning", message: "Clause \"a = 1\" is repeated at position 20", ... }
+ * ]
+ * 
+ * @param expr - Root node of the AST (as parsed, before optimization)
+ * @param source - Expression text the AST was parsed from (for line/column locations)
+ * @param config - Severity overrides by rule name
+ * @param rules - Rules to run (LINT_RULES plus any custom rules)
+ * @returns Findings in source order, empty if the expression is clean
+ */
+export function lintExpression(
+  expr: Expression,
+  source: string,
+  config: LintConfig = {},
+  rules: LintRule[] = LINT_RULES
+): LintDiagnostic[] {
+  const found: { offset: number; diagnostic: LintDiagnostic }[] = [];
+
+  for (const rule of rules) {
+    const severity = config[rule.name] ?? rule.severity;
+    if (severity === 'off') {
+      continue;
+    }
+    rule.check(expr, {
+      source,
+      report: (node, message) => {
+        const span = node.span ?? { start: 0, end: source.length };
+        found.push({
+          offset: span.start,
+          diagnostic: {
+            severity,
+            message,
+            start: locate(source, span.start),
+            end: locate(source, span.end),
+            rule: rule.name,
+          },
+        });
+      },
+    });
+  }
+
+  // Sort is stable, so findings at the same offset keep rule order
+  return found.sort((a, b) => a.offset - b.offset).map(({ diagnostic }) => diagnostic);
+}
+
+/**
+ * PARSE LINT CONFIG
+ * Validates a lint config document (e.g., from a request body)
+ * 
+ * Example:
+ * parseLintConfig({ "max-dept": "off" })
+ * → Error: Invalid lint config: unknown rule 'max-dept'. Did you mean 'max-depth'?
+ * 
+ * @param json - Config document: an object mapping rule names to severities
+ * @param rules - Rules the names must refer to
+ * @returns The validated config
+ * @throws Error naming the first invalid entry
+ */
+export function parseLintConfig(json: unknown, rules: LintRule[] = LINT_RULES): LintConfig {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('Invalid lint config: expected an object mapping rule names to severities');
+  }
+
+  const names = rules.map((rule) => rule.name);
+  const config: LintConfig = {};
+  for (const [name, severity] of Object.entries(json)) {
+    if (!names.includes(name)) {
+      const suggestions = suggest(name, names);
+      const hint = suggestions.length > 0 ? ` Did you mean '${suggestions[0]}'?` : '';
+      throw new Error(`Invalid lint config: unknown rule '${name}'.${hint}`);
+    }
+    const valid = LINT_SEVERITIES.find((candidate) => candidate === severity);
+    if (valid === undefined) {
+      throw new Error(
+        `Invalid lint config: severity of '${name}' must be one of ${LINT_SEVERITIES.join(', ')}`
+      );
+    }
+    config[name] = valid;
+  }
+  return config;
+}
+
+/**
+ * CHILDREN
+ * Visitor listing a node's direct child nodes
+ * (quantifier collections and aggregate fields included)
+ */
+const children: ExpressionVisitor<Expression[]> = {
+  visitBinaryExpression: (node) => [node.left, node.right],
+  visitArithmeticExpression: (node) => [node.left, node.right],
+  visitBetweenExpression: (node) => [node.value, node.low, node.high],
+  visitLogicalExpression: (node) => [node.left, node.right],
+  visitUnaryExpression: (node) => [node.operand],
+  visitIdentifier: () => [],
+  visitNumberLiteral: () => [],
+  visitStringLiteral: () => [],
+  visitDateLiteral: () => [],
+  visitDurationLiteral: () => [],
+  visitBooleanLiteral: () => [],
+  visitNullLiteral: () => [],
+  visitListLiteral: (node) => node.elements,
+  visitRegexLiteral: () => [],
+  visitCallExpression: (node) => node.args,
+  visitQuantifierExpression: (node) => [node.collection, node.predicate],
+  visitAggregateExpression: (node) => (node.filter ? [node.field, node.filter] : [node.field]),
+};
+
+/**
+ * WALK
+ * Calls visit for every node of a tree, parents before children
+ * 
+ * @param expr - Root node
+ * @param visit - Callback receiving each node and its parent (null for the root)
+ * @param parent - Parent of expr
+ */
+function walk(
+  expr: Expression,
+  visit: (node: Expression, parent: Expression | null) => void,
+  parent: Expression | null = null
+): void {
+  visit(expr, parent);
+  for (const child of expr.accept(children)) {
+    walk(child, visit, expr);
+  }
+}
+
+/**
+ * OPERANDS OF
+ * Flattens a chain of one logical operator into its operands
+ * 
+ * Example: "a AND (b AND c)" → [a, b, c]
+ * 
+ * @param expr - Chain (or any other node, which is its own only operand)
+ * @param operator - AND or OR
+ * @returns Operands, left to right
+ */
+function operandsOf(expr: Expression, operator: TokenType): Expression[] {
+  return expr instanceof LogicalExpression && expr.operator.type === operator
+    ? [...operandsOf(expr.left, operator), ...operandsOf(expr.right, operator)]
+    : [expr];
+}
+
+/**
+ * CONTINUES CHAIN
+ * Whether a logical node is an operand of a same-operator parent, so its
+ * chain was already handled at the parent
+ * 
+ * @param node - Logical node
+ * @param parent - Its parent
+ */
+function continuesChain(node: LogicalExpression, parent: Expression | null): boolean {
+  return parent instanceof LogicalExpression && parent.operator.type === node.operator.type;
+}
+
+/**
+ * IS PARENTHESIZED
+ * Whether a logical node was written inside its own parentheses
+ * 
+ * A group's span includes its parentheses (see Parser.parseExpression), so
+ * it ends after its right operand; an unparenthesized node ends with it.
+ * 
+ * @param node - Logical node
+ */
+function isParenthesized(node: LogicalExpression): boolean {
+  const { span } = node as Expression;
+  return span !== undefined && node.right.span !== undefined && span.end > node.right.span.end;
+}
+
+/**
+ * DUPLICATE CLAUSE
+ * "a = 1 AND b = 2 AND a = 1" - the same clause twice in one AND/OR chain
+ * 
+ * Clauses are compared by their canonical text, so spacing, keyword case,
+ * aliases and redundant parentheses do not hide a repeat.
+ */
+const duplicateClause: LintRule = {
+  name: 'duplicate-clause',
+  description: 'The same clause appears twice in one AND/OR chain',
+  severity: 'warning',
+  check: (ast, context) =>
+    walk(ast, (node, parent) => {
+      if (!(node instanceof LogicalExpression) || continuesChain(node, parent)) {
+        return;
+      }
+      const seen = new Set<string>();
+      for (const operand of operandsOf(node, node.operator.type)) {
+        const text = printExpression(operand);
+        if (seen.has(text)) {
+          context.report(operand, `Clause "${text}" is repeated at position ${operand.span?.start ?? 0}`);
+        }
+        seen.add(text);
+      }
+    }),
+};
+
+/**
+ * MIXED LOGICAL OPERATORS
+ * "a = 1 OR b = 2 AND c = 3" - AND and OR in one unparenthesized run
+ * 
+ * AND and OR share one precedence level and group left to right, so this
+ * means "(a = 1 OR b = 2) AND c = 3" - not what a reader used to SQL expects.
+ * Reported once per run, at the first operator that switches.
+ */
+const mixedLogicalOperators: LintRule = {
+  name: 'mixed-logical-operators',
+  description: 'AND and OR are mixed without parentheses',
+  severity: 'error',
+  check: (ast, context) =>
+    walk(ast, (node, parent) => {
+      // Runs start at a logical node that is not continued by its parent
+      // (the root of the run, its own group, or an operand of a non-logical node)
+      if (
+        !(node instanceof LogicalExpression) ||
+        (parent instanceof LogicalExpression && !isParenthesized(node))
+      ) {
+        return;
+      }
+
+      // Unparenthesized mixing can only happen down the left spine
+      let switched: LogicalExpression | null = null;
+      for (let current = node; ; ) {
+        const left = current.left;
+        if (!(left instanceof LogicalExpression) || isParenthesized(left)) {
+          break;
+        }
+        if (left.operator.type !== current.operator.type) {
+          switched = current;
+        }
+        current = left;
+      }
+
+      if (switched) {
+        context.report(
+          node,
+          `AND and OR are mixed without parentheses at position ${switched.operator.position}. ` +
+            `They have equal precedence, so this groups as "${printExpression(node)}"; ` +
+            'add parentheses to make the grouping explicit'
+        );
+      }
+    }),
+};
+
+/**
+ * LITERAL TYPE
+ * Type of a literal value, as far as comparisons are concerned
+ * 
+ * @param expr - Node
+ * @returns Type name, or null if the node is not a number, string, date or boolean literal
+ */
+function literalType(expr: Expression): string | null {
+  if (expr instanceof NumberLiteral) return 'number';
+  if (expr instanceof DateLiteral) return 'date';
+  if (expr instanceof StringLiteral) return 'string';
+  if (expr instanceof BooleanLiteral) return 'boolean';
+  return null;
+}
+
+/**
+ * FIELD COMPARISONS
+ * Pairs each field of a comparison with the literals it is compared against
+ * 
+ * Examples:
+ * - "age > 18" → [[age, 18]]
+ * - "18 < age" → [[age, 18]]
+ * - "tier IN ['free', 'pro']" → [[tier, 'free'], [tier, 'pro']]
+ * - "age BETWEEN 18 AND 65" → [[age, 18], [age, 65]]
+ * 
+ * @param node - Any node
+ * @returns Field/literal pairs (empty for anything but such comparisons)
+ */
+function fieldComparisons(node: Expression): [Identifier, Expression][] {
+  if (node instanceof BetweenExpression) {
+    return node.value instanceof Identifier
+      ? [[node.value, node.low], [node.value, node.high]]
+      : [];
+  }
+  if (!(node instanceof BinaryExpression)) {
+    return [];
+  }
+  switch (node.operator.type) {
+    case TokenType.EQUAL:
+    case TokenType.NOT_EQUAL:
+    case TokenType.GREATER:
+    case TokenType.LESS:
+    case TokenType.GREATER_EQUAL:
+    case TokenType.LESS_EQUAL:
+      if (node.left instanceof Identifier) return [[node.left, node.right]];
+      if (node.right instanceof Identifier) return [[node.right, node.left]];
+      return [];
+    case TokenType.IN:
+    case TokenType.NOT_IN: {
+      const field = node.left;
+      return field instanceof Identifier && node.right instanceof ListLiteral
+        ? node.right.elements.map((element): [Identifier, Expression] => [field, element])
+        : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * MIXED TYPE COMPARISON
+ * "age > '18'" and "age > 18 OR age = 'unknown'" - numbers mixed with strings
+ * 
+ * The evaluator never converts strings to numbers: ordering a number field
+ * against '18' throws "Cannot compare non-numeric, non-date values", and
+ * = or IN against '18' never matches. A field compared with both numbers
+ * and strings hits the same problem on one side or the other, so both are
+ * reported as errors by default. Fields inside ANY/ALL predicates and
+ * aggregate WHERE filters belong to array elements, so they are tracked
+ * separately from fields of the same name outside.
+ */
+const mixedTypeComparison: LintRule = {
+  name: 'mixed-type-comparison',
+  description: 'A field is compared with a number written as a string, or with values of different types',
+  severity: 'error',
+  check: (ast, context) => {
+    // First literal compared with each field, per scope (null = the data root)
+    const scopes = new Map<Expression | null, Map<string, { type: string; value: Expression; reported: boolean }>>();
+    const scopeOf = new Map<Expression, Expression | null>();
+
+    walk(ast, (node, parent) => {
+      const scope =
+        parent instanceof QuantifierExpression || parent instanceof AggregateExpression
+          ? parent
+          : parent && (scopeOf.get(parent) ?? null);
+      scopeOf.set(node, scope);
+
+      for (const [field, value] of fieldComparisons(node)) {
+        const type = literalType(value);
+        if (type === null) {
+          continue;
+        }
+        const name = quotePath(field.path);
+        const position = value.span?.start ?? 0;
+
+        if (value instanceof StringLiteral && value.value.trim() !== '' && String(Number(value.value)) === value.value) {
+          context.report(
+            value,
+            `Field '${name}' is compared with the string ${quoteString(value.value)} at position ${position}. ` +
+              `If '${name}' holds numbers, this fails or never matches; write ${value.value} without quotes`
+          );
+          continue;
+        }
+
+        const fields = scopes.get(scope) ?? new Map();
+        scopes.set(scope, fields);
+        const first = fields.get(name);
+        if (!first) {
+          fields.set(name, { type, value, reported: false });
+          continue;
+        }
+        // Dates are written as strings, so the two mix freely
+        const compatible =
+          first.type === type || [first.type, type].every((t) => t === 'date' || t === 'string');
+        if (!compatible && !first.reported) {
+          first.reported = true;
+          context.report(
+            value,
+            `Field '${name}' is compared with ${type === 'number' ? 'a number' : `a ${type}`} at position ${position} ` +
+              `but with ${first.type === 'number' ? 'a number' : `a ${first.type}`} at position ${first.value.span?.start ?? 0}. ` +
+              'One of the two fails or never matches, whichever type the field holds'
+          );
+        }
+      }
+    });
+  },
+};
+
+/**
+ * MAX DEPTH RULE
+ * Conditions nested more than MAX_DEPTH groups deep
+ * 
+ * Reported once per over-deep group, at its outermost node.
+ */
+const maxDepth: LintRule = {
+  name: 'max-depth',
+  description: `Conditions are nested more than ${MAX_DEPTH} groups deep`,
+  severity: 'warning',
+  check: (ast, context) => {
+    const visit = (node: Expression, parent: Expression | null, depth: number): void => {
+      const opens =
+        node instanceof LogicalExpression
+          ? !continuesChain(node, parent)
+          : (parent instanceof QuantifierExpression && node === parent.predicate) ||
+            (parent instanceof AggregateExpression && node === parent.filter);
+      if (opens) {
+        depth++;
+      }
+      if (depth > MAX_DEPTH) {
+        context.report(
+          node,
+          `Condition at position ${node.span?.start ?? 0} is nested ${depth} groups deep (at most ${MAX_DEPTH} allowed). ` +
+            'Consider splitting the rule or flattening the logic'
+        );
+        return;
+      }
+      for (const child of node.accept(children)) {
+        visit(child, node, depth);
+      }
+    };
+    visit(ast, null, 0);
+  },
+};
+
+/**
+ * LINT RULES
+ * Built-in rules, run by default
+ */
+export const LINT_RULES: LintRule[] = [duplicateClause, mixedLogicalOperators, mixedTypeComparison, maxDepth];
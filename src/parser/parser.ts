@@ -23,17 +23,43 @@
  * - Used in many production parsers (Go, V8 JavaScript engine)
  */
 
-import { Token, TokenType } from '../domain/token';
+import { KEYWORDS, Token, TokenType } from '../domain/token';
+import { Diagnostic, DiagnosticError, locate, suggest } from '../domain/diagnostic';
 import {
   Expression,
   BinaryExpression,
   LogicalExpression,
+  UnaryExpression,
+  ArithmeticExpression,
   Identifier,
+  PathSegment,
   NumberLiteral,
   StringLiteral,
+  BooleanLiteral,
+  NullLiteral,
+  ListLiteral,
+  RegexLiteral,
+  CallExpression,
+  DateLiteral,
+  DurationLiteral,
+  BetweenExpression,
+  QuantifierExpression,
+  AggregateExpression,
 } from '../domain/ast';
+import {
+  AGGREGATE_FUNCTIONS,
+  FUNCTION_SIGNATURES,
+  FunctionSignature,
+  isAggregate,
+  lookupFunction,
+  ValueType,
+} from '../domain/functions';
+import { DURATION_UNITS, ISO_DATE_PATTERN, parseIsoDate } from '../domain/time';
 import { Lexer } from './lexer';
 
+// Regular expression safety limits for MATCHES patterns
+const MAX_PATTERN_LENGTH = 256;         // Longer patterns are rejected at parse time
+
 /**
  * OPERATOR PRECEDENCE LEVELS
  * Determines which operators bind more tightly
@@ -41,7 +67,7 @@ import { Lexer } from './lexer';
  * Higher number = higher precedence = evaluated first
  * 
  * Example: "age > 18 AND likes > 100 OR status = 'active'"
- * - COMPARE (3): age > 18, likes > 100, status = 'active' evaluated first
+ * - COMPARE (4): age > 18, likes > 100, status = 'active' evaluated first
  * - LOGICAL (2): AND evaluated before OR
  * 
  * Result tree:
@@ -52,13 +78,39 @@ import { Lexer } from './lexer';
  *    age>18  likes>100
  * 
  * This matches mathematical convention: comparison before logical operations
+ * 
+ * NOT sits between LOGICAL and COMPARE (as in SQL), so its operand swallows
+ * a whole comparison but stops at AND/OR:
+ * "NOT age > 18 AND status = 'active'" → (NOT (age > 18)) AND status = 'active'
+ * 
+ * Arithmetic sits above COMPARE so calculations finish before comparing:
+ * "price * quantity + shipping > 1000" → ((price * quantity) + shipping) > 1000
+ * 
+ * Unary minus binds tightest of all: "-price * 2" → (-price) * 2
  */
 enum Precedence {
   LOWEST = 1,     // Default precedence
   LOGICAL = 2,    // AND, OR
-  COMPARE = 3,    // =, !=, >, <, >=, <=
+  NOT = 3,        // NOT (prefix) - binds looser than comparisons
+  COMPARE = 4,    // =, !=, >, <, >=, <=, IN, NOT IN, BETWEEN, CONTAINS, LIKE, ...
+  SUM = 5,        // +, -
+  PRODUCT = 6,    // *, /, %
+  PREFIX = 7,     // -x (unary minus)
 }
 
+/**
+ * NUMBER PATTERN
+ * Valid numeric literal: digits with optional _ separators between digits,
+ * optional fraction and optional exponent (18, 99.99, 1_000_000, 1e-6)
+ */
+const NUMBER_PATTERN = /^\d+(_\d+)*(\.\d+(_\d+)*)?([eE][+-]?\d+)?$/;
+
+/**
+ * MAX EXACT DIGITS
+ * Significant digits a double can always hold exactly (longer literals may be rounded)
+ */
+const MAX_EXACT_DIGITS = 15;
+
 /**
  * PRECEDENCE MAP
  * Maps each operator token type to its precedence level
@@ -76,8 +128,251 @@ const precedences: Record<TokenType, Precedence> = {
   [TokenType.LESS]: Precedence.COMPARE,
   [TokenType.GREATER_EQUAL]: Precedence.COMPARE,
   [TokenType.LESS_EQUAL]: Precedence.COMPARE,
+  [TokenType.IN]: Precedence.COMPARE,
+  [TokenType.BETWEEN]: Precedence.COMPARE,
+
+  // String matching operators (same tier as comparisons)
+  [TokenType.CONTAINS]: Precedence.COMPARE,
+  [TokenType.ICONTAINS]: Precedence.COMPARE,
+  [TokenType.STARTS_WITH]: Precedence.COMPARE,
+  [TokenType.ISTARTS_WITH]: Precedence.COMPARE,
+  [TokenType.ENDS_WITH]: Precedence.COMPARE,
+  [TokenType.IENDS_WITH]: Precedence.COMPARE,
+  [TokenType.LIKE]: Precedence.COMPARE,
+  [TokenType.ILIKE]: Precedence.COMPARE,
+  [TokenType.MATCHES]: Precedence.COMPARE,
+
+  // Arithmetic operators (highest precedence)
+  [TokenType.PLUS]: Precedence.SUM,
+  [TokenType.MINUS]: Precedence.SUM,
+  [TokenType.ASTERISK]: Precedence.PRODUCT,
+  [TokenType.SLASH]: Precedence.PRODUCT,
+  [TokenType.PERCENT]: Precedence.PRODUCT,
+
+  // NOT in infix position introduces a negated operator (NOT IN, NOT BETWEEN)
+  [TokenType.NOT]: Precedence.COMPARE,
 } as Record<TokenType, Precedence>;
 
+/**
+ * EXPRESSION START
+ * Tokens that may begin an operand - the expected set when an operand is missing
+ */
+const EXPRESSION_START = [
+  'identifier', 'number', 'string', 'duration', 'TRUE', 'FALSE', 'NULL',
+  '(', '[', 'NOT', '-', 'ANY', 'ALL',
+];
+
+/**
+ * AFTER OPERAND
+ * Tokens that may follow a complete operand - the expected set for a stray token
+ */
+const AFTER_OPERAND = [...Object.keys(precedences), 'end of expression'];
+
+/**
+ * INFIX KEYWORDS
+ * Keyword operators offered as "did you mean" suggestions for a stray word
+ * (e.g., "age > 18 ANDD active = true" → AND)
+ */
+const INFIX_KEYWORDS = Object.keys(KEYWORDS).filter((word) => KEYWORDS[word] in precedences);
+
+/**
+ * DESCRIBE TOKEN TYPE
+ * Human-readable name of a token type for expected-token lists
+ * 
+ * @param type - Token type
+ * @returns "identifier", "number", ... for literal tokens, the operator itself otherwise
+ */
+function describeTokenType(type: TokenType): string {
+  switch (type) {
+    case TokenType.IDENTIFIER:
+      return 'identifier';
+    case TokenType.NUMBER:
+      return 'number';
+    case TokenType.STRING:
+      return 'string';
+    case TokenType.DURATION:
+      return 'duration';
+    case TokenType.EOF:
+      return 'end of expression';
+    default:
+      return type;
+  }
+}
+
+/**
+ * CHECK CALL
+ * Checks a built-in function call's arity and the argument types known
+ * before evaluation (also used when rebuilding an AST from JSON)
+ * 
+ * Examples:
+ * - len() → "Function len() expects 1 argument(s) but got 0 at position 0"
+ * - abs('x') → "Function abs() expects number for argument 1 but got string at position 0"
+ * - round(price, 2) → null
+ * 
+ * @param signature - Signature of the called function
+ * @param args - Argument nodes
+ * @param position - Position of the function name, for messages
+ * @returns Reason the call is invalid, or null if it is allowed
+ */
+export function checkCall(signature: FunctionSignature, args: Expression[], position: number): string | null {
+  if (args.length < signature.minArgs || args.length > signature.maxArgs) {
+    const expected =
+      signature.minArgs === signature.maxArgs
+        ? `${signature.minArgs}`
+        : signature.maxArgs === Infinity
+          ? `at least ${signature.minArgs}`
+          : `${signature.minArgs} to ${signature.maxArgs}`;
+    return `Function ${signature.name}() expects ${expected} argument(s) but got ${args.length} at position ${position}`;
+  }
+
+  for (let index = 0; index < args.length; index++) {
+    const accepted = signature.params[Math.min(index, signature.params.length - 1)];
+    const actual = staticType(args[index]);
+    if (actual === null) {
+      return `Argument ${index + 1} of ${signature.name}() must be a value, not a condition, at position ${position}`;
+    }
+    if (actual !== 'any' && !accepted.includes('any') && !accepted.includes(actual)) {
+      return `Function ${signature.name}() expects ${accepted.join(' or ')} for argument ${index + 1} but got ${actual} at position ${position}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * CHECK PATTERN SAFETY
+ * Guards against catastrophic backtracking (ReDoS) by limiting pattern features
+ * 
+ * Rejected:
+ * - Patterns longer than MAX_PATTERN_LENGTH
+ * - Backreferences (\1, \k<name>) - can force exponential matching
+ * - Nested quantifiers: a quantified group that itself contains a quantifier,
+ *   e.g. (a+)+, (\d*)*, (x+){2,} - the classic ReDoS shape
+ * 
+ * Allowed examples: ^\+1[0-9]{10}$, ^(foo|bar)+$, ^[a-z]+@acme\.com$
+ * 
+ * The evaluator additionally caps the length of the input being matched.
+ * 
+ * @param pattern - Regular expression source
+ * @returns Reason the pattern is unsafe, or null if it is allowed
+ */
+export function checkPatternSafety(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `pattern exceeds ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  // One entry per open group: does the group body contain a quantifier?
+  const groupHasQuantifier: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === '\\') {
+      // Escaped character - check for backreferences, then skip it
+      const next = pattern[i + 1];
+      if (!inClass && next !== undefined && /[1-9k]/.test(next)) {
+        return 'backreferences are not allowed';
+      }
+      i++;
+    } else if (inClass) {
+      // Quantifier characters are literal inside [...]
+      if (ch === ']') inClass = false;
+    } else if (ch === '[') {
+      inClass = true;
+    } else if (ch === '(') {
+      groupHasQuantifier.push(false);
+    } else if (ch === ')') {
+      const inner = groupHasQuantifier.pop() ?? false;
+      const next = pattern[i + 1];
+      if (inner && (next === '*' || next === '+' || next === '{')) {
+        return 'nested quantifiers are not allowed';
+      }
+      // Propagate to the enclosing group
+      if (inner && groupHasQuantifier.length > 0) {
+        groupHasQuantifier[groupHasQuantifier.length - 1] = true;
+      }
+    } else if (ch === '*' || ch === '+' || ch === '{') {
+      if (groupHasQuantifier.length > 0) {
+        groupHasQuantifier[groupHasQuantifier.length - 1] = true;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * STATIC TYPE
+ * Determines the type of a value expression without evaluating it
+ * 
+ * Examples:
+ * - NumberLiteral(18) → "number"
+ * - StringLiteral("US") → "string"
+ * - ArithmeticExpression(price * 2) → "number"
+ * - ArithmeticExpression(now() - 30d) → "any" (date arithmetic)
+ * - CallExpression(lower(...)) → "string" (from its signature)
+ * - AggregateExpression(SUM(items.price)) → "number"
+ * - Identifier(age) → "any" (depends on the data)
+ * - BinaryExpression(age > 18) → null (a condition, not a value)
+ * 
+ * @param expr - Expression to inspect
+ * @returns Known value type, "any" if data-dependent, null for conditions
+ */
+function staticType(expr: Expression): ValueType | null {
+  if (
+    expr instanceof NumberLiteral ||
+    expr instanceof DurationLiteral ||
+    expr instanceof AggregateExpression
+  ) {
+    return 'number';
+  } else if (expr instanceof UnaryExpression && expr.operator.type === TokenType.MINUS) {
+    return 'number';
+  } else if (expr instanceof ArithmeticExpression) {
+    // Date arithmetic (now() - 30d) yields a date, otherwise a number
+    const left = staticType(expr.left);
+    const right = staticType(expr.right);
+    return left === 'date' || right === 'date' ? 'any' : 'number';
+  } else if (expr instanceof StringLiteral) {
+    return 'string';
+  } else if (expr instanceof BooleanLiteral) {
+    return 'boolean';
+  } else if (expr instanceof NullLiteral) {
+    return 'null';
+  } else if (expr instanceof ListLiteral) {
+    return 'array';
+  } else if (expr instanceof CallExpression) {
+    return lookupFunction(expr.name)?.returns ?? 'any';
+  } else if (expr instanceof Identifier) {
+    return 'any';
+  }
+  return null;
+}
+
+/**
+ * PRECEDENCE DECISION
+ * One step of the Pratt loop: whether an operator bound to the expression
+ * parsed so far, or ended it and returned to an outer level
+ * 
+ * Example: in "age > 18 AND active = true", after "18":
+ * { operator: "AND", position: 9, precedence: "LOGICAL", context: "COMPARE", binds: false }
+ */
+export interface PrecedenceDecision {
+  /** Operator token considered (e.g., "AND") */
+  operator: string;
+
+  /** Position of the operator in the expression */
+  position: number;
+
+  /** Precedence level of the operator (e.g., "LOGICAL") */
+  precedence: string;
+
+  /** Precedence level of the expression being parsed when the operator was seen */
+  context: string;
+
+  /** true if the operator took that expression as its left operand */
+  binds: boolean;
+}
+
 /**
  * PARSER CLASS
  * Converts token stream into Abstract Syntax Tree
@@ -93,8 +388,11 @@ export class Parser {
   /** Next token (lookahead for precedence) */
   private peekToken!: Token;
   
-  /** Accumulated parsing errors */
-  private errors: string[] = [];
+  /** Accumulated errors and non-fatal warnings (e.g., numeric precision loss) */
+  private diagnostics: Diagnostic[] = [];
+
+  /** Operator precedence decisions, in parse order (see peekBinds) */
+  private decisions: PrecedenceDecision[] = [];
 
   /**
    * Constructor
@@ -133,36 +431,116 @@ export class Parser {
    * 
    * Process:
    * 1. Parse expression with lowest precedence (allows all operators)
-   * 2. Check for any parsing errors
-   * 3. Verify we consumed all tokens (reached EOF)
-   * 4. Return AST root node
+   * 2. Verify we consumed all tokens (reached EOF) and that the whole
+   *    expression is a condition, not a value
+   * 3. On an error, recover and keep parsing so one request reports
+   *    every problem (see synchronize)
+   * 4. Throw all diagnostics together, or return AST root node
+   * 
+   * Example: "age >= AND status = 'active' ANDD score > 10"
+   * → 2 errors: "Unexpected token 'AND'" (missing operand) and
+   *   "Unexpected token 'ANDD' ... Did you mean 'AND'?"
    * 
    * @returns Root expression node of the AST
-   * @throws Error if syntax is invalid or unexpected tokens remain
+   * @throws DiagnosticError if syntax is invalid or unexpected tokens remain
    */
   parse(): Expression {
-    // Parse the expression starting with lowest precedence
-    // This allows any operator to be parsed
-    const expr = this.parseExpression(Precedence.LOWEST);
+    let ast: Expression | null = null;
+    let recovering = false;
 
-    // Check if any errors occurred during parsing
-    if (this.errors.length > 0) {
-      throw new Error(`Parsing error at position ${this.curToken.position}: ${this.errors[0]}`);
-    }
+    do {
+      try {
+        // Parse the expression starting with lowest precedence
+        // This allows any operator to be parsed
+        const expr = this.parseExpression(Precedence.LOWEST);
+        // Segments parsed after an error only contribute diagnostics
+        if (!recovering) {
+          ast = expr;
+        }
 
-    // Advance to EOF if we're at the last token
-    if (this.peekToken.type === TokenType.EOF && this.curToken.type !== TokenType.EOF) {
-      this.nextToken();
+        // Advance to EOF if we're at the last token
+        if (this.peekToken.type === TokenType.EOF) {
+          this.nextToken();
+          // The rule as a whole must be a condition: "age" or "price * 2" alone are values
+          if (!recovering) {
+            this.expectCondition(expr, 'Expression must be a condition');
+          }
+          break;
+        }
+
+        // Trailing token: report it, unless it closes a group abandoned by an earlier error
+        const trailing = this.peekToken;
+        const strayCloser =
+          trailing.type === TokenType.RIGHT_PAREN || trailing.type === TokenType.RIGHT_BRACKET;
+        if (!recovering || !strayCloser) {
+          this.reportTrailingToken(trailing);
+        }
+        this.nextToken();
+      } catch (error) {
+        // Errors not recorded through addError are internal failures
+        if (this.getErrors().length === 0) {
+          throw error;
+        }
+      }
+      recovering = true;
+    } while (this.synchronize());
+
+    const errors = this.getErrors();
+    if (errors.length > 0 || ast === null) {
+      throw new DiagnosticError(errors[0], this.diagnostics);
     }
+    return ast;
+  }
 
-    // Verify we consumed the entire expression (no trailing tokens)
-    if (this.curToken.type !== TokenType.EOF) {
-      throw new Error(
-        `Unexpected token '${this.curToken.literal}' at position ${this.curToken.position}. Expected end of expression.`
-      );
+  /**
+   * REPORT TRAILING TOKEN
+   * Records an error for a token left over after a complete expression
+   * 
+   * A stray word is compared against the keyword operators:
+   * "age > 18 ANDD active = true" → "... Did you mean 'AND'?"
+   * 
+   * @param token - First token after the expression
+   */
+  private reportTrailingToken(token: Token): void {
+    if (token.message) {
+      this.addError(`${token.message} at position ${token.position}`, token);
+      return;
     }
 
-    return expr;
+    const suggestions = token.type === TokenType.IDENTIFIER ? suggest(token.literal, INFIX_KEYWORDS) : [];
+    const hint = suggestions.length > 0 ? ` Did you mean '${suggestions[0]}'?` : this.keywordHint(token);
+    this.addError(
+      `Unexpected token '${token.literal}' at position ${token.position}. Expected end of expression.${hint}`,
+      token,
+      { expected: AFTER_OPERAND, suggestions }
+    );
+  }
+
+  /**
+   * SYNCHRONIZE
+   * Error recovery: skips to the clause after the next AND/OR
+   * 
+   * AND/OR separate independent clauses, so parsing can restart there and
+   * still find real problems further on. Stops at the end of the expression.
+   * 
+   * Example: "age >= AND status = 'active'"
+   *                 ^ error       ^ parsing resumes here
+   * 
+   * @returns true if there is another clause to parse
+   */
+  private synchronize(): boolean {
+    while (
+      this.curToken.type !== TokenType.AND &&
+      this.curToken.type !== TokenType.OR &&
+      this.curToken.type !== TokenType.EOF
+    ) {
+      this.nextToken();
+    }
+    if (this.curToken.type === TokenType.EOF || this.peekToken.type === TokenType.EOF) {
+      return false;
+    }
+    this.nextToken(); // Step past AND/OR
+    return true;
   }
 
   /**
@@ -183,24 +561,30 @@ export class Parser {
    * 3. Parse "status = 'active'" as right
    * 4. Build LogicalExpression(AND, left, right)
    * 
+   * Every node built here gets a span from its first token to the last
+   * token consumed, so a group's span includes its parentheses.
+   * 
    * @param precedence - Minimum precedence to bind operators
    * @returns Expression tree node
    */
   private parseExpression(precedence: Precedence): Expression {
+    const start = this.curToken.position;
+
     // Parse left-hand side (identifier, number, string, or grouped expression)
-    let left = this.parsePrimary();
+    let left = this.withSpan(this.parsePrimary(), start);
 
     // Build expression tree by consuming operators with higher precedence
     // Stop when we hit EOF or an operator with lower/equal precedence
     while (
       this.peekToken.type !== TokenType.EOF &&
-      precedence < this.peekPrecedence()
+      this.peekBinds(precedence)
     ) {
       this.nextToken(); // Consume the operator
       left = this.parseInfixExpression(left); // Build binary/logical node
       if (!left) {
         throw new Error('Failed to parse infix expression');
       }
+      this.withSpan(left, start);
     }
 
     return left;
@@ -210,43 +594,243 @@ export class Parser {
    * PARSE PRIMARY
    * Parses atomic expressions (leaf nodes of the AST)
    * 
-   * Handles four types of primary expressions:
+   * Handles these types of primary expressions:
    * 1. IDENTIFIER - Variable name (e.g., "age", "status")
    * 2. NUMBER - Numeric literal (e.g., "18", "3.14")
-   * 3. STRING - String literal (e.g., "'active'", "'John'")
-   * 4. LEFT_PAREN - Grouped expression (e.g., "(age > 18)")
+   * 3. STRING - String literal (e.g., "'active'", "'John'"), or DateLiteral
+   *    when it holds an ISO-8601 date (e.g., "'2024-01-01'")
+   * 4. DURATION - Duration literal (e.g., "30d", "12h")
+   * 5. TRUE / FALSE - Boolean literal (e.g., "true")
+   * 6. NULL - Null literal (e.g., "null")
+   * 7. LEFT_PAREN - Grouped expression (e.g., "(age > 18)")
+   * 8. LEFT_BRACKET - List literal (e.g., "['US', 'CA']")
+   * 9. NOT - Prefix negation (e.g., "NOT status = 'banned'")
+   * 10. MINUS - Negative number or unary minus (e.g., "-100", "-balance")
+   * 11. ANY / ALL - Quantifier over an array field (e.g., "ANY items (price > 100)")
    * 
    * Examples:
    * - "age" → Identifier("age")
+   * - "orders[0].total" → Identifier with path ["orders", 0, "total"]
+   * - "lower(email)" → Calls parseCallExpression()
+   * - "SUM(items.price)" → Calls parseAggregateExpression()
    * - "18" → NumberLiteral(18)
    * - "'active'" → StringLiteral("active")
+   * - "true" → BooleanLiteral(true)
+   * - "null" → NullLiteral
    * - "(age > 18)" → Calls parseGroupedExpression()
+   * - "['US', 'CA']" → Calls parseListLiteral()
+   * - "NOT age > 18" → Calls parsePrefixExpression()
+   * - "-100" → NumberLiteral(-100)
+   * - "ANY items (qty >= 2)" → Calls parseQuantifierExpression()
    * 
-   * @returns Leaf expression node (Identifier, NumberLiteral, StringLiteral, or grouped)
+   * @returns Leaf expression node (Identifier, literal, grouped, prefixed or quantified)
    * @throws Error if token type is invalid for primary expression
    */
   private parsePrimary(): Expression {
     switch (this.curToken.type) {
       case TokenType.IDENTIFIER:
-        // Create identifier node (represents a field name in data)
-        const ident = new Identifier(this.curToken, this.curToken.literal);
+        // Aggregate or function call: name followed by '('
+        if (this.peekToken.type === TokenType.LEFT_PAREN) {
+          return isAggregate(this.curToken.literal)
+            ? this.parseAggregateExpression()
+            : this.parseCallExpression();
+        }
+        // Create identifier node (represents a field name or path in data)
+        const ident = new Identifier(
+          this.curToken,
+          this.curToken.literal,
+          this.parsePath(this.curToken.literal)
+        );
         return ident;
       case TokenType.NUMBER:
         // Parse numeric literal
         return this.parseNumberLiteral();
       case TokenType.STRING:
-        // Create string literal node (quotes already stripped by lexer)
-        const str = new StringLiteral(this.curToken, this.curToken.literal);
-        return str;
+        // Create string (or date) literal node (quotes already stripped by lexer)
+        return this.parseStringLiteral();
+      case TokenType.DURATION:
+        // Create duration literal node (value in milliseconds)
+        return this.parseDurationLiteral();
+      case TokenType.TRUE:
+      case TokenType.FALSE:
+        // Create boolean literal node
+        return new BooleanLiteral(this.curToken, this.curToken.type === TokenType.TRUE);
+      case TokenType.NULL:
+        // Create null literal node
+        return new NullLiteral(this.curToken);
       case TokenType.LEFT_PAREN:
         // Parse parenthesized expression for precedence override
         return this.parseGroupedExpression();
+      case TokenType.LEFT_BRACKET:
+        // Parse bracketed list of literals
+        return this.parseListLiteral();
+      case TokenType.NOT:
+        // Parse prefix negation
+        return this.parsePrefixExpression();
+      case TokenType.MINUS:
+        // Parse negative number or unary minus
+        return this.parseNegation();
+      case TokenType.ANY:
+      case TokenType.ALL:
+        // Parse quantifier over array elements
+        return this.parseQuantifierExpression();
       default:
-        // Invalid token for primary expression
-        const errorMsg = `Unexpected token '${this.curToken.literal}' at position ${this.curToken.position}`;
-        this.addError(errorMsg);
+        // Invalid token for primary expression (lexer errors carry their own message)
+        const hint = this.keywordHint(this.curToken);
+        let errorMsg: string;
+        if (this.curToken.message) {
+          errorMsg = `${this.curToken.message} at position ${this.curToken.position}`;
+        } else if (this.curToken.type === TokenType.EOF) {
+          // The input stops where an operand should start: "age > 18 AND"
+          errorMsg = `Unexpected end of expression at position ${this.curToken.position}`;
+        } else {
+          errorMsg = `Unexpected token '${this.curToken.literal}' at position ${this.curToken.position}${hint && `.${hint}`}`;
+        }
+        this.addError(errorMsg, this.curToken, this.curToken.message ? {} : { expected: EXPRESSION_START });
+        throw new Error(errorMsg);
+    }
+  }
+
+  /**
+   * PARSE CALL EXPRESSION
+   * Parses a built-in function call: name(arg1, arg2, ...)
+   * 
+   * Process:
+   * 1. Look up the function signature (unknown functions are rejected)
+   * 2. Parse comma-separated arguments up to the closing parenthesis
+   * 3. Check argument count and the types of arguments known before
+   *    evaluation (literals, arithmetic, nested calls)
+   * 
+   * Examples:
+   * - "lower(email)" → CallExpression("lower", [Identifier("email")])
+   * - "round(price * 1.2, 2)" → CallExpression("round", [Arithmetic, NumberLiteral(2)])
+   * - "abs('x')" → Error (abs expects number)
+   * - "len()" → Error (len expects 1 argument)
+   * 
+   * @returns CallExpression node
+   * @throws Error if the function is unknown or called incorrectly
+   */
+  private parseCallExpression(): Expression {
+    const token = this.curToken; // Current token is the function name
+    const signature = lookupFunction(token.literal);
+    if (!signature) {
+      const suggestions = suggest(token.literal, [
+        ...Object.keys(FUNCTION_SIGNATURES),
+        ...AGGREGATE_FUNCTIONS,
+      ]);
+      const hint = suggestions.length > 0 ? ` Did you mean '${suggestions[0]}'?` : '';
+      const errorMsg = `Unknown function '${token.literal}' at position ${token.position}.${hint}`;
+      this.addError(errorMsg, token, { suggestions });
+      throw new Error(errorMsg);
+    }
+
+    // Move onto '(' and parse arguments
+    this.nextToken();
+    const args: Expression[] = [];
+    if (this.peekToken.type === TokenType.RIGHT_PAREN) {
+      this.nextToken(); // Empty argument list: name()
+    } else {
+      do {
+        // Move to the argument (skipping '(' on the first pass, ',' afterwards)
+        this.nextToken();
+        args.push(this.parseExpression(Precedence.LOWEST));
+        if (this.peekToken.type !== TokenType.COMMA) {
+          break;
+        }
+        this.nextToken();
+      } while (true);
+      this.expectPeek(TokenType.RIGHT_PAREN, `closing parenthesis ')' for ${signature.name}()`, [
+        TokenType.COMMA,
+        TokenType.RIGHT_PAREN,
+      ]);
+    }
+
+    // Check arity and the argument types known before evaluation
+    const invalid = checkCall(signature, args, token.position);
+    if (invalid) {
+      this.addError(invalid, token);
+      throw new Error(invalid);
+    }
+
+    return new CallExpression(token, signature.name, args);
+  }
+
+  /**
+   * PARSE AGGREGATE EXPRESSION
+   * Parses SUM/COUNT/MIN/MAX/AVG over an array field
+   * 
+   * Grammar: NAME '(' field [WHERE condition] ')'
+   * 
+   * Process:
+   * 1. Save aggregate name token
+   * 2. Expect '(' and the field path (e.g., "items" or "items.price")
+   * 3. If WHERE follows, parse the element filter condition
+   * 4. Expect ')'
+   * 
+   * Examples:
+   * - "SUM(items.price)" → AggregateExpression(SUM, items.price)
+   * - "COUNT(items WHERE category = 'gift')" → AggregateExpression(COUNT, items, filter)
+   * 
+   * @returns AggregateExpression node
+   * @throws Error if the field, parentheses or filter condition are missing
+   */
+  private parseAggregateExpression(): AggregateExpression {
+    const token = this.curToken; // Aggregate name
+    this.nextToken(); // Move onto '('
+
+    this.expectPeek(TokenType.IDENTIFIER, `array field in ${token.literal}()`);
+    const field = this.withSpan(
+      new Identifier(this.curToken, this.curToken.literal, this.parsePath(this.curToken.literal)),
+      this.curToken.position
+    );
+
+    let filter: Expression | null = null;
+    if (this.peekToken.type === TokenType.WHERE) {
+      this.nextToken(); // Consume WHERE
+      this.nextToken(); // Move to start of condition
+      filter = this.parseExpression(Precedence.LOWEST);
+      if (staticType(filter) !== null) {
+        const errorMsg = `WHERE in ${token.literal}() requires a condition at position ${token.position}`;
+        this.addError(errorMsg, token);
         throw new Error(errorMsg);
+      }
     }
+
+    this.expectPeek(TokenType.RIGHT_PAREN, `closing parenthesis ')' for ${token.literal}()`, [
+      TokenType.WHERE,
+      TokenType.RIGHT_PAREN,
+    ]);
+    return new AggregateExpression(token, token.literal.toUpperCase(), field, filter);
+  }
+
+  /**
+   * PARSE PATH
+   * Splits an identifier literal into the segments used for data lookup
+   * 
+   * Examples:
+   * - "age" → ["age"]
+   * - "user.address.country" → ["user", "address", "country"]
+   * - "orders[0].total" → ["orders", 0, "total"]
+   * - "`order-id`" → ["order-id"]
+   * - "customer.`Customer Name`" → ["customer", "Customer Name"]
+   * 
+   * @param literal - Identifier literal as read by the lexer
+   * @returns Path segments (strings for keys, numbers for array indexes)
+   */
+  private parsePath(literal: string): PathSegment[] {
+    const path: PathSegment[] = [];
+    const segmentPattern = /([A-Za-z_][A-Za-z0-9_]*)|`((?:[^`\\]|\\.)*)`|\[(\d+)\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = segmentPattern.exec(literal)) !== null) {
+      if (match[1] !== undefined) {
+        path.push(match[1]);
+      } else if (match[2] !== undefined) {
+        path.push(match[2].replace(/\\(.)/g, '$1')); // Quoted key, escapes removed
+      } else {
+        path.push(Number(match[3]));
+      }
+    }
+    return path;
   }
 
   /**
@@ -254,31 +838,140 @@ export class Parser {
    * Converts token string to numeric value and creates NumberLiteral node
    * 
    * Process:
-   * 1. Convert string to float using parseFloat
-   * 2. Validate result is not NaN
-   * 3. Create NumberLiteral AST node
+   * 1. Convert string to number (see numericValue)
+   * 2. Create NumberLiteral AST node
    * 
    * Examples:
    * - "18" → NumberLiteral(18)
    * - "3.14" → NumberLiteral(3.14)
-   * - "abc" → Error (not a valid number)
+   * - "1_000" → NumberLiteral(1000)
+   * - "1__0" → Error (misplaced separator)
    * 
    * @returns NumberLiteral node with parsed numeric value
-   * @throws Error if token cannot be parsed as valid number
+   * @throws Error if token is not a valid number
    */
   private parseNumberLiteral(): Expression {
-    // Convert token string to JavaScript number
-    const value = parseFloat(this.curToken.literal);
-    
-    // Validate conversion succeeded
-    if (isNaN(value)) {
-      const errorMsg = `Could not parse '${this.curToken.literal}' as number at position ${this.curToken.position}`;
+    const value = this.numericValue(this.curToken.literal, this.curToken.position);
+    return new NumberLiteral(this.curToken, value);
+  }
+
+  /**
+   * NUMERIC VALUE
+   * Validates a numeric literal and converts it to a number
+   * 
+   * Rejects malformed literals and records warnings (not errors) for values
+   * a double cannot represent faithfully:
+   * - Overflow: "1e400" → Infinity
+   * - Underflow: "1e-400" → 0
+   * - Precision: "9007199254740993" → 9007199254740992 (beyond 15 significant digits)
+   * 
+   * @param literal - Number as written (without sign or unit)
+   * @param position - Position of the literal (for messages)
+   * @returns The numeric value
+   * @throws Error if the literal is malformed
+   */
+  private numericValue(literal: string, position: number): number {
+    if (!NUMBER_PATTERN.test(literal)) {
+      const errorMsg = `Invalid number '${literal}' at position ${position}`;
       this.addError(errorMsg);
       throw new Error(errorMsg);
     }
-    
-    // Create NumberLiteral AST node
-    return new NumberLiteral(this.curToken, value);
+
+    const digits = literal.replace(/_/g, '');
+    const value = Number(digits);
+    const mantissa = digits.replace(/[eE].*$/, '').replace('.', '').replace(/^0+/, '');
+
+    if (value === Infinity) {
+      this.addWarning(`Number '${literal}' is too large and becomes Infinity at position ${position}`);
+    } else if (value === 0 && /[1-9]/.test(mantissa)) {
+      this.addWarning(`Number '${literal}' is too small and becomes 0 at position ${position}`);
+    } else if (mantissa.replace(/0+$/, '').length > MAX_EXACT_DIGITS && String(value) !== digits) {
+      this.addWarning(`Number '${literal}' cannot be represented exactly and is rounded to ${value} at position ${position}`);
+    }
+    return value;
+  }
+
+  /**
+   * PARSE NEGATION
+   * Parses a leading minus
+   * 
+   * - Directly before a number, the sign is folded into the literal:
+   *   "-100" → NumberLiteral(-100) (token literal "-100")
+   * - Otherwise it negates the operand: "-balance" → UnaryExpression(-, balance)
+   * 
+   * The operand is parsed with PREFIX precedence, so "-price * 2" is (-price) * 2.
+   * 
+   * @returns NumberLiteral or UnaryExpression
+   */
+  private parseNegation(): Expression {
+    const operator = this.curToken; // Current token is '-'
+
+    if (this.peekToken.type === TokenType.NUMBER) {
+      this.nextToken();
+      const value = this.numericValue(this.curToken.literal, this.curToken.position);
+      const token: Token = {
+        type: TokenType.NUMBER,
+        literal: `-${this.curToken.literal}`,
+        position: operator.position,
+        end: this.curToken.end,
+      };
+      return new NumberLiteral(token, -value);
+    }
+
+    this.nextToken(); // Move to the operand
+    const operand = this.parseExpression(Precedence.PREFIX);
+    if (staticType(operand) === null) {
+      const errorMsg = `Unary minus requires a value, not a condition, at position ${operator.position}`;
+      this.addError(errorMsg, operator);
+      throw new Error(errorMsg);
+    }
+    return new UnaryExpression(operator, operand);
+  }
+
+  /**
+   * PARSE STRING LITERAL
+   * Creates a StringLiteral, or a DateLiteral for ISO-8601 dates
+   * 
+   * Examples:
+   * - "'active'" → StringLiteral("active")
+   * - "'2024-01-01'" → DateLiteral("2024-01-01", Date(2024-01-01T00:00:00Z))
+   * - "'2024-02-30'" → Error (looks like a date but no such day)
+   * 
+   * @returns StringLiteral or DateLiteral node
+   * @throws Error if the string is ISO-shaped but not a real date
+   */
+  private parseStringLiteral(): Expression {
+    const value = this.curToken.literal;
+    if (!ISO_DATE_PATTERN.test(value)) {
+      return new StringLiteral(this.curToken, value);
+    }
+
+    const date = parseIsoDate(value);
+    if (!date) {
+      const errorMsg = `Invalid date '${value}' at position ${this.curToken.position}`;
+      this.addError(errorMsg);
+      throw new Error(errorMsg);
+    }
+    return new DateLiteral(this.curToken, value, date);
+  }
+
+  /**
+   * PARSE DURATION LITERAL
+   * Converts a duration token into milliseconds
+   * 
+   * Examples:
+   * - "30d" → DurationLiteral(2592000000)
+   * - "12h" → DurationLiteral(43200000)
+   * - "500ms" → DurationLiteral(500)
+   * 
+   * @returns DurationLiteral node
+   * @throws Error if the amount is not a valid number
+   */
+  private parseDurationLiteral(): Expression {
+    const literal = this.curToken.literal;
+    const [, amount, unit] = /^(.*?)([a-z]+)$/.exec(literal) ?? [];
+    const value = this.numericValue(amount, this.curToken.position);
+    return new DurationLiteral(this.curToken, value * DURATION_UNITS[unit]);
   }
 
   /**
@@ -315,7 +1008,7 @@ export class Parser {
     // Verify closing RIGHT_PAREN exists
     if (this.peekToken.type !== TokenType.RIGHT_PAREN) {
       const errorMsg = `Expected closing parenthesis ')' at position ${this.peekToken.position}`;
-      this.addError(errorMsg);
+      this.addError(errorMsg, this.peekToken, { expected: [TokenType.RIGHT_PAREN] });
       throw new Error(errorMsg);
     }
 
@@ -326,13 +1019,159 @@ export class Parser {
     return exp;
   }
 
+  /**
+   * PARSE LIST LITERAL
+   * Parses a bracketed, comma-separated list of literal values
+   * 
+   * Process:
+   * 1. Skip opening LEFT_BRACKET (already current token)
+   * 2. Return empty list if next token is RIGHT_BRACKET
+   * 3. Parse each element and require it to be a literal
+   * 4. Continue while elements are separated by COMMA
+   * 5. Expect closing RIGHT_BRACKET
+   * 
+   * Examples:
+   * - "['US', 'CA', 'MX']" → ListLiteral([StringLiteral(US), StringLiteral(CA), StringLiteral(MX)])
+   * - "[1, 2, 3]" → ListLiteral([NumberLiteral(1), NumberLiteral(2), NumberLiteral(3)])
+   * - "[]" → ListLiteral([])
+   * 
+   * @returns ListLiteral node
+   * @throws Error if an element is not a literal or the closing bracket is missing
+   */
+  private parseListLiteral(): Expression {
+    const token = this.curToken; // Current token is LEFT_BRACKET
+    const elements: Expression[] = [];
+
+    // Handle empty list: []
+    if (this.peekToken.type === TokenType.RIGHT_BRACKET) {
+      this.nextToken();
+      return new ListLiteral(token, elements);
+    }
+
+    do {
+      // Move to the element (skipping '[' on the first pass, ',' afterwards)
+      this.nextToken();
+      const element = this.parseExpression(Precedence.LOWEST);
+      if (
+        !(element instanceof NumberLiteral) &&
+        !(element instanceof StringLiteral) &&
+        !(element instanceof BooleanLiteral) &&
+        !(element instanceof NullLiteral)
+      ) {
+        const errorMsg = `List elements must be literal values at position ${this.curToken.position}`;
+        this.addError(errorMsg);
+        throw new Error(errorMsg);
+      }
+      elements.push(element);
+
+      // Consume separator if another element follows
+      if (this.peekToken.type !== TokenType.COMMA) {
+        break;
+      }
+      this.nextToken();
+    } while (true);
+
+    // Verify and consume closing RIGHT_BRACKET
+    this.expectPeek(TokenType.RIGHT_BRACKET, "closing bracket ']'", [
+      TokenType.COMMA,
+      TokenType.RIGHT_BRACKET,
+    ]);
+
+    return new ListLiteral(token, elements);
+  }
+
+  /**
+   * PARSE PREFIX EXPRESSION
+   * Builds a UnaryExpression for prefix operators (NOT)
+   * 
+   * Process:
+   * 1. Remember the operator (current token)
+   * 2. Move to the operand
+   * 3. Parse operand with NOT precedence, so comparisons are swallowed
+   *    but AND/OR are left for the caller
+   * 4. Reject operands that are values rather than conditions
+   * 
+   * Example: "NOT (status = 'banned' OR age < 18)"
+   * - operator: NOT
+   * - operand: LogicalExpression(status = 'banned' OR age < 18)
+   * 
+   * Example: "NOT age > 18 AND verified = 'yes'"
+   * - Produces UnaryExpression(NOT, age > 18); the AND is handled by the caller
+   * 
+   * Example: "NOT isVerified" → error (compare the field: "isVerified = false")
+   * 
+   * @returns UnaryExpression wrapping the operand
+   * @throws Error if the operand is missing or is not a condition
+   */
+  private parsePrefixExpression(): Expression {
+    const operator = this.curToken; // Current token is the prefix operator
+
+    // Move to the operand and parse it with NOT precedence
+    this.nextToken();
+    const operand = this.parseExpression(Precedence.NOT);
+
+    if (staticType(operand) !== null) {
+      const errorMsg = `NOT requires a condition, not a value, at position ${operator.position}`;
+      this.addError(errorMsg, operator);
+      throw new Error(errorMsg);
+    }
+
+    return new UnaryExpression(operator, operand);
+  }
+
+  /**
+   * PARSE QUANTIFIER EXPRESSION
+   * Parses "ANY field (condition)" or "ALL field (condition)"
+   * 
+   * Process:
+   * 1. Save quantifier token (ANY or ALL)
+   * 2. Expect the array field (an identifier or path, not a function call)
+   * 3. Expect '(' and parse the condition inside
+   * 4. Expect ')'
+   * 5. Reject predicates that are values rather than conditions
+   * 
+   * Example: "ANY items (price > 100 AND qty >= 2)"
+   * → QuantifierExpression(ANY, Identifier("items"), LogicalExpression(...))
+   * 
+   * @returns QuantifierExpression node
+   * @throws Error if the field, parentheses or condition are missing
+   */
+  private parseQuantifierExpression(): QuantifierExpression {
+    const token = this.curToken; // ANY or ALL
+
+    this.expectPeek(TokenType.IDENTIFIER, `array field after ${token.literal}`, undefined, this.keywordHint(token));
+    const collection = this.withSpan(
+      new Identifier(this.curToken, this.curToken.literal, this.parsePath(this.curToken.literal)),
+      this.curToken.position
+    );
+
+    this.expectPeek(TokenType.LEFT_PAREN, `'(' after ${token.literal} ${collection.value}`);
+    this.nextToken(); // Move to start of condition
+    const predicate = this.parseExpression(Precedence.LOWEST);
+    this.expectPeek(TokenType.RIGHT_PAREN, `closing parenthesis ')' for ${token.literal}`);
+
+    if (staticType(predicate) !== null) {
+      const errorMsg = `${token.literal} requires a condition in parentheses at position ${token.position}`;
+      this.addError(errorMsg, token);
+      throw new Error(errorMsg);
+    }
+
+    return new QuantifierExpression(token, collection, predicate);
+  }
+
   /**
    * PARSE INFIX EXPRESSION
    * Builds binary or logical expression node with operator and operands
    * 
-   * Handles two categories:
+   * Handles three categories:
    * 1. Logical operators (AND, OR) → LogicalExpression
-   * 2. Comparison operators (=, !=, >, <, >=, <=) → BinaryExpression
+   * 2. Comparison and string matching operators (=, !=, >, <, >=, <=,
+   *    CONTAINS, STARTS_WITH, ENDS_WITH, LIKE, ...) → BinaryExpression
+   * 3. Membership operators (IN, NOT IN) → BinaryExpression with a ListLiteral
+   *    on the right; "NOT IN" is folded into a single NOT_IN operator token
+   * 4. MATCHES → BinaryExpression with a RegexLiteral (compiled once here) on the right
+   * 5. Arithmetic operators (+, -, *, /, %) → ArithmeticExpression
+   * 6. Range operators (BETWEEN, NOT BETWEEN) → BetweenExpression (see parseBetweenExpression)
    * 
    * Process:
    * 1. Get operator precedence
@@ -356,23 +1195,151 @@ export class Parser {
    * @returns BinaryExpression or LogicalExpression combining left, operator, right
    */
   private parseInfixExpression(left: Expression): Expression {
-    const operator = this.curToken; // Current token is the operator
+    let operator = this.curToken; // Current token is the operator
 
     // Handle logical operators (AND, OR)
     if (operator.type === TokenType.AND || operator.type === TokenType.OR) {
       const precedence = this.curPrecedence();
       this.nextToken(); // Move to right operand
       const right = this.parseExpression(precedence); // Parse right side recursively
+      // Both sides must be conditions: "age BETWEEN 1 AND 2 AND 3" ends in a bare 3
+      this.expectCondition(left, `Each side of ${operator.literal} must be a condition`);
+      this.expectCondition(right, `Each side of ${operator.literal} must be a condition`);
       return new LogicalExpression(left, operator, right);
     }
 
-    // Handle comparison operators (=, !=, >, <, >=, <=)
+    // Handle arithmetic operators (+, -, *, /, %)
+    if (
+      operator.type === TokenType.PLUS ||
+      operator.type === TokenType.MINUS ||
+      operator.type === TokenType.ASTERISK ||
+      operator.type === TokenType.SLASH ||
+      operator.type === TokenType.PERCENT
+    ) {
+      const precedence = this.curPrecedence();
+      this.nextToken(); // Move to right operand
+      const right = this.parseExpression(precedence); // Left-associative: a - b - c = (a - b) - c
+      return new ArithmeticExpression(left, operator, right);
+    }
+
+    // Handle range operators: BETWEEN
+    if (operator.type === TokenType.BETWEEN) {
+      return this.parseBetweenExpression(left, false);
+    }
+
+    // Handle negated operators: NOT IN, NOT BETWEEN
+    if (operator.type === TokenType.NOT) {
+      if (this.peekToken.type === TokenType.BETWEEN) {
+        this.nextToken(); // Consume BETWEEN
+        return this.parseBetweenExpression(left, true);
+      }
+      this.expectPeek(TokenType.IN, 'IN or BETWEEN after NOT', [TokenType.IN, TokenType.BETWEEN]);
+      operator = {
+        type: TokenType.NOT_IN,
+        literal: 'NOT IN',
+        position: operator.position,
+        end: this.curToken.end,
+      };
+    }
+
+    // Handle comparison operators (=, !=, >, <, >=, <=, IN, NOT IN, CONTAINS, LIKE, ...)
     const precedence = this.curPrecedence();
     this.nextToken(); // Move to right operand
     const right = this.parseExpression(precedence); // Parse right side recursively
+
+    // Membership operators require a list on the right: country IN ['US', 'CA']
+    if (
+      (operator.type === TokenType.IN || operator.type === TokenType.NOT_IN) &&
+      !(right instanceof ListLiteral)
+    ) {
+      const errorMsg = `${operator.literal} requires a list literal at position ${this.curToken.position}`;
+      this.addError(errorMsg);
+      throw new Error(errorMsg);
+    }
+
+    // MATCHES compiles its pattern now so invalid regexes fail at rule creation
+    if (operator.type === TokenType.MATCHES) {
+      return new BinaryExpression(left, operator, this.compilePattern(right));
+    }
+
     return new BinaryExpression(left, operator, right);
   }
 
+  /**
+   * PARSE BETWEEN EXPRESSION
+   * Parses the bounds of "value BETWEEN low AND high"
+   * 
+   * The AND inside BETWEEN is not a logical operator. Bounds are parsed with
+   * COMPARE precedence, which is higher than LOGICAL, so parsing of the low
+   * bound stops right before that AND instead of swallowing it. The same
+   * applies to the high bound, so any following AND/OR is logical again:
+   * 
+   * "age BETWEEN 18 AND 65 AND status = 'active'"
+   * → (age BETWEEN 18 AND 65) AND (status = 'active')
+   * 
+   * Bounds may be arithmetic: "total BETWEEN budget - 10 AND budget + 10"
+   * 
+   * @param value - Expression being range-checked (already parsed)
+   * @param negated - true for NOT BETWEEN
+   * @returns BetweenExpression
+   * @throws Error if the AND separating the bounds is missing
+   */
+  private parseBetweenExpression(value: Expression, negated: boolean): BetweenExpression {
+    const token = this.curToken; // BETWEEN
+    this.nextToken(); // Move to low bound
+    const low = this.parseExpression(Precedence.COMPARE);
+    this.expectPeek(TokenType.AND, 'AND between BETWEEN bounds');
+    this.nextToken(); // Move to high bound
+    const high = this.parseExpression(Precedence.COMPARE);
+    return new BetweenExpression(token, value, low, high, negated);
+  }
+
+  /**
+   * COMPILE PATTERN
+   * Turns the string on the right of MATCHES into a compiled RegexLiteral
+   * 
+   * Process:
+   * 1. Require a string literal pattern
+   * 2. Reject unsafe patterns (see checkPatternSafety)
+   * 3. Compile with RegExp - syntax errors become parse errors
+   * 
+   * Example: "phone MATCHES '^\+1[0-9]{10}$'"
+   * → RegexLiteral("^\+1[0-9]{10}$", /^\+1[0-9]{10}$/)
+   * 
+   * @param pattern - Right operand of MATCHES
+   * @returns RegexLiteral with the compiled RegExp cached on the node
+   * @throws Error if pattern is not a string, is unsafe, or is not a valid regex
+   */
+  private compilePattern(pattern: Expression): RegexLiteral {
+    if (!(pattern instanceof StringLiteral)) {
+      const errorMsg = `MATCHES requires a string literal pattern at position ${this.curToken.position}`;
+      this.addError(errorMsg);
+      throw new Error(errorMsg);
+    }
+
+    const position = pattern.token.position;
+    const unsafe = checkPatternSafety(pattern.value);
+    if (unsafe) {
+      const errorMsg = `Unsafe regular expression at position ${position}: ${unsafe}`;
+      this.addError(errorMsg, pattern.token);
+      throw new Error(errorMsg);
+    }
+
+    try {
+      // The pattern was the last thing parsed, so the regex takes over its span
+      return this.withSpan(
+        new RegexLiteral(pattern.token, pattern.value, new RegExp(pattern.value)),
+        position
+      );
+    } catch (error) {
+      const errorMsg = `Invalid regular expression at position ${position}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`;
+      this.addError(errorMsg, pattern.token);
+      throw new Error(errorMsg);
+    }
+  }
+
   /**
    * PEEK PRECEDENCE
    * Returns precedence of the next token (lookahead)
@@ -390,6 +1357,43 @@ export class Parser {
     return precedences[this.peekToken.type] || Precedence.LOWEST;
   }
 
+  /**
+   * PEEK BINDS
+   * Decides whether the next operator continues the current expression,
+   * recording the decision for explainExpression()
+   * 
+   * Example: "age > 18 AND active = true"
+   * - at "age", ">" (COMPARE) binds inside LOWEST → age > ...
+   * - at "18", AND (LOGICAL) does not bind inside COMPARE → "age > 18" is returned
+   * - back at LOWEST, AND binds → (age > 18) AND ...
+   * 
+   * @param precedence - Precedence of the expression being parsed
+   * @returns true if the next operator takes the expression so far as its left operand
+   */
+  private peekBinds(precedence: Precedence): boolean {
+    const binds = precedence < this.peekPrecedence();
+    if (this.peekToken.type in precedences) {
+      this.decisions.push({
+        operator: this.peekToken.literal,
+        position: this.peekToken.position,
+        precedence: Precedence[this.peekPrecedence()],
+        context: Precedence[precedence],
+        binds,
+      });
+    }
+    return binds;
+  }
+
+  /**
+   * GET PRECEDENCE DECISIONS
+   * Returns every bind/return decision taken for an operator, in parse order
+   * 
+   * @returns Array of precedence decisions
+   */
+  getPrecedenceDecisions(): PrecedenceDecision[] {
+    return this.decisions;
+  }
+
   /**
    * CURRENT PRECEDENCE
    * Returns precedence of the current token (operator)
@@ -398,7 +1402,7 @@ export class Parser {
    * to bind the right operand.
    * 
    * Example: "age > 18"
-   * When current token is ">", returns Precedence.COMPARE (3)
+   * When current token is ">", returns Precedence.COMPARE (4)
    * 
    * @returns Precedence value of curToken, or LOWEST if not an operator
    */
@@ -406,17 +1410,50 @@ export class Parser {
     return precedences[this.curToken.type] || Precedence.LOWEST;
   }
 
+  /**
+   * EXPECT PEEK
+   * Advances to the next token only if it has the expected type
+   * 
+   * Example: After parsing the elements of "['US', 'CA']",
+   * expectPeek(RIGHT_BRACKET, "closing bracket ']'") consumes the "]"
+   * 
+   * @param type - Token type the next token must have
+   * @param description - Human-readable name used in the error message
+   * @param alternatives - Token types reported as expected (defaults to type)
+   * @param hint - Extra advice appended to the error message (see keywordHint)
+   * @throws Error if the next token has a different type
+   */
+  private expectPeek(
+    type: TokenType,
+    description: string,
+    alternatives: TokenType[] = [type],
+    hint = ''
+  ): void {
+    if (this.peekToken.type !== type) {
+      const errorMsg = `Expected ${description} at position ${this.peekToken.position}${hint && `.${hint}`}`;
+      this.addError(errorMsg, this.peekToken, { expected: alternatives.map(describeTokenType) });
+      throw new Error(errorMsg);
+    }
+    this.nextToken();
+  }
+
   /**
    * ADD ERROR
-   * Accumulates parsing error messages
+   * Records a parsing error as a diagnostic with its source range
    * 
-   * Errors are collected rather than thrown immediately to provide
-   * better error reporting (could report multiple errors in future).
+   * Callers still throw right after recording, which abandons the current
+   * clause; parse() then recovers at the next AND/OR and keeps collecting.
    * 
    * @param msg - Error message describing what went wrong
+   * @param token - Token the error points at (defaults to the current token)
+   * @param extra - Expected tokens and "did you mean" suggestions, if any
    */
-  private addError(msg: string): void {
-    this.errors.push(msg);
+  private addError(
+    msg: string,
+    token: Token = this.curToken,
+    extra: Pick<Diagnostic, 'expected' | 'suggestions'> = {}
+  ): void {
+    this.diagnostics.push({ severity: 'error', message: msg, ...this.rangeOf(token), ...extra });
   }
 
   /**
@@ -428,7 +1465,125 @@ export class Parser {
    * @returns Array of error message strings
    */
   getErrors(): string[] {
-    return this.errors;
+    return this.diagnostics.filter((d) => d.severity === 'error').map((d) => d.message);
+  }
+
+  /**
+   * ADD WARNING
+   * Records a non-fatal issue - parsing continues and the AST stays valid
+   * 
+   * @param msg - Warning message describing the issue
+   */
+  private addWarning(msg: string): void {
+    this.diagnostics.push({ severity: 'warning', message: msg, ...this.rangeOf(this.curToken) });
+  }
+
+  /**
+   * GET WARNINGS
+   * Returns non-fatal issues found while parsing (e.g., numeric precision loss)
+   * 
+   * @returns Array of warning message strings
+   */
+  getWarnings(): string[] {
+    return this.diagnostics.filter((d) => d.severity === 'warning').map((d) => d.message);
+  }
+
+  /**
+   * GET DIAGNOSTICS
+   * Returns errors and warnings with their line/column ranges, in the order found
+   * 
+   * @returns Array of diagnostics
+   */
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * WITH SPAN
+   * Records the source span of a node that ends at the current token
+   * 
+   * @param node - Node just parsed
+   * @param start - Offset of the node's first character
+   * @returns The same node
+   */
+  private withSpan<T extends Expression>(node: T, start: number): T {
+    node.span = { start, end: this.endOf(this.curToken) };
+    return node;
+  }
+
+  /**
+   * END OF
+   * Offset just past a token's last character
+   * 
+   * @param token - Token to measure
+   * @returns Offset recorded by the lexer, or computed from the literal
+   */
+  private endOf(token: Token): number {
+    return token.end ?? token.position + token.literal.length;
+  }
+
+  /**
+   * KEYWORD HINT
+   * Points to backticks when a keyword written in lower or mixed case is
+   * out of place - most likely a field named like a keyword
+   * 
+   * Example: "all = 5" → " If 'all' is a field name, quote it in backticks: `all`"
+   * 
+   * @param token - Token the error is about
+   * @returns Hint to append to the error message ('' for other tokens)
+   */
+  private keywordHint(token: Token): string {
+    const written = this.lexer.getInput().slice(token.position, this.endOf(token));
+    const word = written.toUpperCase();
+    if (
+      !Object.prototype.hasOwnProperty.call(KEYWORDS, word) ||
+      KEYWORDS[word] !== token.type ||
+      written === word
+    ) {
+      return '';
+    }
+    return ` If '${written}' is a field name, quote it in backticks: \`${written}\``;
+  }
+
+  /**
+   * EXPECT CONDITION
+   * Rejects a value where a condition is required (an AND/OR operand or the
+   * whole expression), so such rules fail when created, not when evaluated
+   * 
+   * Example: "a AND b" → "Each side of AND must be a condition, not a value, at position 0"
+   * 
+   * @param expr - Parsed expression (its span locates the error)
+   * @param requirement - Start of the error message
+   * @throws Error if the expression is a value
+   */
+  private expectCondition(expr: Expression, requirement: string): void {
+    if (staticType(expr) === null) {
+      return;
+    }
+    const span = expr.span ?? { start: this.curToken.position, end: this.endOf(this.curToken) };
+    const errorMsg = `${requirement}, not a value, at position ${span.start}`;
+    this.addError(errorMsg, {
+      type: TokenType.ILLEGAL,
+      literal: this.lexer.getInput().slice(span.start, span.end),
+      position: span.start,
+      end: span.end,
+    });
+    throw new Error(errorMsg);
+  }
+
+  /**
+   * RANGE OF
+   * Source range covered by a token, as line/column locations
+   * 
+   * @param token - Token to locate
+   * @returns start (first character) and end (just past the last character)
+   */
+  private rangeOf(token: Token): Pick<Diagnostic, 'start' | 'end'> {
+    const input = this.lexer.getInput();
+    return {
+      start: locate(input, token.position),
+      end: locate(input, this.endOf(token)),
+    };
   }
 }
 
@@ -450,7 +1605,7 @@ export class Parser {
  * 
  * @param expression - Rule expression string to parse
  * @returns Root node of Abstract Syntax Tree
- * @throws Error if expression has syntax errors
+ * @throws DiagnosticError if expression has syntax errors (all of them, with locations)
  */
 export function parseExpression(expression: string): Expression {
   // Step 1: Tokenize the expression string
@@ -462,3 +1617,71 @@ export function parseExpression(expression: string): Expression {
   // Step 3: Parse and return AST root node
   return parser.parse();
 }
+
+/**
+ * PARSE RESULT
+ * AST together with the warnings found while parsing it
+ */
+export interface ParseResult {
+  /** Root node of the Abstract Syntax Tree */
+  ast: Expression;
+
+  /** Non-fatal issues (e.g., "Number '1e400' is too large and becomes Infinity ...") */
+  warnings: string[];
+}
+
+/**
+ * PARSE EXPRESSION WITH WARNINGS
+ * Like parseExpression(), but also returns the parser's warnings
+ * 
+ * @param expression - Rule expression string to parse
+ * @returns AST and warnings
+ * @throws DiagnosticError if expression has syntax errors (all of them, with locations)
+ */
+export function parseExpressionWithWarnings(expression: string): ParseResult {
+  const parser = new Parser(new Lexer(expression));
+  const ast = parser.parse();
+  return { ast, warnings: parser.getWarnings() };
+}
+
+/**
+ * PARSE EXPLANATION
+ * Everything needed to see how an expression was parsed
+ */
+export interface ParseExplanation extends ParseResult {
+  /** Token stream from the lexer (without the final EOF) */
+  tokens: Token[];
+
+  /** Operator precedence decisions, in parse order */
+  precedence: PrecedenceDecision[];
+}
+
+/**
+ * EXPLAIN EXPRESSION
+ * Parses an expression and also returns its tokens and precedence decisions
+ * 
+ * Example: explainExpression("a = 1 OR b = 2")
+ * → tokens: [IDENTIFIER(a), =, NUMBER(1), OR, IDENTIFIER(b), =, NUMBER(2)]
+ *   precedence: [= binds in LOWEST, OR returns from COMPARE, OR binds in LOWEST, = binds in LOGICAL]
+ * 
+ * @param expression - Rule expression string to parse
+ * @returns AST, warnings, tokens and precedence decisions
+ * @throws DiagnosticError if expression has syntax errors (all of them, with locations)
+ */
+export function explainExpression(expression: string): ParseExplanation {
+  // Tokenize separately - the parser consumes its lexer's tokens as it goes
+  const lexer = new Lexer(expression);
+  const tokens: Token[] = [];
+  for (let token = lexer.nextToken(); token.type !== TokenType.EOF; token = lexer.nextToken()) {
+    tokens.push(token);
+  }
+
+  const parser = new Parser(new Lexer(expression));
+  const ast = parser.parse();
+  return {
+    ast,
+    warnings: parser.getWarnings(),
+    tokens,
+    precedence: parser.getPrecedenceDecisions(),
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * PRINTER: Renders an AST back into canonical expression text
+ * 
+ * The inverse of the parser. Rules typed by different people vary in
+ * spacing, keyword case, operator aliases, quotes and parentheses; printing
+ * their ASTs gives one canonical spelling:
+ * 
+ * "(age>=18)  and country == \"US\"" → "age >= 18 AND country = 'US'"
+ * 
+ * Canonical form:
+ * - One space around binary operators, none inside parentheses or brackets
+ * - Keywords in upper case, aliases replaced (==, <>, &&, || → =, !=, AND, OR)
+ * - Strings in single quotes, field names backtick-quoted only when needed
+ * - Parentheses only where precedence requires them, plus around an AND/OR
+ *   nested on the left of the other operator: AND and OR share one precedence
+ *   level and group left to right, so "(a OR b) AND c" keeps its parentheses
+ *   rather than relying on a reader knowing that
+ * - Numbers and durations as written (e.g., 1_000_000, 30d); comments dropped
+ * 
+ * Round trip: parseExpression(printExpression(ast)) builds the same tree,
+ * and printing that tree again gives the same text.
+ */
+
+import { TokenType } from '../domain/token';
+import {
+  Expression,
+  BinaryExpression,
+  LogicalExpression,
+  UnaryExpression,
+  ArithmeticExpression,
+  BetweenExpression,
+} from '../domain/ast';
+import { quotePath, quoteString } from '../domain/strings';
+import { ExpressionVisitor } from '../domain/visitor';
+
+/**
+ * BINDING STRENGTH
+ * How tightly a printed node holds together - mirrors the parser's
+ * Precedence levels, plus ATOM for nodes that never need parentheses
+ * (fields, literals, calls, aggregates, quantifiers, lists)
+ */
+enum Binding {
+  LOGICAL = 2,    // AND, OR
+  NOT = 3,        // NOT (prefix)
+  COMPARE = 4,    // =, !=, >, IN, BETWEEN, CONTAINS, ...
+  SUM = 5,        // +, -
+  PRODUCT = 6,    // *, /, %
+  PREFIX = 7,     // -x (unary minus)
+  ATOM = 8,
+}
+
+/**
+ * BINDING OF
+ * Binding strength of a node's top-level construct
+ * 
+ * @param expr - AST node
+ * @returns Binding level
+ */
+function bindingOf(expr: Expression): Binding {
+  if (expr instanceof LogicalExpression) {
+    return Binding.LOGICAL;
+  }
+  if (expr instanceof UnaryExpression) {
+    return expr.operator.type === TokenType.MINUS ? Binding.PREFIX : Binding.NOT;
+  }
+  if (expr instanceof BinaryExpression || expr instanceof BetweenExpression) {
+    return Binding.COMPARE;
+  }
+  if (expr instanceof ArithmeticExpression) {
+    return expr.operator.type === TokenType.PLUS || expr.operator.type === TokenType.MINUS
+      ? Binding.SUM
+      : Binding.PRODUCT;
+  }
+  return Binding.ATOM;
+}
+
+/**
+ * PRINT OPERAND
+ * Prints a child node, parenthesized when it binds looser than its position allows
+ * 
+ * Left operands may bind as tightly as their parent (operators group left
+ * to right); right operands must bind strictly tighter.
+ * 
+ * Examples (parent "-", binding SUM):
+ * - left  "a - b" in "(a - b) - c" → no parentheses needed: "a - b - c"
+ * - right "b - c" in "a - (b - c)" → parentheses kept
+ * 
+ * @param expr - Child node
+ * @param minimum - Weakest binding printed without parentheses
+ * @returns Operand text
+ */
+function printOperand(expr: Expression, minimum: Binding): string {
+  const text = printExpression(expr);
+  return bindingOf(expr) < minimum ? `(${text})` : text;
+}
+
+/**
+ * PRINT EXPRESSION
+ * Converts an AST into canonical, minimally-parenthesized expression text
+ * 
+ * Examples:
+ * - LogicalExpression(age >= 18, AND, LogicalExpression(a = 1, OR, b = 2))
+ *   → "age >= 18 AND (a = 1 OR b = 2)"
+ * - ArithmeticExpression(ArithmeticExpression(a, +, b), *, c) → "(a + b) * c"
+ * - UnaryExpression(NOT, BinaryExpression(status, =, 'banned')) → "NOT status = 'banned'"
+ * 
+ * @param expr - Root node of the AST
+ * @returns Expression text that parses back to the same AST
+ */
+export function printExpression(expr: Expression): string {
+  return expr.accept(printer);
+}
+
+/**
+ * PRINTER
+ * Visitor producing each node's canonical text
+ */
+const printer: ExpressionVisitor<string> = {
+  visitLogicalExpression: (expr) => {
+    // Same-operator chains read naturally: a AND b AND c
+    const left =
+      expr.left instanceof LogicalExpression && expr.left.operator.type !== expr.operator.type
+        ? `(${printExpression(expr.left)})`
+        : printOperand(expr.left, Binding.LOGICAL);
+    return `${left} ${expr.operator.literal} ${printOperand(expr.right, Binding.LOGICAL + 1)}`;
+  },
+  visitUnaryExpression: (expr) => {
+    if (expr.operator.type === TokenType.MINUS) {
+      // A negative operand is parenthesized, so "--" never reads like a comment: -(-x)
+      const operand = printOperand(expr.operand, Binding.PREFIX);
+      return operand.startsWith('-') ? `-(${operand})` : `-${operand}`;
+    }
+    // NOT's operand may be a whole comparison: NOT age > 18
+    return `${expr.operator.literal} ${printOperand(expr.operand, Binding.NOT)}`;
+  },
+  visitBinaryExpression: (expr) =>
+    [
+      printOperand(expr.left, Binding.COMPARE),
+      expr.operator.literal,
+      printOperand(expr.right, Binding.COMPARE + 1),
+    ].join(' '),
+  // Bounds are parsed at comparison precedence, so only arithmetic stays bare
+  visitBetweenExpression: (expr) =>
+    [
+      printOperand(expr.value, Binding.COMPARE),
+      expr.tokenLiteral(),
+      printOperand(expr.low, Binding.COMPARE + 1),
+      'AND',
+      printOperand(expr.high, Binding.COMPARE + 1),
+    ].join(' '),
+  visitArithmeticExpression: (expr) => {
+    const binding = bindingOf(expr);
+    return [
+      printOperand(expr.left, binding),
+      expr.operator.literal,
+      printOperand(expr.right, binding + 1),
+    ].join(' ');
+  },
+  visitQuantifierExpression: (expr) =>
+    `${expr.token.literal} ${quotePath(expr.collection.path)} (${printExpression(expr.predicate)})`,
+  visitAggregateExpression: (expr) => {
+    const filter = expr.filter ? ` WHERE ${printExpression(expr.filter)}` : '';
+    return `${expr.name}(${quotePath(expr.field.path)}${filter})`;
+  },
+  visitCallExpression: (expr) => `${expr.name}(${expr.args.map(printExpression).join(', ')})`,
+  visitIdentifier: (expr) => quotePath(expr.path),
+  // As written, so 1_000_000 and 99.90 keep their spelling
+  visitNumberLiteral: (expr) => expr.token.literal,
+  visitDurationLiteral: (expr) => expr.token.literal,
+  visitStringLiteral: (expr) => quoteString(expr.value),
+  visitDateLiteral: (expr) => quoteString(expr.value),
+  visitRegexLiteral: (expr) => quoteString(expr.value),
+  visitBooleanLiteral: (expr) => String(expr.value),
+  visitNullLiteral: () => 'null',
+  visitListLiteral: (expr) => `[${expr.elements.map(printExpression).join(', ')}]`,
+};
@@ -0,0 +1,621 @@
+/**
+ * SERIALIZER: Stable JSON representation of the AST
+ * 
+ * AST nodes are classes holding lexer tokens, which makes them awkward to
+ * return from the API or store. serializeExpression() turns a tree into
+ * plain JSON objects tagged by "type"; deserializeExpression() rebuilds the
+ * node classes from that JSON.
+ * 
+ * Example: "age >= 18 AND country = 'US'"
+ * {
+ *   "type": "Logical", "operator": "AND", "span": { "start": 0, "end": 28 },
+ *   "left": {
+ *     "type": "Binary", "operator": ">=", "span": { "start": 0, "end": 9 },
+ *     "left": { "type": "Identifier", "name": "age", "path": ["age"], ... },
+ *     "right": { "type": "Number", "value": 18, "raw": "18", ... }
+ *   },
+ *   "right": { "type": "Binary", "operator": "=", ... }
+ * }
+ * 
+ * Stability: the shape is versioned by AST_FORMAT_VERSION. Fields are only
+ * ever added within a version; renames or removals bump it.
+ */
+
+import { Token, TokenType } from '../domain/token';
+import {
+  Expression,
+  Span,
+  PathSegment,
+  BinaryExpression,
+  LogicalExpression,
+  UnaryExpression,
+  ArithmeticExpression,
+  Identifier,
+  NumberLiteral,
+  StringLiteral,
+  BooleanLiteral,
+  NullLiteral,
+  ListLiteral,
+  RegexLiteral,
+  CallExpression,
+  DateLiteral,
+  DurationLiteral,
+  BetweenExpression,
+  QuantifierExpression,
+  AggregateExpression,
+} from '../domain/ast';
+import { isAggregate, lookupFunction } from '../domain/functions';
+import { parseIsoDate } from '../domain/time';
+import { ExpressionVisitor } from '../domain/visitor';
+import { checkCall, checkPatternSafety } from './parser';
+
+/**
+ * AST FORMAT VERSION
+ * Version of the JSON shape produced by serializeExpression()
+ */
+export const AST_FORMAT_VERSION = 1;
+
+/**
+ * SERIALIZED NODE BASE
+ * Fields shared by every JSON node
+ */
+interface SerializedNodeBase {
+  /** Source offsets of the node (absent for nodes not built by the parser) */
+  span?: Span;
+}
+
+/** Field reference: age, orders[0].total */
+export interface SerializedIdentifier extends SerializedNodeBase {
+  type: 'Identifier';
+  name: string;
+  path: PathSegment[];
+}
+
+/**
+ * SERIALIZED EXPRESSION
+ * JSON form of any AST node, discriminated by "type"
+ */
+export type SerializedExpression =
+  | (SerializedNodeBase & {
+      type: 'Logical';
+      operator: string;
+      left: SerializedExpression;
+      right: SerializedExpression;
+    })
+  | (SerializedNodeBase & {
+      type: 'Binary';
+      operator: string;
+      left: SerializedExpression;
+      right: SerializedExpression;
+    })
+  | (SerializedNodeBase & {
+      type: 'Arithmetic';
+      operator: string;
+      left: SerializedExpression;
+      right: SerializedExpression;
+    })
+  | (SerializedNodeBase & {
+      type: 'Between';
+      negated: boolean;
+      value: SerializedExpression;
+      low: SerializedExpression;
+      high: SerializedExpression;
+    })
+  | (SerializedNodeBase & { type: 'Unary'; operator: string; operand: SerializedExpression })
+  | SerializedIdentifier
+  | (SerializedNodeBase & { type: 'Number'; value: number; raw: string })
+  | (SerializedNodeBase & { type: 'String'; value: string })
+  | (SerializedNodeBase & { type: 'Date'; value: string })
+  | (SerializedNodeBase & { type: 'Duration'; value: number; raw: string })
+  | (SerializedNodeBase & { type: 'Boolean'; value: boolean })
+  | (SerializedNodeBase & { type: 'Null' })
+  | (SerializedNodeBase & { type: 'List'; elements: SerializedExpression[] })
+  | (SerializedNodeBase & { type: 'Regex'; pattern: string })
+  | (SerializedNodeBase & { type: 'Call'; name: string; args: SerializedExpression[] })
+  | (SerializedNodeBase & {
+      type: 'Quantifier';
+      quantifier: string;
+      collection: SerializedIdentifier;
+      predicate: SerializedExpression;
+    })
+  | (SerializedNodeBase & {
+      type: 'Aggregate';
+      name: string;
+      field: SerializedIdentifier;
+      filter: SerializedExpression | null;
+    });
+
+// Operators accepted per node type when deserializing
+const LOGICAL_OPERATORS = [TokenType.AND, TokenType.OR];
+const ARITHMETIC_OPERATORS = [
+  TokenType.PLUS,
+  TokenType.MINUS,
+  TokenType.ASTERISK,
+  TokenType.SLASH,
+  TokenType.PERCENT,
+];
+const COMPARISON_OPERATORS = [
+  TokenType.EQUAL,
+  TokenType.NOT_EQUAL,
+  TokenType.GREATER,
+  TokenType.LESS,
+  TokenType.GREATER_EQUAL,
+  TokenType.LESS_EQUAL,
+  TokenType.IN,
+  TokenType.NOT_IN,
+  TokenType.CONTAINS,
+  TokenType.ICONTAINS,
+  TokenType.STARTS_WITH,
+  TokenType.ISTARTS_WITH,
+  TokenType.ENDS_WITH,
+  TokenType.IENDS_WITH,
+  TokenType.LIKE,
+  TokenType.ILIKE,
+  TokenType.MATCHES,
+];
+
+/**
+ * SERIALIZE EXPRESSION
+ * Converts an AST into its JSON representation
+ * 
+ * @param expr - Root node of the AST
+ * @returns Plain JSON object (safe for JSON.stringify)
+ */
+export function serializeExpression(expr: Expression): SerializedExpression {
+  return expr.accept(serializer);
+}
+
+/**
+ * SERIALIZER
+ * Visitor producing each node's JSON form
+ */
+const serializer: ExpressionVisitor<SerializedExpression> = {
+  visitLogicalExpression: (expr) => ({
+    type: 'Logical',
+    operator: expr.operator.literal,
+    ...spanField(expr),
+    left: serializeExpression(expr.left),
+    right: serializeExpression(expr.right),
+  }),
+  visitBinaryExpression: (expr) => ({
+    type: 'Binary',
+    operator: expr.operator.literal,
+    ...spanField(expr),
+    left: serializeExpression(expr.left),
+    right: serializeExpression(expr.right),
+  }),
+  visitArithmeticExpression: (expr) => ({
+    type: 'Arithmetic',
+    operator: expr.operator.literal,
+    ...spanField(expr),
+    left: serializeExpression(expr.left),
+    right: serializeExpression(expr.right),
+  }),
+  visitBetweenExpression: (expr) => ({
+    type: 'Between',
+    negated: expr.negated,
+    ...spanField(expr),
+    value: serializeExpression(expr.value),
+    low: serializeExpression(expr.low),
+    high: serializeExpression(expr.high),
+  }),
+  visitUnaryExpression: (expr) => ({
+    type: 'Unary',
+    operator: expr.operator.literal,
+    ...spanField(expr),
+    operand: serializeExpression(expr.operand),
+  }),
+  visitIdentifier: (expr) => serializeIdentifier(expr),
+  visitNumberLiteral: (expr) => ({
+    type: 'Number',
+    value: expr.value,
+    raw: expr.token.literal,
+    ...spanField(expr),
+  }),
+  visitDateLiteral: (expr) => ({ type: 'Date', value: expr.value, ...spanField(expr) }),
+  visitStringLiteral: (expr) => ({ type: 'String', value: expr.value, ...spanField(expr) }),
+  visitDurationLiteral: (expr) => ({
+    type: 'Duration',
+    value: expr.value,
+    raw: expr.token.literal,
+    ...spanField(expr),
+  }),
+  visitBooleanLiteral: (expr) => ({ type: 'Boolean', value: expr.value, ...spanField(expr) }),
+  visitNullLiteral: (expr) => ({ type: 'Null', ...spanField(expr) }),
+  visitListLiteral: (expr) => ({
+    type: 'List',
+    ...spanField(expr),
+    elements: expr.elements.map(serializeExpression),
+  }),
+  visitRegexLiteral: (expr) => ({ type: 'Regex', pattern: expr.value, ...spanField(expr) }),
+  visitCallExpression: (expr) => ({
+    type: 'Call',
+    name: expr.name,
+    ...spanField(expr),
+    args: expr.args.map(serializeExpression),
+  }),
+  visitQuantifierExpression: (expr) => ({
+    type: 'Quantifier',
+    quantifier: expr.token.literal,
+    ...spanField(expr),
+    collection: serializeIdentifier(expr.collection),
+    predicate: serializeExpression(expr.predicate),
+  }),
+  visitAggregateExpression: (expr) => ({
+    type: 'Aggregate',
+    name: expr.name,
+    ...spanField(expr),
+    field: serializeIdentifier(expr.field),
+    filter: expr.filter ? serializeExpression(expr.filter) : null,
+  }),
+};
+
+/**
+ * SERIALIZE IDENTIFIER
+ * JSON form of a field reference (also used for quantifier/aggregate fields)
+ * 
+ * @param ident - Identifier node
+ * @returns Serialized identifier
+ */
+function serializeIdentifier(ident: Identifier): SerializedIdentifier {
+  return { type: 'Identifier', name: ident.value, path: [...ident.path], ...spanField(ident) };
+}
+
+/**
+ * SPAN FIELD
+ * The "span" property of a serialized node (empty if the node has no span)
+ * 
+ * @param expr - AST node
+ * @returns { span } or {}
+ */
+function spanField(expr: Expression): Pick<SerializedNodeBase, 'span'> {
+  return expr.span ? { span: { ...expr.span } } : {};
+}
+
+/**
+ * DESERIALIZE EXPRESSION
+ * Rebuilds AST node classes from their JSON representation
+ * 
+ * Tokens are synthesized from the JSON (positioned at span.start, or 0),
+ * dates are re-validated and regex patterns recompiled.
+ * 
+ * Example:
+ * deserializeExpression({ type: "Binary", operator: ">=",
+ *   left: { type: "Identifier", name: "age", path: ["age"] },
+ *   right: { type: "Number", value: 18, raw: "18" } })
+ * → BinaryExpression(Identifier("age"), ">=", NumberLiteral(18))
+ * 
+ * @param json - Serialized expression (e.g., parsed from a request body)
+ * @returns Root node of the rebuilt AST
+ * @throws Error naming the JSON location of the first invalid node (e.g., "$.left.right")
+ */
+export function deserializeExpression(json: unknown): Expression {
+  return deserializeNode(json, '$');
+}
+
+/**
+ * DESERIALIZE NODE
+ * Recursive worker for deserializeExpression()
+ * 
+ * @param json - Candidate node
+ * @param at - JSON location of the node, for error messages
+ * @returns Rebuilt node, with its span restored
+ * @throws Error if the node is malformed
+ */
+function deserializeNode(json: unknown, at: string): Expression {
+  const node = expectObject(json, at);
+  const span = readSpan(node, at);
+  const position = span ? span.start : 0;
+  let expr: Expression;
+
+  switch (node.type) {
+    case 'Logical':
+    case 'Binary':
+    case 'Arithmetic': {
+      const allowed =
+        node.type === 'Logical'
+          ? LOGICAL_OPERATORS
+          : node.type === 'Binary'
+            ? COMPARISON_OPERATORS
+            : ARITHMETIC_OPERATORS;
+      const operator = operatorToken(node.operator, allowed, position, `${at}.operator`);
+      const left = deserializeNode(node.left, `${at}.left`);
+      const right = deserializeNode(node.right, `${at}.right`);
+      if (node.type === 'Logical') {
+        expr = new LogicalExpression(left, operator, right);
+      } else if (node.type === 'Binary') {
+        expr = new BinaryExpression(
+          left,
+          operator,
+          operator.type === TokenType.MATCHES ? toRegex(right, `${at}.right`) : right
+        );
+      } else {
+        expr = new ArithmeticExpression(left, operator, right);
+      }
+      break;
+    }
+    case 'Between':
+      expr = new BetweenExpression(
+        { type: TokenType.BETWEEN, literal: 'BETWEEN', position },
+        deserializeNode(node.value, `${at}.value`),
+        deserializeNode(node.low, `${at}.low`),
+        deserializeNode(node.high, `${at}.high`),
+        expectBoolean(node.negated, `${at}.negated`)
+      );
+      break;
+    case 'Unary':
+      expr = new UnaryExpression(
+        operatorToken(node.operator, [TokenType.NOT, TokenType.MINUS], position, `${at}.operator`),
+        deserializeNode(node.operand, `${at}.operand`)
+      );
+      break;
+    case 'Identifier':
+      expr = deserializeIdentifier(node, at, position);
+      break;
+    case 'Number': {
+      const value = expectNumber(node.value, `${at}.value`);
+      const raw = node.raw === undefined ? String(value) : expectString(node.raw, `${at}.raw`);
+      expr = new NumberLiteral({ type: TokenType.NUMBER, literal: raw, position }, value);
+      break;
+    }
+    case 'String': {
+      const value = expectString(node.value, `${at}.value`);
+      expr = new StringLiteral({ type: TokenType.STRING, literal: value, position }, value);
+      break;
+    }
+    case 'Date': {
+      const value = expectString(node.value, `${at}.value`);
+      const date = parseIsoDate(value);
+      if (!date) {
+        throw new Error(`Invalid AST JSON at ${at}.value: '${value}' is not an ISO-8601 date`);
+      }
+      expr = new DateLiteral({ type: TokenType.STRING, literal: value, position }, value, date);
+      break;
+    }
+    case 'Duration': {
+      const value = expectNumber(node.value, `${at}.value`);
+      const raw = node.raw === undefined ? `${value}ms` : expectString(node.raw, `${at}.raw`);
+      expr = new DurationLiteral({ type: TokenType.DURATION, literal: raw, position }, value);
+      break;
+    }
+    case 'Boolean': {
+      const value = expectBoolean(node.value, `${at}.value`);
+      const type = value ? TokenType.TRUE : TokenType.FALSE;
+      expr = new BooleanLiteral({ type, literal: type, position }, value);
+      break;
+    }
+    case 'Null':
+      expr = new NullLiteral({ type: TokenType.NULL, literal: TokenType.NULL, position });
+      break;
+    case 'List':
+      expr = new ListLiteral(
+        { type: TokenType.LEFT_BRACKET, literal: '[', position },
+        expectArray(node.elements, `${at}.elements`).map((element, index) =>
+          deserializeNode(element, `${at}.elements[${index}]`)
+        )
+      );
+      break;
+    case 'Regex': {
+      const pattern = expectString(node.pattern, `${at}.pattern`);
+      expr = toRegex(
+        new StringLiteral({ type: TokenType.STRING, literal: pattern, position }, pattern),
+        at
+      );
+      break;
+    }
+    case 'Call': {
+      const name = expectString(node.name, `${at}.name`);
+      const signature = lookupFunction(name);
+      if (!signature) {
+        throw new Error(`Invalid AST JSON at ${at}.name: unknown function '${name}'`);
+      }
+      const args = expectArray(node.args, `${at}.args`).map((arg, index) =>
+        deserializeNode(arg, `${at}.args[${index}]`)
+      );
+      // Same arity and argument type checks as the parser
+      const invalid = checkCall(signature, args, position);
+      if (invalid) {
+        throw new Error(`Invalid AST JSON at ${at}.args: ${invalid}`);
+      }
+      expr = new CallExpression(
+        { type: TokenType.IDENTIFIER, literal: name, position },
+        signature.name,
+        args
+      );
+      break;
+    }
+    case 'Quantifier': {
+      const token = operatorToken(
+        node.quantifier,
+        [TokenType.ANY, TokenType.ALL],
+        position,
+        `${at}.quantifier`
+      );
+      const collection = expectObject(node.collection, `${at}.collection`);
+      expr = new QuantifierExpression(
+        token,
+        deserializeIdentifier(collection, `${at}.collection`, position),
+        deserializeNode(node.predicate, `${at}.predicate`)
+      );
+      break;
+    }
+    case 'Aggregate': {
+      const name = expectString(node.name, `${at}.name`);
+      if (!isAggregate(name)) {
+        throw new Error(`Invalid AST JSON at ${at}.name: unknown aggregate '${name}'`);
+      }
+      const field = expectObject(node.field, `${at}.field`);
+      expr = new AggregateExpression(
+        { type: TokenType.IDENTIFIER, literal: name, position },
+        name.toUpperCase(),
+        deserializeIdentifier(field, `${at}.field`, position),
+        node.filter === null || node.filter === undefined
+          ? null
+          : deserializeNode(node.filter, `${at}.filter`)
+      );
+      break;
+    }
+    default:
+      throw new Error(`Invalid AST JSON at ${at}.type: unknown node type '${String(node.type)}'`);
+  }
+
+  return withSpan(expr, span);
+}
+
+/**
+ * DESERIALIZE IDENTIFIER
+ * Rebuilds a field reference, checking its path segments
+ * 
+ * @param node - Serialized identifier
+ * @param at - JSON location, for error messages
+ * @param position - Position for the synthesized token
+ * @returns Identifier node
+ * @throws Error if the node is not a valid identifier
+ */
+function deserializeIdentifier(
+  node: Record<string, unknown>,
+  at: string,
+  position: number
+): Identifier {
+  if (node.type !== 'Identifier') {
+    throw new Error(`Invalid AST JSON at ${at}.type: expected an Identifier`);
+  }
+  const name = expectString(node.name, `${at}.name`);
+  const path = node.path === undefined ? [name] : expectArray(node.path, `${at}.path`);
+  if (
+    path.length === 0 ||
+    !path.every((segment) => typeof segment === 'string' || Number.isInteger(segment))
+  ) {
+    throw new Error(`Invalid AST JSON at ${at}.path: expected field names and array indexes`);
+  }
+
+  return withSpan(
+    new Identifier({ type: TokenType.IDENTIFIER, literal: name, position }, name, path as PathSegment[]),
+    readSpan(node, at)
+  );
+}
+
+/**
+ * WITH SPAN
+ * Restores a deserialized node's span
+ * 
+ * @param node - Rebuilt node
+ * @param span - Span read from the JSON, if any
+ * @returns The same node
+ */
+function withSpan<T extends Expression>(node: T, span: Span | undefined): T {
+  if (span) {
+    node.span = span;
+  }
+  return node;
+}
+
+/**
+ * TO REGEX
+ * Compiles the pattern of a MATCHES comparison
+ * 
+ * Patterns get the parser's ReDoS guards (see checkPatternSafety), so JSON
+ * cannot smuggle in a pattern that parsing would reject.
+ * 
+ * @param pattern - String literal (or already compiled regex) node
+ * @param at - JSON location, for error messages
+ * @returns RegexLiteral with the compiled pattern
+ * @throws Error if the pattern is not a string, is unsafe or does not compile
+ */
+function toRegex(pattern: Expression, at: string): RegexLiteral {
+  if (pattern instanceof RegexLiteral) {
+    return pattern;
+  }
+  if (!(pattern instanceof StringLiteral)) {
+    throw new Error(`Invalid AST JSON at ${at}: MATCHES requires a string pattern`);
+  }
+  const unsafe = checkPatternSafety(pattern.value);
+  if (unsafe) {
+    throw new Error(`Invalid AST JSON at ${at}: unsafe regular expression: ${unsafe}`);
+  }
+  try {
+    return new RegexLiteral(pattern.token, pattern.value, new RegExp(pattern.value));
+  } catch (error) {
+    throw new Error(
+      `Invalid AST JSON at ${at}: ${error instanceof Error ? error.message : 'invalid regular expression'}`
+    );
+  }
+}
+
+/**
+ * OPERATOR TOKEN
+ * Synthesizes the token for an operator written in the JSON
+ * 
+ * @param value - Operator as serialized (e.g., ">=", "NOT IN", "AND")
+ * @param allowed - Operator token types valid for the node
+ * @param position - Position for the synthesized token
+ * @param at - JSON location, for error messages
+ * @returns Operator token
+ * @throws Error if the operator is not allowed here
+ */
+function operatorToken(value: unknown, allowed: TokenType[], position: number, at: string): Token {
+  const type = allowed.find((candidate) => candidate === value);
+  if (type === undefined) {
+    throw new Error(`Invalid AST JSON at ${at}: expected one of ${allowed.join(', ')}`);
+  }
+  return { type, literal: type, position };
+}
+
+/**
+ * READ SPAN
+ * Reads an optional span, checking its offsets
+ * 
+ * @param node - Serialized node
+ * @param at - JSON location, for error messages
+ * @returns Span, or undefined if the node has none
+ * @throws Error if the span is malformed
+ */
+function readSpan(node: Record<string, unknown>, at: string): Span | undefined {
+  if (node.span === undefined) {
+    return undefined;
+  }
+  const span = expectObject(node.span, `${at}.span`);
+  const start = expectNumber(span.start, `${at}.span.start`);
+  const end = expectNumber(span.end, `${at}.span.end`);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start) {
+    throw new Error(`Invalid AST JSON at ${at}.span: expected 0 <= start <= end`);
+  }
+  return { start, end };
+}
+
+// Type guards for JSON values (throw with the JSON location on mismatch)
+
+function expectObject(value: unknown, at: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid AST JSON at ${at}: expected an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, at: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid AST JSON at ${at}: expected an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, at: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid AST JSON at ${at}: expected a string`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, at: string): number {
+  if (typeof value !== 'number' || isNaN(value)) {
+    throw new Error(`Invalid AST JSON at ${at}: expected a number`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, at: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`Invalid AST JSON at ${at}: expected a boolean`);
+  }
+  return value;
+}
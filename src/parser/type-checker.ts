@@ -0,0 +1,708 @@
+/**
+ * TYPE CHECKER: Checks a rule's AST against a data schema
+ * 
+ * Parsing only proves that a rule is well-formed. Given a DataSchema (see
+ * domain/schema.ts), the type checker also proves that the rule reads fields
+ * that exist and compares them with values of a matching type. Every problem
+ * is reported as a positioned diagnostic:
+ * 
+ * - Unknown fields: "agee > 18" → "Unknown field 'agee' at position 0. Did you mean 'age'?"
+ * - Type mismatches: "age = 'old'" → "Cannot compare number field 'age' with string 'old' using = at position 4"
+ * - Impossible enum values: "tier = 'gold'" → "Value 'gold' is not allowed for field 'tier' at position 7. ..."
+ * 
+ * The checks mirror what the evaluator accepts at runtime:
+ * - = and != compare values of the same type (dates and strings may be mixed)
+ * - >, <, >=, <= and BETWEEN order two numbers, or a date with a date or string
+ * - CONTAINS needs a string or array; STARTS_WITH, ENDS_WITH, LIKE and MATCHES need strings
+ * - Arithmetic needs numbers, plus date ± duration and date - date
+ * - Fields inside ANY/ALL predicates and aggregate WHERE filters are looked
+ *   up in the array's element schema
+ * 
+ * null, conditions and values of unknown type (fields below an open object,
+ * coalesce(), ...) are compatible with everything, so only rules that cannot
+ * work as written are rejected.
+ */
+
+import { TokenType } from '../domain/token';
+import { Diagnostic, locate, suggest } from '../domain/diagnostic';
+import {
+  Expression,
+  BinaryExpression,
+  ArithmeticExpression,
+  BetweenExpression,
+  LogicalExpression,
+  UnaryExpression,
+  Identifier,
+  NumberLiteral,
+  StringLiteral,
+  BooleanLiteral,
+  ListLiteral,
+  CallExpression,
+  QuantifierExpression,
+  AggregateExpression,
+} from '../domain/ast';
+import { ExpressionVisitor } from '../domain/visitor';
+import { DataSchema, EnumValue, FieldSchema, SchemaType } from '../domain/schema';
+import { lookupFunction, ValueType } from '../domain/functions';
+import { quotePath, quoteString } from '../domain/strings';
+import { printExpression } from './printer';
+
+/**
+ * STATIC TYPE
+ * What is known about a node's value before evaluation
+ * ('any' when it depends on data the schema does not describe)
+ */
+type StaticType = SchemaType | 'null' | 'any' | 'condition';
+
+/**
+ * TYPED
+ * A checked node's type, plus its schema when the node is a field reference
+ */
+interface Typed {
+  type: StaticType;
+
+  /** Field schema (field references only) */
+  field?: FieldSchema;
+
+  /** Field path as written, relative to the current scope (field references only) */
+  name?: string;
+}
+
+/**
+ * COMPARISON
+ * The comparison being checked, for diagnostics
+ */
+interface Comparison {
+  /** Whole comparison node (the diagnostic's range) */
+  node: Expression;
+
+  /** Operator as written (e.g., "=", "NOT BETWEEN") */
+  operator: string;
+
+  /** Position of the operator */
+  position: number;
+}
+
+const ANY: Typed = { type: 'any' };
+const CONDITION: Typed = { type: 'condition' };
+
+/**
+ * CHECK EXPRESSION
+ * Type-checks a parsed expression against a data schema
+ * 
+ * Example with schema { age: number, tier: string enum ["free", "pro"] }:
+ * checkExpression(parseExpression("agee > 18 AND tier = 'gold'"), schema, source)
+ * → [
+ *   { severity: "error", message: "Unknown field 'agee' at position 0. Did you mean 'age'?", ... },
+ *   { severity: "error", message: "Value 'gold' is not allowed for field 'tier' at position 21. ...", ... }
+ * ]
+ * 
+ * @param expr - Root node of the AST
+ * @param schema - Schema of the data the rule will be evaluated against
+ * @param source - Expression text the AST was parsed from (for line/column locations)
+ * @returns Every problem found, empty if the expression type-checks
+ */
+export function checkExpression(expr: Expression, schema: DataSchema, source: string): Diagnostic[] {
+  return new TypeChecker(schema, source).check(expr);
+}
+
+/**
+ * TYPE CHECKER
+ * Visitor computing each node's static type and recording problems on the way
+ */
+class TypeChecker implements ExpressionVisitor<Typed> {
+  private diagnostics: Diagnostic[] = [];
+
+  /**
+   * Schema that field names are looked up in: the data schema at the root,
+   * an array's element schema inside ANY/ALL and WHERE (null when open)
+   */
+  private scope: FieldSchema | null;
+
+  /** Array whose elements are the current scope (null at the root) */
+  private scopeName: string | null = null;
+
+  /**
+   * Constructor
+   * @param schema - Schema of the data
+   * @param source - Expression text (for line/column locations)
+   */
+  constructor(schema: DataSchema, private source: string) {
+    this.scope = schema;
+  }
+
+  /**
+   * CHECK
+   * Walks the whole tree and collects diagnostics
+   * 
+   * @param expr - Root node of the AST
+   * @returns Every problem found
+   */
+  check(expr: Expression): Diagnostic[] {
+    expr.accept(this);
+    return this.diagnostics;
+  }
+
+  visitLogicalExpression(expr: LogicalExpression): Typed {
+    expr.left.accept(this);
+    expr.right.accept(this);
+    return CONDITION;
+  }
+
+  visitUnaryExpression(expr: UnaryExpression): Typed {
+    const operand = expr.operand.accept(this);
+    if (expr.operator.type !== TokenType.MINUS) {
+      return CONDITION;
+    }
+    if (!this.isLoose(operand.type) && operand.type !== 'number') {
+      this.error(
+        `Cannot apply - to ${this.describe(expr.operand, operand)} at position ${expr.operator.position}`,
+        expr
+      );
+    }
+    return { type: 'number' };
+  }
+
+  visitBinaryExpression(expr: BinaryExpression): Typed {
+    const left = expr.left.accept(this);
+    const comparison: Comparison = {
+      node: expr,
+      operator: expr.operator.literal,
+      position: expr.operator.position,
+    };
+
+    switch (expr.operator.type) {
+      case TokenType.EQUAL:
+      case TokenType.NOT_EQUAL:
+        this.checkEquality(comparison, expr.left, left, expr.right, expr.right.accept(this));
+        break;
+      case TokenType.GREATER:
+      case TokenType.LESS:
+      case TokenType.GREATER_EQUAL:
+      case TokenType.LESS_EQUAL:
+        this.checkOrdering(comparison, expr.left, left, expr.right, expr.right.accept(this));
+        break;
+      case TokenType.IN:
+      case TokenType.NOT_IN:
+        // Each list element is compared with = semantics
+        if (expr.right instanceof ListLiteral) {
+          for (const element of expr.right.elements) {
+            this.checkEquality(comparison, expr.left, left, element, element.accept(this));
+          }
+        } else {
+          expr.right.accept(this);
+        }
+        break;
+      case TokenType.CONTAINS:
+      case TokenType.ICONTAINS:
+        this.checkContains(comparison, expr, left, expr.right.accept(this));
+        break;
+      default: {
+        // STARTS_WITH, ENDS_WITH, LIKE, MATCHES and their I-prefixed variants
+        const right = expr.right.accept(this);
+        for (const [operand, typed] of [[expr.left, left], [expr.right, right]] as const) {
+          if (!this.isLoose(typed.type) && !this.isText(typed.type)) {
+            this.error(
+              `Cannot apply ${comparison.operator} to ${this.describe(operand, typed)} at position ${comparison.position}`,
+              expr
+            );
+          }
+        }
+      }
+    }
+    return CONDITION;
+  }
+
+  visitBetweenExpression(expr: BetweenExpression): Typed {
+    const value = expr.value.accept(this);
+    const comparison: Comparison = {
+      node: expr,
+      operator: expr.tokenLiteral(),
+      position: expr.token.position,
+    };
+    this.checkOrdering(comparison, expr.value, value, expr.low, expr.low.accept(this));
+    this.checkOrdering(comparison, expr.value, value, expr.high, expr.high.accept(this));
+    return CONDITION;
+  }
+
+  visitArithmeticExpression(expr: ArithmeticExpression): Typed {
+    const left = expr.left.accept(this);
+    const right = expr.right.accept(this);
+    const operator = expr.operator.type;
+    const fail = (message: string): Typed => {
+      this.error(`${message} at position ${expr.operator.position}`, expr);
+      return ANY;
+    };
+
+    // Only numbers and dates take part in arithmetic
+    for (const [operand, typed] of [[expr.left, left], [expr.right, right]] as const) {
+      if (!this.isLoose(typed.type) && typed.type !== 'number' && typed.type !== 'date') {
+        return fail(`Cannot apply ${expr.operator.literal} to ${this.describe(operand, typed)}`);
+      }
+    }
+
+    const dates = [left, right].filter((typed) => typed.type === 'date').length;
+    const unknown = this.isLoose(left.type) || this.isLoose(right.type);
+    if (operator !== TokenType.PLUS && operator !== TokenType.MINUS) {
+      if (dates > 0) {
+        return fail(`Cannot apply ${expr.operator.literal} to a date`);
+      }
+      return { type: 'number' };
+    }
+    if (dates === 2) {
+      // The gap between two dates, in milliseconds
+      return operator === TokenType.MINUS ? { type: 'number' } : fail('Cannot add two dates');
+    }
+    if (operator === TokenType.MINUS && right.type === 'date') {
+      return fail('Cannot subtract a date from a number');
+    }
+    if (unknown) {
+      return ANY;
+    }
+    return { type: dates === 1 ? 'date' : 'number' };
+  }
+
+  visitIdentifier(expr: Identifier): Typed {
+    const schema = this.walk(expr, this.scope, 0, expr.path.length, this.scopeName);
+    return schema ? { type: schema.type, field: schema, name: quotePath(expr.path) } : ANY;
+  }
+
+  visitNumberLiteral(): Typed {
+    return { type: 'number' };
+  }
+
+  visitStringLiteral(): Typed {
+    return { type: 'string' };
+  }
+
+  visitDateLiteral(): Typed {
+    return { type: 'date' };
+  }
+
+  visitDurationLiteral(): Typed {
+    // Durations are milliseconds
+    return { type: 'number' };
+  }
+
+  visitBooleanLiteral(): Typed {
+    return { type: 'boolean' };
+  }
+
+  visitNullLiteral(): Typed {
+    return { type: 'null' };
+  }
+
+  visitListLiteral(expr: ListLiteral): Typed {
+    expr.elements.forEach((element) => element.accept(this));
+    return { type: 'array' };
+  }
+
+  visitRegexLiteral(): Typed {
+    return { type: 'string' };
+  }
+
+  visitCallExpression(expr: CallExpression): Typed {
+    const args = expr.args.map((arg) => arg.accept(this));
+    const signature = lookupFunction(expr.name);
+    if (!signature) {
+      return ANY;
+    }
+
+    // Literal arguments were checked by the parser; this catches field types
+    args.forEach((arg, index) => {
+      const accepted = signature.params[Math.min(index, signature.params.length - 1)];
+      const fits =
+        this.isLoose(arg.type) ||
+        accepted.includes('any') ||
+        accepted.includes(arg.type as ValueType) ||
+        (arg.type === 'date' && accepted.includes('string'));
+      if (!fits) {
+        this.error(
+          `Function ${expr.name}() expects ${accepted.join(' or ')} for argument ${index + 1} but got ${this.describe(expr.args[index], arg)} at position ${expr.token.position}`,
+          expr.args[index]
+        );
+      }
+    });
+    return { type: signature.returns };
+  }
+
+  visitQuantifierExpression(expr: QuantifierExpression): Typed {
+    const collection = this.visitIdentifier(expr.collection);
+
+    let elements: FieldSchema | null = null;
+    if (collection.type === 'array') {
+      elements = collection.field?.items ?? null;
+    } else if (!this.isLoose(collection.type)) {
+      this.error(
+        `${expr.token.literal} requires an array field but '${collection.name}' is ${this.article(collection.type)} at position ${expr.token.position}`,
+        expr.collection
+      );
+    }
+
+    this.inScope(elements, quotePath(expr.collection.path), () => expr.predicate.accept(this));
+    return CONDITION;
+  }
+
+  visitAggregateExpression(expr: AggregateExpression): Typed {
+    const field = expr.field;
+    const path = field.path;
+
+    // Find the array the same way the evaluator does (see locateArray):
+    // the first array not followed by an index; the rest is read per element
+    let current: FieldSchema | null | undefined = this.scope;
+    let split = -1;
+    for (let i = 0; current; i++) {
+      if (current.type === 'array' && typeof path[i] !== 'number') {
+        split = i;
+        break;
+      }
+      if (i === path.length) {
+        this.error(
+          `${expr.name}() requires an array field but '${quotePath(path)}' is ${this.article(current.type)} at position ${field.token.position}`,
+          field
+        );
+        break;
+      }
+      current = this.walk(field, current, i, i + 1, i === 0 ? this.scopeName : null);
+    }
+
+    let elements: FieldSchema | null = null;
+    if (split >= 0 && current) {
+      elements = current.items ?? null;
+      const value = this.walk(field, elements, split, path.length, quotePath(path.slice(0, split)));
+      if (value && expr.name !== 'COUNT' && value.type !== 'number') {
+        this.error(
+          `${expr.name}() expects numeric values but '${quotePath(path)}' is ${this.article(value.type)} at position ${field.token.position}`,
+          field
+        );
+      }
+    }
+
+    const filter = expr.filter;
+    if (filter) {
+      this.inScope(elements, quotePath(path.slice(0, Math.max(split, 0))), () => filter.accept(this));
+    }
+    return { type: 'number' };
+  }
+
+  /**
+   * CHECK EQUALITY
+   * Checks one = / != / IN comparison, including enum values
+   * 
+   * Examples with schema { age: number, tier: string enum ["free", "pro"] }:
+   * - age = 'old' → Cannot compare number field 'age' with string 'old' using =
+   * - tier = 'gold' → Value 'gold' is not allowed for field 'tier'
+   * - tier = null → fine (null is compatible with everything)
+   * 
+   * @param comparison - Comparison being checked
+   * @param left - Left operand
+   * @param leftType - Its static type
+   * @param right - Right operand (or IN list element)
+   * @param rightType - Its static type
+   */
+  private checkEquality(
+    comparison: Comparison,
+    left: Expression,
+    leftType: Typed,
+    right: Expression,
+    rightType: Typed
+  ): void {
+    const comparable =
+      leftType.type === rightType.type ||
+      this.isLoose(leftType.type) ||
+      this.isLoose(rightType.type) ||
+      leftType.type === 'null' ||
+      rightType.type === 'null' ||
+      (this.isText(leftType.type) && this.isText(rightType.type));
+    if (!comparable) {
+      this.mismatch(comparison, left, leftType, right, rightType);
+      return;
+    }
+    this.checkEnum(leftType, right);
+    this.checkEnum(rightType, left);
+  }
+
+  /**
+   * CHECK ORDERING
+   * Checks one >, <, >=, <= or BETWEEN comparison
+   * 
+   * Numbers order with numbers; dates order with dates and (ISO) strings.
+   * Booleans, null, arrays and objects cannot be ordered at all.
+   * 
+   * @param comparison - Comparison being checked
+   * @param left - Left operand
+   * @param leftType - Its static type
+   * @param right - Right operand (or BETWEEN bound)
+   * @param rightType - Its static type
+   */
+  private checkOrdering(
+    comparison: Comparison,
+    left: Expression,
+    leftType: Typed,
+    right: Expression,
+    rightType: Typed
+  ): void {
+    const types = [leftType.type, rightType.type];
+    const unorderable = types.some((type) => ['boolean', 'null', 'array', 'object'].includes(type));
+    const orderable =
+      !unorderable &&
+      (types.some((type) => this.isLoose(type)) ||
+        types.every((type) => type === 'number') ||
+        (types.every((type) => this.isText(type)) && types.includes('date')));
+    if (!orderable) {
+      this.mismatch(comparison, left, leftType, right, rightType);
+    }
+  }
+
+  /**
+   * CHECK CONTAINS
+   * Checks a CONTAINS / ICONTAINS comparison
+   * 
+   * - Array fields: the value is compared with the element schema (= semantics)
+   * - String fields: the value must be a string too
+   * 
+   * @param comparison - Comparison being checked
+   * @param expr - Comparison node
+   * @param left - Static type of the searched value
+   * @param right - Static type of the value searched for
+   */
+  private checkContains(
+    comparison: Comparison,
+    expr: BinaryExpression,
+    left: Typed,
+    right: Typed
+  ): void {
+    if (left.type === 'array') {
+      const items = left.field?.items;
+      if (items) {
+        // Messages name the array field: "Value 'x' is not allowed for field 'tags'"
+        const element: Typed = { type: items.type, field: items, name: left.name };
+        this.checkEquality(comparison, expr.left, element, expr.right, right);
+      }
+    } else if (!this.isLoose(left.type) && !this.isText(left.type)) {
+      this.error(
+        `Cannot apply ${comparison.operator} to ${this.describe(expr.left, left)} at position ${comparison.position}`,
+        expr
+      );
+    } else if (!this.isLoose(right.type) && !this.isText(right.type)) {
+      this.mismatch(comparison, expr.left, left, expr.right, right);
+    }
+  }
+
+  /**
+   * CHECK ENUM
+   * Reports a literal that an enum field can never hold
+   * 
+   * @param field - Static type of the field side
+   * @param value - Other side of the comparison
+   */
+  private checkEnum(field: Typed, value: Expression): void {
+    const allowed = field.field?.enum;
+    if (!allowed) {
+      return;
+    }
+    let literal: EnumValue;
+    if (value instanceof StringLiteral || value instanceof NumberLiteral || value instanceof BooleanLiteral) {
+      literal = value.value;
+    } else {
+      return;
+    }
+    if (allowed.includes(literal)) {
+      return;
+    }
+
+    const options = allowed.map((option) => (typeof option === 'string' ? quoteString(option) : String(option)));
+    const suggestions =
+      typeof literal === 'string'
+        ? suggest(literal, allowed.filter((option): option is string => typeof option === 'string'))
+        : [];
+    const hint = suggestions.length > 0 ? ` Did you mean ${quoteString(suggestions[0])}?` : '';
+    this.error(
+      `Value ${printExpression(value)} is not allowed for field '${field.name}' at position ${this.positionOf(value)}. Expected one of ${options.join(', ')}.${hint}`,
+      value,
+      suggestions
+    );
+  }
+
+  /**
+   * MISMATCH
+   * Reports two operands that cannot be compared
+   * 
+   * @param comparison - Comparison being checked
+   * @param left - Left operand
+   * @param leftType - Its static type
+   * @param right - Right operand
+   * @param rightType - Its static type
+   */
+  private mismatch(
+    comparison: Comparison,
+    left: Expression,
+    leftType: Typed,
+    right: Expression,
+    rightType: Typed
+  ): void {
+    this.error(
+      `Cannot compare ${this.describe(left, leftType)} with ${this.describe(right, rightType)} using ${comparison.operator} at position ${comparison.position}`,
+      comparison.node
+    );
+  }
+
+  /**
+   * WALK
+   * Looks up part of a field path in a schema, reporting what does not exist
+   * 
+   * Examples with schema { age: number, address: { country: string } }:
+   * - address.country → { type: "string" }
+   * - agee → undefined (Unknown field 'agee' ... Did you mean 'age'?)
+   * - age.years → undefined (Field 'age' is a number, so 'age.years' does not exist)
+   * 
+   * @param ident - Identifier whose path to walk
+   * @param root - Schema to start from (null when open)
+   * @param from - Index of the first segment to look up
+   * @param to - Index after the last segment to look up
+   * @param elementsOf - Array whose element schema root is (null if root is an object field)
+   * @returns Schema of the field, null if it is below an open object or
+   *          array, undefined if it does not exist (already reported)
+   */
+  private walk(
+    ident: Identifier,
+    root: FieldSchema | null,
+    from: number,
+    to: number,
+    elementsOf: string | null
+  ): FieldSchema | null | undefined {
+    let current: FieldSchema | null = root;
+    for (let i = from; i < to && current; i++) {
+      const segment = ident.path[i];
+      const name = quotePath(ident.path.slice(0, i + 1));
+      const position = ident.token.position;
+
+      const container: SchemaType = typeof segment === 'number' ? 'array' : 'object';
+      if (current.type !== container) {
+        const owner =
+          i === from && elementsOf !== null
+            ? `Elements of '${elementsOf}' are ${current.type} values`
+            : `Field '${quotePath(ident.path.slice(0, i))}' is ${this.article(current.type)}`;
+        this.error(`${owner}, so '${name}' does not exist at position ${position}`, ident);
+        return undefined;
+      }
+
+      if (typeof segment === 'number') {
+        current = current.items ?? null;
+      } else if (!current.properties) {
+        current = null;
+      } else if (Object.prototype.hasOwnProperty.call(current.properties, segment)) {
+        current = current.properties[segment];
+      } else {
+        const suggestions = suggest(segment, Object.keys(current.properties)).map((candidate) =>
+          quotePath([...ident.path.slice(0, i), candidate])
+        );
+        const within = this.scopeName !== null ? ` in elements of '${this.scopeName}'` : '';
+        const hint = suggestions.length > 0 ? ` Did you mean '${suggestions[0]}'?` : '';
+        this.error(`Unknown field '${name}'${within} at position ${position}.${hint}`, ident, suggestions);
+        return undefined;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * IN SCOPE
+   * Checks a condition against an array's element schema
+   * (counterpart of the evaluator's evalInScope)
+   * 
+   * @param scope - Element schema (null when open)
+   * @param name - Array field, for messages
+   * @param check - Check to run in the element scope
+   */
+  private inScope(scope: FieldSchema | null, name: string, check: () => void): void {
+    const outer = { scope: this.scope, name: this.scopeName };
+    this.scope = scope;
+    this.scopeName = name;
+    try {
+      check();
+    } finally {
+      this.scope = outer.scope;
+      this.scopeName = outer.name;
+    }
+  }
+
+  /**
+   * IS LOOSE
+   * Whether a type is compatible with everything
+   * 
+   * @param type - Static type
+   * @returns true for unknown types and conditions
+   */
+  private isLoose(type: StaticType): boolean {
+    return type === 'any' || type === 'condition';
+  }
+
+  /**
+   * IS TEXT
+   * Whether a type is held as a string (dates are ISO-8601 text)
+   * 
+   * @param type - Static type
+   * @returns true for string and date
+   */
+  private isText(type: StaticType): boolean {
+    return type === 'string' || type === 'date';
+  }
+
+  /**
+   * DESCRIBE
+   * Names an operand for messages
+   * 
+   * Examples: "number field 'age'", "string 'old'", "date now()"
+   * 
+   * @param expr - Operand node
+   * @param typed - Its static type
+   * @returns Description
+   */
+  private describe(expr: Expression, typed: Typed): string {
+    return typed.name !== undefined
+      ? `${typed.type} field '${typed.name}'`
+      : `${typed.type} ${printExpression(expr)}`;
+  }
+
+  /**
+   * ARTICLE
+   * Prefixes a type name with "a" or "an" (e.g., "an object")
+   * 
+   * @param type - Type name
+   * @returns Type name with its article
+   */
+  private article(type: string): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+  }
+
+  /**
+   * POSITION OF
+   * Character offset where a node starts
+   * 
+   * @param expr - AST node
+   * @returns Offset (0 if the node has no span)
+   */
+  private positionOf(expr: Expression): number {
+    return expr.span?.start ?? 0;
+  }
+
+  /**
+   * ERROR
+   * Records a problem covering a node's text
+   * 
+   * @param message - Description of the problem
+   * @param expr - Node the problem is about
+   * @param suggestions - "Did you mean" replacements, if any
+   */
+  private error(message: string, expr: Expression, suggestions: string[] = []): void {
+    const span = expr.span ?? { start: 0, end: this.source.length };
+    this.diagnostics.push({
+      severity: 'error',
+      message,
+      start: locate(this.source, span.start),
+      end: locate(this.source, span.end),
+      ...(suggestions.length > 0 ? { suggestions } : {}),
+    });
+  }
+}
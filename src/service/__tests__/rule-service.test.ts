@@ -0,0 +1,153 @@
+import { DiagnosticError } from '../../domain/diagnostic';
+import { MemoryRepository } from '../../repository/memory-repository';
+import { RuleService } from '../rule-service';
+
+describe('RuleService', () => {
+  let service: RuleService;
+
+  beforeEach(() => {
+    service = new RuleService(new MemoryRepository());
+  });
+
+  describe('parser warnings', () => {
+    it('returns warnings with the created rule', async () => {
+      const rule = await service.createRule('r1', 'amount > 1e400');
+      expect(rule.warnings).toEqual(["Number '1e400' is too large and becomes Infinity at position 9"]);
+    });
+
+    it('omits warnings when there are none, and updates them with the expression', async () => {
+      await service.createRule('r1', 'amount > 1e400');
+      const updated = await service.updateRule('r1', 'amount > 100');
+      expect(updated.warnings).toBeUndefined();
+    });
+
+    it('rejects invalid expressions', async () => {
+      await expect(service.createRule('r1', 'amount > 1__0')).rejects.toThrow(
+        "InvalidExpression: Invalid number '1__0' at position 9"
+      );
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('rejects with every diagnostic attached', async () => {
+      const error = await service.createRule('r1', 'a >= AND b = 1 ANDD c = 2').catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(DiagnosticError);
+      expect((error as DiagnosticError).message).toBe("InvalidExpression: Unexpected token 'AND' at position 5");
+      expect((error as DiagnosticError).diagnostics).toHaveLength(2);
+    });
+
+    it('reports an incomplete expression as ending unexpectedly', async () => {
+      await expect(service.createRule('r1', 'age > 18 AND')).rejects.toThrow(
+        'InvalidExpression: Unexpected end of expression at position 12'
+      );
+    });
+
+    it('rejects values where conditions are required when the rule is created', async () => {
+      await expect(service.createRule('r1', 'age BETWEEN 1 AND 2 AND 3')).rejects.toThrow(
+        'InvalidExpression: Each side of AND must be a condition, not a value, at position 24'
+      );
+      await expect(service.createRule('r1', 'age')).rejects.toThrow(DiagnosticError);
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats an expression without storing it', async () => {
+      expect(service.formatExpression(' (age>=18) and country == "US" ')).toBe("age >= 18 AND country = 'US'");
+      expect(await service.getAllRules()).toEqual([]);
+    });
+
+    it('rejects empty and invalid expressions', () => {
+      expect(() => service.formatExpression('  ')).toThrow('Expression cannot be empty');
+      expect(() => service.formatExpression('age >')).toThrow(DiagnosticError);
+    });
+
+    it('stores expressions as written by default', async () => {
+      const rule = await service.createRule('r1', '(age>=18)');
+      expect(rule.expression).toBe('(age>=18)');
+    });
+
+    it('stores canonical expressions when normalization is enabled', async () => {
+      service = new RuleService(new MemoryRepository(), { normalizeExpressions: true });
+      await service.createRule('r1', '(age>=18)');
+      const updated = await service.updateRule('r1', "status == 'a' && age>1");
+      expect(updated.expression).toBe("status = 'a' AND age > 1");
+    });
+
+    it('reports spans against the stored expression', async () => {
+      service = new RuleService(new MemoryRepository(), { normalizeExpressions: true });
+      const rule = await service.createRule('r1', '(age>=18)  and  score>1');
+      const { details } = await service.evaluateRule('r1', { age: 20, score: 2 });
+      expect(details.map((detail) => rule.expression.slice(detail.span!.start, detail.span!.end))).toEqual([
+        'age >= 18',
+        'score > 1',
+        rule.expression,
+      ]);
+    });
+  });
+
+  describe('explaining expressions', () => {
+    it('returns the versioned AST JSON, tokens and precedence decisions', () => {
+      const explained = service.explainExpression('a = 1 OR b = 2 AND c = 3');
+      expect(explained.version).toBe(1);
+      expect(explained.ast).toMatchObject({ type: 'Logical', operator: 'AND', left: { operator: 'OR' } });
+      expect(explained.tokens).toHaveLength(11);
+      expect(explained.precedence.filter((decision) => decision.binds)).toHaveLength(5);
+      expect(explained.warnings).toBeUndefined();
+    });
+
+    it('explains a stored rule', async () => {
+      await service.createRule('r1', 'amount > 1e400');
+      const explained = await service.getRuleAst('r1');
+      expect(explained.ast).toMatchObject({ type: 'Binary', right: { value: Infinity } });
+      expect(explained.warnings).toHaveLength(1);
+    });
+
+    it('rejects invalid expressions', () => {
+      expect(() => service.explainExpression('a =')).toThrow(DiagnosticError);
+    });
+  });
+
+  describe('data schema', () => {
+    const SCHEMA = { type: 'object', properties: { age: { type: 'number' } } };
+
+    it('type-checks new and updated rules once a schema is registered', async () => {
+      await service.createRule('r1', 'agee > 18');
+      service.setSchema(SCHEMA);
+
+      await expect(service.createRule('r2', 'agee > 18')).rejects.toThrow(
+        "InvalidExpression: Unknown field 'agee' at position 0. Did you mean 'age'?"
+      );
+      await expect(service.updateRule('r1', "age = 'x'")).rejects.toThrow(DiagnosticError);
+      await expect(service.updateRule('r1', 'age > 18')).resolves.toMatchObject({ expression: 'age > 18' });
+    });
+
+    it('stops checking once the schema is deleted', async () => {
+      service.setSchema(SCHEMA);
+      service.deleteSchema();
+      await expect(service.createRule('r1', 'agee > 18')).resolves.toBeDefined();
+      expect(() => service.getSchema()).toThrow('No schema registered');
+      expect(() => service.deleteSchema()).toThrow('No schema registered');
+    });
+
+    it('rejects invalid schemas and keeps the previous one', () => {
+      service.setSchema(SCHEMA);
+      expect(() => service.setSchema({ type: 'array' })).toThrow('Invalid schema at $.type');
+      expect(service.getSchema()).toEqual(service.setSchema(SCHEMA));
+    });
+  });
+
+  describe('optimization', () => {
+    it('returns optimizer findings as warnings', async () => {
+      const rule = await service.createRule('r1', 'age > 5 AND age > 10');
+      expect(rule.warnings).toEqual(['Clause "age > 5" is redundant because of "age > 10" at position 0']);
+      expect(rule.expression).toBe('age > 5 AND age > 10');
+    });
+
+    it('evaluates the optimized expression', async () => {
+      await service.createRule('r1', 'age > 5 AND age > 10');
+      const { result, details } = await service.evaluateRule('r1', { age: 12 });
+      expect(result).toBe(true);
+      expect(details.map((detail) => detail.clause)).toEqual(['age > 10']);
+    });
+  });
+});
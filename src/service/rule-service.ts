@@ -9,34 +9,119 @@
  * - Expression parsing and AST caching
  * - Rule CRUD operations
  * - Rule evaluation against data
+ * - Type checking rules against the registered data schema (if any)
+ * - Linting expressions, optionally rejecting rules with lint errors
  * 
  * Key Performance Optimization:
  * - AST caching: Parse expression once, reuse for all evaluations (5-10x faster)
+ * - AST optimization: Cached ASTs are simplified first (see evaluator/optimizer.ts)
  */
 
 import { Rule, RuleRepository, EvaluationResult } from '../domain/rule';
 import { Expression } from '../domain/ast';
-import { parseExpression } from '../parser/parser';
+import { Token } from '../domain/token';
+import {
+  parseExpression,
+  parseExpressionWithWarnings,
+  explainExpression,
+  ParseResult,
+  PrecedenceDecision,
+} from '../parser/parser';
+import { printExpression } from '../parser/printer';
+import { AST_FORMAT_VERSION, serializeExpression, SerializedExpression } from '../parser/serializer';
 import { Evaluator } from '../evaluator/evaluator';
+import { optimizeExpression } from '../evaluator/optimizer';
+import { DiagnosticError } from '../domain/diagnostic';
+import { DataSchema, parseSchema } from '../domain/schema';
+import { checkExpression } from '../parser/type-checker';
+import {
+  lintExpression,
+  parseLintConfig,
+  LintConfig,
+  LintDiagnostic,
+  LintRule,
+  LINT_RULES,
+} from '../parser/linter';
 
 // Input validation limits to prevent abuse
 const MAX_ID_LENGTH = 100;              // Rule IDs limited to 100 characters
 const MAX_EXPRESSION_LENGTH = 1000;     // Expressions limited to 1000 characters
 const MAX_DESCRIPTION_LENGTH = 500;     // Descriptions limited to 500 characters
 
+/**
+ * RULE SERVICE OPTIONS
+ * Optional behaviour switches, all off by default
+ */
+export interface RuleServiceOptions {
+  /**
+   * Store expressions in canonical form on create/update
+   * (e.g., "(age>=18) and country=='US'" is saved as "age >= 18 AND country = 'US'")
+   */
+  normalizeExpressions?: boolean;
+
+  /**
+   * Reject new and updated expressions that have lint errors (see parser/linter.ts);
+   * lint warnings never block
+   */
+  enforceLint?: boolean;
+
+  /** Severity overrides for lint rules (e.g., { "max-depth": "error" }) */
+  lintConfig?: LintConfig;
+
+  /** Lint rules to run (default LINT_RULES - add custom rules here) */
+  lintRules?: LintRule[];
+}
+
+/**
+ * EXPRESSION EXPLANATION
+ * How an expression was tokenized and parsed, for debugging grouping
+ * (returned by POST /expressions/parse and GET /rules/:id/ast)
+ */
+export interface ExpressionExplanation {
+  /** Version of the AST JSON shape (see parser/serializer.ts) */
+  version: number;
+
+  /** AST in its JSON representation */
+  ast: SerializedExpression;
+
+  /** Token stream from the lexer */
+  tokens: Token[];
+
+  /** Each operator's bind/return decision, in parse order */
+  precedence: PrecedenceDecision[];
+
+  /** Non-fatal parser warnings, if any */
+  warnings?: string[];
+}
+
 export class RuleService {
   /**
-   * AST Cache: Maps rule ID to parsed Abstract Syntax Tree
+   * AST Cache: Maps rule ID to parsed (and optimized) Abstract Syntax Tree
    * Key performance optimization - parsing is expensive, caching is cheap
    * Example: {"rule1" → AST object, "rule2" → AST object}
    */
   private astCache: Map<string, Expression> = new Map();
 
+  /**
+   * Data schema that new and updated rules are type-checked against
+   * (none until registered with setSchema)
+   */
+  private schema?: DataSchema;
+
   /**
    * Constructor
    * @param repository - RuleRepository instance for data persistence
+   * @param options - Optional behaviour switches (see RuleServiceOptions)
    */
-  constructor(private repository: RuleRepository) {}
+  constructor(
+    private repository: RuleRepository,
+    private options: RuleServiceOptions = {}
+  ) {
+    // Fail fast on a misspelled rule name or severity
+    if (options.lintConfig) {
+      parseLintConfig(options.lintConfig, options.lintRules ?? LINT_RULES);
+    }
+  }
 
   /**
    * CREATE RULE
@@ -46,8 +131,12 @@ export class RuleService {
    * 1. Sanitize inputs (trim whitespace)
    * 2. Validate required fields and length limits
    * 3. Check for duplicate rule ID
-   * 4. Parse expression into AST (validates syntax)
-   * 5. Cache AST for future evaluations
+   * 4. Parse expression into AST (validates syntax), normalizing it first
+   *    if options.normalizeExpressions is set, type-check it against the
+   *    data schema if one is registered, and lint it if options.enforceLint
+   *    is set
+   * 5. Optimize and cache AST for future evaluations (findings such as
+   *    redundant or contradictory clauses are returned as warnings)
    * 6. Create rule object with timestamps
    * 7. Save to repository
    * 
@@ -97,7 +186,10 @@ export class RuleService {
 
     // STEP 4: VALIDATE & CACHE EXPRESSION
     // Parse expression into AST (validates syntax) and cache for performance
-    const ast = this.validateAndCacheExpression(id, expression);
+    if (this.options.normalizeExpressions) {
+      expression = this.formatExpression(expression);
+    }
+    const { warnings } = this.validateAndCacheExpression(id, expression);
 
     // STEP 5: CREATE RULE OBJECT
     // Add timestamps for audit trail
@@ -108,6 +200,7 @@ export class RuleService {
       description,
       createdAt: now,  // When rule was created
       updatedAt: now,  // When rule was last modified (same as created initially)
+      warnings: warnings.length > 0 ? warnings : undefined,
     };
 
     // STEP 6: SAVE TO REPOSITORY
@@ -149,7 +242,9 @@ export class RuleService {
    * 1. Fetch existing rule (throws if not found)
    * 2. Sanitize new inputs
    * 3. Validate new expression and length limits
-   * 4. Parse new expression and update cache
+   * 4. Parse new expression (normalized if options.normalizeExpressions
+   *    is set), type-check it against the data schema if one is registered,
+   *    lint it if options.enforceLint is set, and update cache
    * 5. Update rule properties and timestamp
    * 6. Save updated rule to repository
    * 
@@ -189,11 +284,15 @@ export class RuleService {
 
     // STEP 4: VALIDATE & UPDATE CACHE
     // Parse new expression and replace old AST in cache
-    this.validateAndCacheExpression(id, expression);
+    if (this.options.normalizeExpressions) {
+      expression = this.formatExpression(expression);
+    }
+    const { warnings } = this.validateAndCacheExpression(id, expression);
 
     // STEP 5: UPDATE RULE PROPERTIES
     rule.expression = expression;
     rule.description = description;
+    rule.warnings = warnings.length > 0 ? warnings : undefined;
     rule.updatedAt = new Date(); // Update timestamp to track when modified
 
     // STEP 6: SAVE TO REPOSITORY
@@ -251,8 +350,8 @@ export class RuleService {
       // Check if AST is already in cache
       let expr = this.astCache.get(id);
       if (!expr) {
-        // AST not cached yet - parse expression and cache it
-        expr = parseExpression(rule.expression);
+        // AST not cached yet - parse and optimize expression and cache it
+        expr = optimizeExpression(parseExpression(rule.expression)).ast;
         this.astCache.set(id, expr);
       }
       // Now expr contains the AST (either from cache or freshly parsed)
@@ -279,6 +378,159 @@ export class RuleService {
     }
   }
 
+  /**
+   * FORMAT EXPRESSION
+   * Rewrites an expression in canonical form (see parser/printer.ts)
+   * 
+   * Nothing is stored - used by POST /expressions/format and, when
+   * normalizeExpressions is enabled, by createRule/updateRule.
+   * 
+   * Example:
+   * "(age>=18)  and country == \"US\"" → "age >= 18 AND country = 'US'"
+   * 
+   * The result is re-parsed by the caller when stored, so the cached AST's
+   * spans point into the stored text.
+   * 
+   * @param expression - Boolean expression string
+   * @returns Canonical expression text
+   * @throws Error if the expression is empty or too long
+   * @throws DiagnosticError if expression has invalid syntax (with all diagnostics)
+   */
+  formatExpression(expression: string): string {
+    expression = this.sanitizeExpression(expression);
+    return printExpression(this.parseOrThrow(() => parseExpressionWithWarnings(expression)).ast);
+  }
+
+  /**
+   * EXPLAIN EXPRESSION
+   * Parses an expression without storing it and reports how it was parsed
+   * 
+   * Example: "a = 1 OR b = 2 AND c = 3"
+   * → ast: Logical(AND, Logical(OR, a = 1, b = 2), c = 3) - AND and OR share
+   *   one precedence level, which the precedence decisions make visible
+   * 
+   * @param expression - Boolean expression string
+   * @returns AST JSON, tokens, precedence decisions and warnings
+   * @throws Error if the expression is empty or too long
+   * @throws DiagnosticError if expression has invalid syntax (with all diagnostics)
+   */
+  explainExpression(expression: string): ExpressionExplanation {
+    expression = this.sanitizeExpression(expression);
+    const explained = this.parseOrThrow(() => explainExpression(expression));
+    return {
+      version: AST_FORMAT_VERSION,
+      ast: serializeExpression(explained.ast),
+      tokens: explained.tokens,
+      precedence: explained.precedence,
+      warnings: explained.warnings.length > 0 ? explained.warnings : undefined,
+    };
+  }
+
+  /**
+   * GET RULE AST
+   * Explains how a stored rule's expression was parsed
+   * 
+   * @param id - Unique identifier of the rule
+   * @returns AST JSON, tokens, precedence decisions and warnings
+   * @throws Error if rule doesn't exist
+   */
+  async getRuleAst(id: string): Promise<ExpressionExplanation> {
+    const rule = await this.getRule(id);
+    return this.explainExpression(rule.expression);
+  }
+
+  /**
+   * LINT EXPRESSION
+   * Parses an expression without storing it and runs the lint rules over it
+   * (see parser/linter.ts)
+   * 
+   * Example: "a = 1 OR b = 2 AND c = 3"
+   * → [{ rule: "mixed-logical-operators", severity: "error",
+   *      message: "AND and OR are mixed without parentheses at position 15. ...", ... }]
+   * 
+   * @param expression - Boolean expression string
+   * @param config - Severity overrides for this call (e.g., from a request
+   *                 body), applied on top of options.lintConfig
+   * @returns Lint findings in source order, empty if the expression is clean
+   * @throws Error if the expression is empty or too long, or the config is invalid
+   * @throws DiagnosticError if expression has invalid syntax (with all diagnostics)
+   */
+  lintExpression(expression: string, config?: unknown): LintDiagnostic[] {
+    expression = this.sanitizeExpression(expression);
+    const { ast } = this.parseOrThrow(() => parseExpressionWithWarnings(expression));
+    const rules = this.options.lintRules ?? LINT_RULES;
+    const overrides = config === undefined ? {} : parseLintConfig(config, rules);
+    return this.lint(ast, expression, overrides);
+  }
+
+  /**
+   * SET SCHEMA
+   * Registers the data schema that rules are type-checked against
+   * 
+   * From now on, createRule and updateRule reject expressions that use
+   * unknown fields, compare mismatched types or test impossible enum values
+   * (see parser/type-checker.ts). Existing rules are not re-checked.
+   * 
+   * Example: setSchema({ type: "object", properties: { age: { type: "number" } } })
+   * → createRule("r1", "agee > 18")
+   * → DiagnosticError: InvalidExpression: Unknown field 'agee' at position 0. Did you mean 'age'?
+   * 
+   * @param schema - Schema document (see domain/schema.ts)
+   * @returns The validated schema, as stored
+   * @throws Error if the schema document is invalid
+   */
+  setSchema(schema: unknown): DataSchema {
+    this.schema = parseSchema(schema);
+    return this.schema;
+  }
+
+  /**
+   * GET SCHEMA
+   * Returns the registered data schema
+   * 
+   * @returns The schema
+   * @throws Error if no schema is registered
+   */
+  getSchema(): DataSchema {
+    if (!this.schema) {
+      throw new Error('No schema registered');
+    }
+    return this.schema;
+  }
+
+  /**
+   * DELETE SCHEMA
+   * Removes the data schema, so rules are no longer type-checked
+   * 
+   * @throws Error if no schema is registered
+   */
+  deleteSchema(): void {
+    this.getSchema();
+    this.schema = undefined;
+  }
+
+  /**
+   * SANITIZE EXPRESSION
+   * Trims an expression given on its own and checks it is not empty or too long
+   * 
+   * @param expression - Raw expression string
+   * @returns Trimmed expression
+   * @throws Error if the expression is empty or too long
+   */
+  private sanitizeExpression(expression: string): string {
+    expression = expression?.trim() || '';
+
+    if (!expression) {
+      throw new Error('Expression cannot be empty');
+    }
+
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new Error(`Expression cannot exceed ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    return expression;
+  }
+
   /**
    * VALIDATE AND CACHE EXPRESSION
    * Private helper method that parses expression and caches the AST
@@ -286,27 +538,86 @@ export class RuleService {
    * This is called during create and update operations to:
    * 1. Validate that expression syntax is correct (parsing fails if syntax error)
    * 2. Cache the AST for fast future evaluations
+   * 3. Type-check it against the data schema, if one is registered
+   * 4. Lint it, if options.enforceLint is set (lint errors reject it)
+   * 5. Optimize the AST (see evaluator/optimizer.ts)
+   * 6. Pass on non-fatal parser warnings (e.g., numeric precision loss) and
+   *    the optimizer's findings (e.g., redundant or contradictory clauses)
    * 
    * @param id - Rule ID to use as cache key
    * @param expression - Boolean expression string to parse
-   * @returns Parsed AST (Abstract Syntax Tree)
-   * @throws Error if expression has invalid syntax
+   * @returns Optimized AST (Abstract Syntax Tree) with parser and optimizer warnings
+   * @throws DiagnosticError if expression has invalid syntax, does not
+   *         type-check or has lint errors (with all diagnostics)
    */
-  private validateAndCacheExpression(id: string, expression: string): Expression {
+  private validateAndCacheExpression(id: string, expression: string): ParseResult {
+    // Parse expression into AST
+    // This validates syntax - throws error if malformed
+    // Example: "age >= 18" → BinaryExpression(Identifier("age"), ">=", NumberLiteral(18))
+    const parsed = this.parseOrThrow(() => parseExpressionWithWarnings(expression));
+
+    // Check fields and types against the data schema
+    // Example: "agee > 18" → Unknown field 'agee' at position 0. Did you mean 'age'?
+    if (this.schema) {
+      const diagnostics = checkExpression(parsed.ast, this.schema, expression);
+      if (diagnostics.length > 0) {
+        throw new DiagnosticError(`InvalidExpression: ${diagnostics[0].message}`, diagnostics);
+      }
+    }
+
+    // Enforce the lint policy on the AST as written (before optimization)
+    // Example: "a = 1 OR b = 2 AND c = 3" → AND and OR are mixed without parentheses ...
+    if (this.options.enforceLint) {
+      const diagnostics = this.lint(parsed.ast, expression);
+      const error = diagnostics.find((diagnostic) => diagnostic.severity === 'error');
+      if (error) {
+        throw new DiagnosticError(`LintViolation: ${error.message} (${error.rule})`, diagnostics);
+      }
+    }
+
+    // Simplify the AST, then cache it for future evaluations
+    // Example: "age > 5 AND age > 10" → "age > 10" (+ warning about "age > 5")
+    const optimized = optimizeExpression(parsed.ast);
+    this.astCache.set(id, optimized.ast);
+
+    return { ast: optimized.ast, warnings: [...parsed.warnings, ...optimized.warnings] };
+  }
+
+  /**
+   * LINT
+   * Runs the configured lint rules over a parsed expression
+   * 
+   * @param ast - Parsed (not optimized) AST
+   * @param source - Expression text it was parsed from
+   * @param overrides - Severity overrides on top of options.lintConfig
+   * @returns Lint findings in source order
+   */
+  private lint(ast: Expression, source: string, overrides: LintConfig = {}): LintDiagnostic[] {
+    return lintExpression(
+      ast,
+      source,
+      { ...this.options.lintConfig, ...overrides },
+      this.options.lintRules ?? LINT_RULES
+    );
+  }
+
+  /**
+   * PARSE OR THROW
+   * Runs a parse, reporting syntax errors as InvalidExpression
+   * 
+   * @param parse - Parse to run (e.g., () => parseExpressionWithWarnings(expression))
+   * @returns The parse result
+   * @throws DiagnosticError if expression has invalid syntax (with all diagnostics)
+   */
+  private parseOrThrow<T>(parse: () => T): T {
     try {
-      // Parse expression into AST
-      // This validates syntax - throws error if malformed
-      // Example: "age >= 18" → BinaryExpression(Identifier("age"), ">=", NumberLiteral(18))
-      const ast = parseExpression(expression);
-      
-      // Cache AST for future evaluations (performance optimization)
-      this.astCache.set(id, ast);
-      
-      return ast;
+      return parse();
     } catch (error) {
-      // Wrap error with InvalidExpression prefix for handler to recognize
-      throw new Error(
-        `InvalidExpression: ${error instanceof Error ? error.message : 'Unknown error'}`
+      // Wrap error with InvalidExpression prefix for handler to recognize,
+      // keeping every diagnostic the parser collected
+      throw new DiagnosticError(
+        `InvalidExpression: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof DiagnosticError ? error.diagnostics : []
       );
     }
   }